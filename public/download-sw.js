@@ -0,0 +1,83 @@
+// Streamed download service worker
+// Fallback for browsers without the File System Access API: the page streams
+// decrypted chunks over a MessageChannel and this worker hands them to the
+// browser's download manager as a normal file download.
+
+const DOWNLOAD_PATH_PREFIX = '/__vortex-download/';
+const downloads = new Map();
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('message', (event) => {
+  const data = event.data;
+  if (!data || data.type !== 'register-download') return;
+
+  const port = event.ports[0];
+  let pendingPull = null;
+
+  const stream = new ReadableStream(
+    {
+      start(controller) {
+        port.onmessage = ({ data: message }) => {
+          if (message.type === 'chunk') {
+            controller.enqueue(new Uint8Array(message.chunk));
+            if (pendingPull) {
+              pendingPull();
+              pendingPull = null;
+            }
+          } else if (message.type === 'end') {
+            controller.close();
+            port.close();
+          } else if (message.type === 'abort') {
+            controller.error(new Error(message.reason || 'Download aborted'));
+            port.close();
+          }
+        };
+      },
+      // Ask the page for one more chunk; this keeps memory bounded on both sides
+      pull() {
+        return new Promise((resolve) => {
+          pendingPull = resolve;
+          port.postMessage({ type: 'pull' });
+        });
+      },
+      cancel() {
+        port.postMessage({ type: 'cancel' });
+        port.close();
+      },
+    },
+    new CountQueuingStrategy({ highWaterMark: 4 })
+  );
+
+  downloads.set(data.id, { stream, fileName: data.fileName });
+  port.postMessage({ type: 'ready' });
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (!url.pathname.startsWith(DOWNLOAD_PATH_PREFIX)) return;
+
+  const id = url.pathname.slice(DOWNLOAD_PATH_PREFIX.length);
+  const download = downloads.get(id);
+  if (!download) {
+    event.respondWith(new Response('Download not found', { status: 404 }));
+    return;
+  }
+  downloads.delete(id);
+
+  event.respondWith(
+    new Response(download.stream, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(download.fileName)}`,
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  );
+});
@@ -0,0 +1,197 @@
+import { useCallback, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getUserId, getPairingSession, respondToPairing, sendPairingBundle } from '@/lib/api';
+import { exportKeysForBackup } from '@/lib/keyStorage';
+import {
+  generatePairingKeyPair,
+  parsePairingCode,
+  checkPairingPublicKey,
+  derivePairingSecrets,
+  encryptPairingBundle,
+  formatConfirmationCode,
+  PairingSecrets,
+} from '@/lib/devicePairing';
+import { canScanQRCodes } from '@/lib/qr';
+import { QRScanner } from './QRScanner';
+
+interface ApproveDeviceProps {
+  onBack: () => void;
+}
+
+type ApproveState = 'enter' | 'scan' | 'confirm' | 'sending' | 'success';
+
+// Send this device's keys to a new device after both show the same confirmation code
+export function ApproveDevice({ onBack }: ApproveDeviceProps) {
+  const [state, setState] = useState<ApproveState>('enter');
+  const [pairingCode, setPairingCode] = useState('');
+  const [pairingId, setPairingId] = useState('');
+  const [secrets, setSecrets] = useState<PairingSecrets | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const connect = useCallback(async (code: string) => {
+    setError('');
+    setBusy(true);
+    try {
+      const parsed = parsePairingCode(code);
+      let initiatorPublicKey = parsed.publicKey;
+      if (!initiatorPublicKey) {
+        initiatorPublicKey = (await getPairingSession(parsed.pairingId)).initiatorPublicKey;
+        await checkPairingPublicKey(initiatorPublicKey, parsed.keyCommitment!);
+      }
+
+      const keyPair = await generatePairingKeyPair();
+      await respondToPairing(parsed.pairingId, keyPair.publicKey);
+
+      setSecrets(await derivePairingSecrets(
+        keyPair.privateKey,
+        parsed.pairingId,
+        initiatorPublicKey,
+        keyPair.publicKey,
+        false
+      ));
+      setPairingId(parsed.pairingId);
+      setState('confirm');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect to the new device');
+      setState('enter');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const handleSubmitCode = (event: React.FormEvent) => {
+    event.preventDefault();
+    connect(pairingCode);
+  };
+
+  const handleScanResult = useCallback((value: string) => {
+    setState('enter');
+    connect(value);
+  }, [connect]);
+
+  const handleApprove = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!secrets) return;
+
+    setError('');
+    setState('sending');
+    try {
+      const userId = getUserId();
+      if (!userId) {
+        throw new Error('Session is missing your user id - please sign in again');
+      }
+
+      const keys = await exportKeysForBackup(passphrase);
+      await sendPairingBundle(pairingId, await encryptPairingBundle(keys, userId, secrets, pairingId));
+      setSecrets(null);
+      setState('success');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send keys');
+      setState('confirm');
+    } finally {
+      setPassphrase('');
+    }
+  };
+
+  const handleReject = () => {
+    setSecrets(null);
+    setPairingId('');
+    setPairingCode('');
+    setError('');
+    setState('enter');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b p-4">
+        <div className="max-w-4xl mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold">Link Device</h1>
+          <Button onClick={onBack} variant="ghost" size="sm">
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-md mx-auto p-8">
+        {state === 'enter' && (
+          <form onSubmit={handleSubmitCode} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              On the new device, sign in and choose "Show Pairing Code". Then scan the QR code
+              or type the pairing code shown below it.
+            </p>
+
+            {canScanQRCodes() && (
+              <Button type="button" onClick={() => { setError(''); setState('scan'); }} variant="outline" className="w-full">
+                Scan QR Code
+              </Button>
+            )}
+
+            <Input
+              value={pairingCode}
+              onChange={(e) => setPairingCode(e.target.value)}
+              placeholder="Pairing code"
+              autoComplete="off"
+            />
+
+            {error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={busy || !pairingCode.trim()}>
+              {busy ? 'Connecting...' : 'Connect'}
+            </Button>
+          </form>
+        )}
+
+        {state === 'scan' && (
+          <QRScanner onResult={handleScanResult} onCancel={() => setState('enter')} />
+        )}
+
+        {(state === 'confirm' || state === 'sending') && secrets && (
+          <form onSubmit={handleApprove} className="space-y-4 text-center">
+            <p className="text-sm text-muted-foreground">
+              Make sure the new device shows exactly this confirmation code before sending your keys.
+            </p>
+            <p className="font-mono text-3xl tracking-widest">{formatConfirmationCode(secrets.confirmationCode)}</p>
+
+            <Input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Your passphrase"
+              autoComplete="current-password"
+            />
+
+            {error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="button" onClick={handleReject} variant="outline" className="flex-1" disabled={state === 'sending'}>
+                Codes Differ
+              </Button>
+              <Button type="submit" className="flex-1" disabled={state === 'sending' || !passphrase}>
+                {state === 'sending' ? 'Sending...' : 'Codes Match'}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {state === 'success' && (
+          <div className="text-center space-y-4">
+            <h3 className="text-lg font-semibold">Keys Sent</h3>
+            <p className="text-muted-foreground text-sm">
+              The new device will ask for a passphrase of its own to protect the keys.
+            </p>
+            <Button onClick={onBack} className="w-full">
+              Done
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
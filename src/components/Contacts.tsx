@@ -0,0 +1,226 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { getUserId } from '@/lib/api';
+import { getKeys } from '@/lib/keyStorage';
+import { getPinnedContacts, markContactVerified, PinnedContact } from '@/lib/contactStorage';
+import {
+  computeFingerprint,
+  computeSafetyNumber,
+  formatDigits,
+  safetyNumberQRPayload,
+  matchesScannedSafetyNumber,
+  FingerprintKeys,
+} from '@/lib/fingerprint';
+import { createQRCodeDataURL, canScanQRCodes } from '@/lib/qr';
+import { QRScanner } from './QRScanner';
+import { VerificationBadge } from './VerificationBadge';
+
+interface ContactsProps {
+  onBack: () => void;
+}
+
+type ContactsState = 'list' | 'verify' | 'scan';
+
+export function Contacts({ onBack }: ContactsProps) {
+  const [state, setState] = useState<ContactsState>('list');
+  const [contacts, setContacts] = useState<PinnedContact[]>([]);
+  const [ownKeys, setOwnKeys] = useState<FingerprintKeys | null>(null);
+  const [ownFingerprint, setOwnFingerprint] = useState('');
+  const [selectedContact, setSelectedContact] = useState<PinnedContact | null>(null);
+  const [safetyNumber, setSafetyNumber] = useState('');
+  const [qrCode, setQrCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadContacts = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const keys = await getKeys();
+      if (!keys) {
+        throw new Error('Local keys not found');
+      }
+      const bundle = {
+        encryption: keys.encryptionPublicKey,
+        signing: keys.signingPublicKey,
+        pqEncryption: keys.pqEncryptionPublicKey,
+      };
+      setOwnKeys(bundle);
+      setOwnFingerprint(await computeFingerprint(getUserId() ?? '', bundle));
+      setContacts(await getPinnedContacts());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load contacts');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadContacts();
+  }, [loadContacts]);
+
+  const handleSelectContact = async (contact: PinnedContact) => {
+    if (!ownKeys) return;
+    setSelectedContact(contact);
+    setSafetyNumber('');
+    setQrCode('');
+    setError('');
+    setState('verify');
+
+    try {
+      const number = await computeSafetyNumber(
+        getUserId() ?? '',
+        ownKeys,
+        contact.userId,
+        {
+          encryption: contact.encryptionPublicKey,
+          signing: contact.signingPublicKey,
+          pqEncryption: contact.pqEncryptionPublicKey ?? null,
+        }
+      );
+      setSafetyNumber(number);
+      setQrCode(await createQRCodeDataURL(safetyNumberQRPayload(number)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compute safety number');
+    }
+  };
+
+  const verifyContact = useCallback(async (contact: PinnedContact) => {
+    try {
+      const updated = await markContactVerified(contact.userId);
+      setSelectedContact(updated);
+      setContacts((current) => current.map((c) => (c.userId === updated.userId ? updated : c)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mark contact as verified');
+    }
+  }, []);
+
+  const handleMarkVerified = () => {
+    if (selectedContact) verifyContact(selectedContact);
+  };
+
+  const handleScanResult = useCallback((value: string) => {
+    setState('verify');
+    if (!selectedContact) return;
+    if (matchesScannedSafetyNumber(value, safetyNumber)) {
+      verifyContact(selectedContact);
+    } else {
+      setError('Scanned code does not match. The keys you have for this contact may not be theirs.');
+    }
+  }, [safetyNumber, selectedContact, verifyContact]);
+
+  const handleBackToList = () => {
+    setState('list');
+    setSelectedContact(null);
+    setError('');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b p-4">
+        <div className="max-w-4xl mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold">Contacts</h1>
+          <Button onClick={state === 'list' ? onBack : handleBackToList} variant="ghost" size="sm">
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-md mx-auto p-8">
+        {state === 'list' && (
+          <div className="space-y-6">
+            <div className="p-4 bg-muted rounded-lg">
+              <p className="text-sm font-medium mb-2">Your fingerprint</p>
+              <p className="font-mono text-sm tracking-wider">
+                {ownFingerprint ? formatDigits(ownFingerprint).join(' ') : 'Computing...'}
+              </p>
+            </div>
+
+            {loading && (
+              <div className="text-center py-8">
+                <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
+                <p className="text-muted-foreground mt-2">Loading...</p>
+              </div>
+            )}
+
+            {!loading && error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+
+            {!loading && !error && contacts.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">
+                Contacts appear here after you send or receive a file.
+              </p>
+            )}
+
+            {!loading && contacts.length > 0 && (
+              <div className="space-y-2">
+                {contacts.map((contact) => (
+                  <button
+                    key={contact.userId}
+                    onClick={() => handleSelectContact(contact)}
+                    className="w-full p-4 border rounded-lg flex justify-between items-center hover:bg-accent transition-colors text-left"
+                  >
+                    <div>
+                      <p className="font-medium">{contact.email || contact.userId}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Keys trusted since {new Date(contact.pinnedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <VerificationBadge verified={!!contact.verifiedAt} />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {state === 'verify' && selectedContact && (
+          <div className="space-y-4 text-center">
+            <div className="flex items-center justify-center gap-2">
+              <h2 className="text-lg font-semibold">{selectedContact.email || selectedContact.userId}</h2>
+              <VerificationBadge verified={!!selectedContact.verifiedAt} />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Compare this safety number with the one on their device, in person or over a trusted call,
+              or scan their code.
+            </p>
+
+            {qrCode ? (
+              <img src={qrCode} alt="Safety number QR code" className="w-48 h-48 mx-auto" />
+            ) : (
+              <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
+            )}
+
+            {safetyNumber && (
+              <div className="grid grid-cols-4 gap-2 font-mono text-lg p-4 bg-muted rounded-lg">
+                {formatDigits(safetyNumber).map((group, i) => (
+                  <span key={i}>{group}</span>
+                ))}
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {!selectedContact.verifiedAt && safetyNumber && (
+              <div className="flex gap-2">
+                {canScanQRCodes() && (
+                  <Button onClick={() => { setError(''); setState('scan'); }} variant="outline" className="flex-1">
+                    Scan Their Code
+                  </Button>
+                )}
+                <Button onClick={handleMarkVerified} className="flex-1">
+                  Numbers Match
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {state === 'scan' && (
+          <QRScanner onResult={handleScanResult} onCancel={() => setState('verify')} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { createShareLink } from '@/lib/shareLinks';
+
+interface CreateShareLinkProps {
+  onBack: () => void;
+}
+
+type ShareLinkState = 'form' | 'uploading' | 'done';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Expiry choices in days; null keeps the link until its download limit is reached
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Never', days: null },
+];
+
+export function CreateShareLink({ onBack }: CreateShareLinkProps) {
+  const [state, setState] = useState<ShareLinkState>('form');
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [expiryDays, setExpiryDays] = useState<number | null>(7);
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [link, setLink] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [transfer, setTransfer] = useState<{ bytes: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleCreate = async () => {
+    if (!selectedFile) return;
+    const limit = maxDownloads.trim() ? Number(maxDownloads) : null;
+    if (limit !== null && (!Number.isSafeInteger(limit) || limit < 1)) {
+      setError('Download limit must be a whole number of at least 1');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError('');
+    setState('uploading');
+    try {
+      const file = selectedFile;
+      const url = await createShareLink(
+        file,
+        {
+          passphrase,
+          expiresAt: expiryDays !== null ? new Date(Date.now() + expiryDays * DAY_MS).toISOString() : null,
+          maxDownloads: limit,
+        },
+        (bytes) => setTransfer({ bytes, total: file.size }),
+        controller.signal
+      );
+      setLink(url);
+      setState('done');
+    } catch (err) {
+      setError(controller.signal.aborted
+        ? 'Upload cancelled'
+        : err instanceof Error ? err.message : 'Failed to create share link');
+      setState('form');
+    } finally {
+      setTransfer(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch {
+      setError('Could not copy - select the link and copy it manually');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b p-4">
+        <div className="max-w-4xl mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold">Share Link</h1>
+          <Button onClick={onBack} variant="ghost" size="sm">
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-md mx-auto p-8">
+        {state === 'form' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              For someone without an account. The file is encrypted here, and the key is only
+              in the link itself, so the server cannot read it. Anyone with the link can open
+              the file - add a passphrase and send it separately for extra protection.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Select File
+              </label>
+              <input
+                type="file"
+                onChange={(e) => setSelectedFile(e.target.files?.[0] ?? null)}
+                className="block w-full text-sm text-muted-foreground
+                  file:mr-4 file:py-2 file:px-4
+                  file:rounded file:border-0
+                  file:text-sm file:font-medium
+                  file:bg-primary file:text-primary-foreground
+                  hover:file:bg-primary/90"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Passphrase (optional)</label>
+              <Input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Expires after</label>
+              <div className="flex flex-wrap gap-2">
+                {EXPIRY_OPTIONS.map((option) => (
+                  <Button
+                    key={option.label}
+                    onClick={() => setExpiryDays(option.days)}
+                    variant={expiryDays === option.days ? 'default' : 'outline'}
+                    size="sm"
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Download limit (optional)</label>
+              <Input
+                type="number"
+                min={1}
+                value={maxDownloads}
+                onChange={(e) => setMaxDownloads(e.target.value)}
+                placeholder="Unlimited"
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+
+            <Button onClick={handleCreate} className="w-full" disabled={!selectedFile}>
+              Create Link
+            </Button>
+          </div>
+        )}
+
+        {state === 'uploading' && (
+          <div className="text-center space-y-4">
+            <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
+            <p className="text-muted-foreground">Encrypting and uploading...</p>
+            {transfer && (
+              <Progress value={(transfer.bytes / Math.max(transfer.total, 1)) * 100} />
+            )}
+            <Button onClick={() => abortRef.current?.abort()} variant="outline" className="w-full">
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {state === 'done' && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-center">Link Ready</h3>
+            <Input value={link} readOnly onFocus={(e) => e.target.select()} />
+            {error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+            <Button onClick={handleCopy} className="w-full">
+              {copied ? 'Copied' : 'Copy Link'}
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              {passphrase
+                ? 'Send the passphrase through a different channel than the link.'
+                : 'Anyone who gets this link can download the file until it expires.'}
+            </p>
+            <Button onClick={onBack} variant="outline" className="w-full">
+              Done
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
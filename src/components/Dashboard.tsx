@@ -2,12 +2,23 @@ import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { SendFile } from './SendFile';
 import { ReceiveFiles } from './ReceiveFiles';
+import { SentFiles } from './SentFiles';
+import { Contacts } from './Contacts';
+import { Groups } from './Groups';
+import { KeyBackup } from './KeyBackup';
+import { RestoreKeys } from './RestoreKeys';
+import { RecoverFromPhrase } from './RecoverFromPhrase';
+import { LinkDevice } from './LinkDevice';
+import { ApproveDevice } from './ApproveDevice';
+import { RotateKeys } from './RotateKeys';
+import { RevokeKeys } from './RevokeKeys';
+import { PublishRevocation } from './PublishRevocation';
 import { Button } from '@/components/ui/button';
 
-type View = 'dashboard' | 'send' | 'receive';
+type View = 'dashboard' | 'send' | 'receive' | 'sent' | 'contacts' | 'groups' | 'backup' | 'link' | 'rotate' | 'revoke';
 
 export function Dashboard() {
-  const { logout, hasKeyPair } = useAuth();
+  const { logout, lock, hasKeyPair } = useAuth();
   const [currentView, setCurrentView] = useState<View>('dashboard');
 
   if (!hasKeyPair) {
@@ -22,6 +33,18 @@ export function Dashboard() {
           <p className="text-sm text-muted-foreground mb-4">
             You'll need to recover your keys or create a new account.
           </p>
+          <div className="border-t pt-4 mb-4">
+            <LinkDevice />
+          </div>
+          <div className="border-t pt-4 mb-4">
+            <RestoreKeys />
+          </div>
+          <div className="border-t pt-4 mb-4">
+            <RecoverFromPhrase />
+          </div>
+          <div className="border-t pt-4 mb-4">
+            <PublishRevocation />
+          </div>
           <Button onClick={logout} variant="outline">
             Logout
           </Button>
@@ -38,14 +61,59 @@ export function Dashboard() {
     return <ReceiveFiles onBack={() => setCurrentView('dashboard')} />;
   }
 
+  if (currentView === 'sent') {
+    return <SentFiles onBack={() => setCurrentView('dashboard')} />;
+  }
+
+  if (currentView === 'contacts') {
+    return <Contacts onBack={() => setCurrentView('dashboard')} />;
+  }
+
+  if (currentView === 'groups') {
+    return <Groups onBack={() => setCurrentView('dashboard')} />;
+  }
+
+  if (currentView === 'backup') {
+    return <KeyBackup onBack={() => setCurrentView('dashboard')} />;
+  }
+
+  if (currentView === 'link') {
+    return <ApproveDevice onBack={() => setCurrentView('dashboard')} />;
+  }
+
+  if (currentView === 'rotate') {
+    return <RotateKeys onBack={() => setCurrentView('dashboard')} />;
+  }
+
+  if (currentView === 'revoke') {
+    return <RevokeKeys onBack={() => setCurrentView('dashboard')} />;
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b p-4">
         <div className="max-w-4xl mx-auto flex justify-between items-center">
           <h1 className="text-xl font-bold">Vortex</h1>
-          <Button onClick={logout} variant="ghost" size="sm">
-            Logout
-          </Button>
+          <div className="flex gap-2">
+            <Button onClick={() => setCurrentView('link')} variant="ghost" size="sm">
+              Link Device
+            </Button>
+            <Button onClick={() => setCurrentView('backup')} variant="ghost" size="sm">
+              Back Up Keys
+            </Button>
+            <Button onClick={() => setCurrentView('rotate')} variant="ghost" size="sm">
+              Rotate Keys
+            </Button>
+            <Button onClick={() => setCurrentView('revoke')} variant="ghost" size="sm">
+              Revoke Keys
+            </Button>
+            <Button onClick={lock} variant="ghost" size="sm">
+              Lock
+            </Button>
+            <Button onClick={logout} variant="ghost" size="sm">
+              Logout
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -77,6 +145,36 @@ export function Dashboard() {
               View and decrypt files sent to you
             </p>
           </button>
+
+          <button
+            onClick={() => setCurrentView('sent')}
+            className="p-8 border rounded-lg hover:border-primary hover:bg-accent transition-colors text-left"
+          >
+            <h3 className="text-xl font-semibold mb-2">Sent</h3>
+            <p className="text-muted-foreground text-sm">
+              See which recipients received and verified your files
+            </p>
+          </button>
+
+          <button
+            onClick={() => setCurrentView('contacts')}
+            className="p-8 border rounded-lg hover:border-primary hover:bg-accent transition-colors text-left"
+          >
+            <h3 className="text-xl font-semibold mb-2">Contacts</h3>
+            <p className="text-muted-foreground text-sm">
+              Compare safety numbers to verify your contacts' keys
+            </p>
+          </button>
+
+          <button
+            onClick={() => setCurrentView('groups')}
+            className="p-8 border rounded-lg hover:border-primary hover:bg-accent transition-colors text-left"
+          >
+            <h3 className="text-xl font-semibold mb-2">Groups</h3>
+            <p className="text-muted-foreground text-sm">
+              Manage team groups you can send to by name
+            </p>
+          </button>
         </div>
 
         <div className="mt-12 text-center text-xs text-muted-foreground">
@@ -0,0 +1,279 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getGroups, getUserId, GroupSummary } from '@/lib/api';
+import {
+  createGroup,
+  getVerifiedGroup,
+  addGroupMember,
+  removeGroupMember,
+  isGroupAdmin,
+  GroupState,
+} from '@/lib/groups';
+
+interface GroupsProps {
+  onBack: () => void;
+}
+
+type GroupsState = 'list' | 'create' | 'detail';
+
+export function Groups({ onBack }: GroupsProps) {
+  const [state, setState] = useState<GroupsState>('list');
+  const [groups, setGroups] = useState<GroupSummary[]>([]);
+  const [selectedGroup, setSelectedGroup] = useState<GroupState | null>(null);
+  const [groupName, setGroupName] = useState('');
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberIsAdmin, setMemberIsAdmin] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [progress, setProgress] = useState('');
+  const [error, setError] = useState('');
+  const userId = getUserId();
+
+  const loadGroups = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setGroups(await getGroups());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load groups');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  // Members are always shown from the verified, admin-signed history
+  const openGroup = async (groupId: string) => {
+    setError('');
+    setProgress('Verifying group history...');
+    setState('detail');
+    try {
+      const { state: groupState } = await getVerifiedGroup(groupId);
+      setSelectedGroup(groupState);
+    } catch (err) {
+      setSelectedGroup(null);
+      setError(err instanceof Error ? err.message : 'Failed to load group');
+    } finally {
+      setProgress('');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!groupName.trim()) {
+      setError('Please enter a group name');
+      return;
+    }
+    setError('');
+    setProgress('Creating group key...');
+    try {
+      const groupId = await createGroup(groupName);
+      setGroupName('');
+      await loadGroups();
+      await openGroup(groupId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create group');
+      setProgress('');
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!selectedGroup) return;
+    if (!memberEmail.trim()) {
+      setError('Please enter an email');
+      return;
+    }
+    setError('');
+    setProgress('Adding member...');
+    try {
+      await addGroupMember(selectedGroup.groupId, memberEmail.trim(), memberIsAdmin ? 'admin' : 'member');
+      setMemberEmail('');
+      setMemberIsAdmin(false);
+      await openGroup(selectedGroup.groupId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add member');
+      setProgress('');
+    }
+  };
+
+  const handleRemoveMember = async (memberId: string) => {
+    if (!selectedGroup) return;
+    setError('');
+    setProgress('Removing member and replacing the group key...');
+    try {
+      await removeGroupMember(selectedGroup.groupId, memberId);
+      if (memberId === userId) {
+        handleBackToList();
+        await loadGroups();
+        return;
+      }
+      await openGroup(selectedGroup.groupId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member');
+      setProgress('');
+    }
+  };
+
+  const handleBackToList = () => {
+    setState('list');
+    setSelectedGroup(null);
+    setMemberEmail('');
+    setMemberIsAdmin(false);
+    setError('');
+    setProgress('');
+  };
+
+  const canManage = !!selectedGroup && isGroupAdmin(selectedGroup, userId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b p-4">
+        <div className="max-w-4xl mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold">Groups</h1>
+          <Button onClick={state === 'list' ? onBack : handleBackToList} variant="ghost" size="sm">
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-md mx-auto p-8">
+        {state === 'list' && (
+          <div className="space-y-6">
+            <Button onClick={() => { setError(''); setState('create'); }} className="w-full">
+              New Group
+            </Button>
+
+            {loading && (
+              <div className="text-center py-8">
+                <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
+                <p className="text-muted-foreground mt-2">Loading...</p>
+              </div>
+            )}
+
+            {!loading && error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+
+            {!loading && !error && groups.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">
+                Groups let you send to a whole team by name.
+              </p>
+            )}
+
+            {!loading && groups.length > 0 && (
+              <div className="space-y-2">
+                {groups.map((group) => (
+                  <button
+                    key={group.groupId}
+                    onClick={() => openGroup(group.groupId)}
+                    className="w-full p-4 border rounded-lg hover:bg-accent transition-colors text-left"
+                  >
+                    <p className="font-medium">{group.name}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {state === 'create' && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Group Name
+              </label>
+              <Input
+                value={groupName}
+                onChange={(e) => setGroupName(e.target.value)}
+                placeholder="legal"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              You will be the group's first admin. Only admins can add or remove members.
+            </p>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button onClick={handleCreate} className="w-full" disabled={!!progress}>
+              {progress || 'Create Group'}
+            </Button>
+          </div>
+        )}
+
+        {state === 'detail' && (
+          <div className="space-y-6">
+            {progress && (
+              <div className="text-center py-4">
+                <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
+                <p className="text-muted-foreground mt-2">{progress}</p>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {selectedGroup && !progress && (
+              <>
+                <div>
+                  <h2 className="text-lg font-semibold">{selectedGroup.name}</h2>
+                  <p className="text-xs text-muted-foreground">
+                    Key epoch {selectedGroup.keyEpoch} · {selectedGroup.members.length} members
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  {selectedGroup.members.map((member) => (
+                    <div key={member.userId} className="p-3 border rounded-lg flex justify-between items-center gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {member.userId === userId ? 'You' : member.email || member.userId}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {member.role === 'admin' ? 'Admin' : 'Member'}
+                        </p>
+                      </div>
+                      {canManage && (
+                        <Button onClick={() => handleRemoveMember(member.userId)} variant="ghost" size="sm">
+                          {member.userId === userId ? 'Leave' : 'Remove'}
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {canManage && (
+                  <div className="space-y-2 border-t pt-4">
+                    <label className="block text-sm font-medium">
+                      Add Member
+                    </label>
+                    <Input
+                      type="email"
+                      value={memberEmail}
+                      onChange={(e) => setMemberEmail(e.target.value)}
+                      placeholder="colleague@email.com"
+                    />
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={memberIsAdmin}
+                        onChange={(e) => setMemberIsAdmin(e.target.checked)}
+                      />
+                      Admin
+                    </label>
+                    <Button onClick={handleAddMember} className="w-full">
+                      Add Member
+                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                      Removing a member replaces the group key, so they cannot read files sent afterwards.
+                    </p>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
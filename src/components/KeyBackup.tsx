@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getUserId } from '@/lib/api';
+import { exportKeysForBackup } from '@/lib/keyStorage';
+import { createKeyBackup, KEY_BACKUP_EXTENSION } from '@/lib/keyBackup';
+
+interface KeyBackupProps {
+  onBack: () => void;
+}
+
+type BackupState = 'form' | 'working' | 'success';
+
+const MIN_PASSWORD_LENGTH = 10;
+
+export function KeyBackup({ onBack }: KeyBackupProps) {
+  const [state, setState] = useState<BackupState>('form');
+  const [passphrase, setPassphrase] = useState('');
+  const [backupPassword, setBackupPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+
+  const handleExport = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError('');
+
+    if (backupPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Backup password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (backupPassword !== confirmation) {
+      setError('Backup passwords do not match');
+      return;
+    }
+
+    setState('working');
+    try {
+      const userId = getUserId();
+      if (!userId) {
+        throw new Error('Session is missing your user id - please sign in again');
+      }
+
+      const keys = await exportKeysForBackup(passphrase);
+      const backup = await createKeyBackup(keys, userId, backupPassword);
+
+      // Save the backup file
+      const url = URL.createObjectURL(backup);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `vortex-keys-${new Date().toISOString().slice(0, 10)}${KEY_BACKUP_EXTENSION}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      setState('success');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create backup');
+      setState('form');
+    } finally {
+      setPassphrase('');
+      setBackupPassword('');
+      setConfirmation('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b p-4">
+        <div className="max-w-4xl mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold">Back Up Keys</h1>
+          <Button onClick={onBack} variant="ghost" size="sm">
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-md mx-auto p-8">
+        {state !== 'success' && (
+          <form onSubmit={handleExport} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Export your keys as an encrypted {KEY_BACKUP_EXTENSION} file. Keep it somewhere safe:
+              anyone with the file and its password can read files sent to you.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Current passphrase</label>
+              <Input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="current-password"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Backup password</label>
+              <Input
+                type="password"
+                value={backupPassword}
+                onChange={(e) => setBackupPassword(e.target.value)}
+                autoComplete="new-password"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Confirm backup password</label>
+              <Input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="new-password"
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={state === 'working' || !passphrase || !backupPassword}
+            >
+              {state === 'working' ? 'Encrypting backup...' : 'Download Backup'}
+            </Button>
+          </form>
+        )}
+
+        {state === 'success' && (
+          <div className="text-center space-y-4">
+            <h3 className="text-lg font-semibold">Backup Saved</h3>
+            <p className="text-muted-foreground text-sm">
+              Restore it from the "Keys Not Found" screen on a new device.
+            </p>
+            <Button onClick={onBack} className="w-full">
+              Done
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface KeyChangeWarningProps {
+  open: boolean;
+  contactName: string;
+  pinnedAt: string;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+// Blocking warning shown when a contact's keys differ from the ones pinned on first use
+export function KeyChangeWarning({ open, contactName, pinnedAt, onAccept, onReject }: KeyChangeWarningProps) {
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="text-destructive">Security keys changed</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2">
+              <p>
+                The keys for <strong>{contactName}</strong> are different from the ones this device
+                trusted on {new Date(pinnedAt).toLocaleString()}.
+              </p>
+              <p>
+                This happens when they reinstall or switch devices, but it can also mean the server is
+                trying to intercept your files. Confirm with them through another channel before continuing.
+              </p>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onReject}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onAccept}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            Trust New Keys
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { getUserId, createPairingSession, getPairingSession } from '@/lib/api';
+import { storeUnprotectedKeys } from '@/lib/keyStorage';
+import { verifyRestoredKeys } from '@/lib/keyBackup';
+import {
+  generatePairingKeyPair,
+  pairingQRPayload,
+  typedPairingCode,
+  derivePairingSecrets,
+  decryptPairingBundle,
+  formatConfirmationCode,
+  PairingKeyPair,
+  PairingSecrets,
+} from '@/lib/devicePairing';
+import { createQRCodeDataURL } from '@/lib/qr';
+
+const POLL_INTERVAL_MS = 2000;
+
+type LinkState = 'idle' | 'waiting' | 'confirming' | 'error';
+
+// Shown on the "Keys Not Found" screen: receive keys from a device that is already signed in.
+// Linked keys are stored right away and get their passphrase in the setup screen that follows.
+export function LinkDevice() {
+  const { setHasKeyPair } = useAuth();
+  const [state, setState] = useState<LinkState>('idle');
+  const [pairingId, setPairingId] = useState('');
+  const [pairingCode, setPairingCode] = useState('');
+  const [qrCode, setQrCode] = useState('');
+  const [confirmationCode, setConfirmationCode] = useState('');
+  const [error, setError] = useState('');
+  const keyPairRef = useRef<PairingKeyPair | null>(null);
+  const secretsRef = useRef<PairingSecrets | null>(null);
+
+  const handleStart = async () => {
+    setError('');
+    setConfirmationCode('');
+    secretsRef.current = null;
+    try {
+      const keyPair = await generatePairingKeyPair();
+      const session = await createPairingSession(keyPair.publicKey);
+      keyPairRef.current = keyPair;
+      setPairingId(session.pairingId);
+      setPairingCode(await typedPairingCode(session.pairingId, keyPair.publicKey));
+      setQrCode(await createQRCodeDataURL(pairingQRPayload(session.pairingId, keyPair.publicKey)));
+      setState('waiting');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start device linking');
+      setState('error');
+    }
+  };
+
+  const handleCancel = () => {
+    keyPairRef.current = null;
+    secretsRef.current = null;
+    setPairingId('');
+    setPairingCode('');
+    setQrCode('');
+    setConfirmationCode('');
+    setState('idle');
+  };
+
+  // Poll the pairing session until the other device answers and sends the keys
+  useEffect(() => {
+    if (!pairingId || (state !== 'waiting' && state !== 'confirming')) return;
+
+    let cancelled = false;
+    let busy = false;
+
+    const poll = async () => {
+      const keyPair = keyPairRef.current;
+      if (busy || !keyPair) return;
+      busy = true;
+      try {
+        const session = await getPairingSession(pairingId);
+        if (cancelled) return;
+
+        if (session.responderPublicKey && !secretsRef.current) {
+          const secrets = await derivePairingSecrets(
+            keyPair.privateKey,
+            pairingId,
+            keyPair.publicKey,
+            session.responderPublicKey,
+            true
+          );
+          secretsRef.current = secrets;
+          setConfirmationCode(secrets.confirmationCode);
+          setState('confirming');
+        }
+
+        if (session.bundle && secretsRef.current) {
+          const userId = getUserId();
+          if (!userId) {
+            throw new Error('Session is missing your user id - please sign in again');
+          }
+
+          const contents = await decryptPairingBundle(session.bundle, secretsRef.current, pairingId);
+          await verifyRestoredKeys(contents, userId);
+          if (cancelled) return;
+
+          cancelled = true;
+          await storeUnprotectedKeys(contents.keys);
+          setHasKeyPair(true);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          cancelled = true;
+          setError(err instanceof Error ? err.message : 'Device linking failed');
+          setState('error');
+        }
+      } finally {
+        busy = false;
+      }
+    };
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [pairingId, state, setHasKeyPair]);
+
+  return (
+    <div className="space-y-3 text-left">
+      <h2 className="text-sm font-medium">Link from another device</h2>
+
+      {(state === 'idle' || state === 'error') && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            On a device where you are signed in, open "Link Device" and scan the code shown here.
+          </p>
+          {error && (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
+          <Button onClick={handleStart} className="w-full">
+            {state === 'error' ? 'Try Again' : 'Show Pairing Code'}
+          </Button>
+        </>
+      )}
+
+      {state === 'waiting' && (
+        <div className="space-y-3 text-center">
+          {qrCode && <img src={qrCode} alt="Device pairing QR code" className="w-48 h-48 mx-auto" />}
+          <p className="text-sm text-muted-foreground">
+            No camera? Enter this pairing code instead:
+          </p>
+          <p className="font-mono text-lg tracking-wider select-all break-all">{pairingCode}</p>
+          <p className="text-sm text-muted-foreground">Waiting for your other device...</p>
+          <Button onClick={handleCancel} variant="outline" className="w-full">
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {state === 'confirming' && (
+        <div className="space-y-3 text-center">
+          <p className="text-sm text-muted-foreground">
+            Check that your other device shows the same confirmation code. If it does not, cancel:
+            someone may be trying to intercept your keys.
+          </p>
+          <p className="font-mono text-3xl tracking-widest">{formatConfirmationCode(confirmationCode)}</p>
+          <p className="text-sm text-muted-foreground">Waiting for approval on your other device...</p>
+          <Button onClick={handleCancel} variant="outline" className="w-full">
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
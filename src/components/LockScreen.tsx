@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+// Shown before the dashboard: unlocks the stored keys, or asks for a passphrase
+// when the keys on this device are not protected yet
+export function LockScreen() {
+  const { keyStatus, unlock, protect, logout } = useAuth();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const isSetup = keyStatus === 'unprotected';
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError('');
+
+    if (isSetup) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('Passphrases do not match');
+        return;
+      }
+    }
+
+    setBusy(true);
+    try {
+      if (isSetup) {
+        await protect(passphrase);
+      } else {
+        await unlock(passphrase);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock keys');
+    } finally {
+      setBusy(false);
+      setPassphrase('');
+      setConfirmation('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <form onSubmit={handleSubmit} className="p-8 border rounded-lg shadow-sm max-w-md w-full space-y-4">
+        <div className="text-center">
+          <h1 className="text-xl font-bold mb-2">
+            {isSetup ? 'Protect Your Keys' : 'Unlock Vortex'}
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            {isSetup
+              ? 'Choose a passphrase. Your private keys are stored on this device encrypted with it, so it is needed to unlock them or export a backup.'
+              : 'Enter your passphrase to unlock your encryption keys.'}
+          </p>
+        </div>
+
+        <Input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoComplete={isSetup ? 'new-password' : 'current-password'}
+          autoFocus
+        />
+        {isSetup && (
+          <Input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Confirm passphrase"
+            autoComplete="new-password"
+          />
+        )}
+
+        {error && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+
+        <Button type="submit" className="w-full" disabled={busy || !passphrase}>
+          {busy ? 'Working...' : isSetup ? 'Set Passphrase' : 'Unlock'}
+        </Button>
+
+        {isSetup && (
+          <p className="text-xs text-muted-foreground text-center">
+            There is no way to recover a forgotten passphrase.
+          </p>
+        )}
+
+        <Button type="button" onClick={logout} variant="ghost" className="w-full">
+          Logout
+        </Button>
+      </form>
+    </div>
+  );
+}
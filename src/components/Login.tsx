@@ -1,13 +1,8 @@
 import { useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { authGoogle, uploadPublicKey } from '@/lib/api';
-import { 
-  generateKeyPair, 
-  generateSigningKeyPair, 
-  exportPublicKey, 
-  exportPrivateKey 
-} from '@/lib/crypto';
-import { storeKeys, hasKeys } from '@/lib/keyStorage';
+import { authGoogle, uploadPublicKey, uploadRecoveryBundle, serializePublicKeyBundle, INITIAL_KEY_ID } from '@/lib/api';
+import { generateAccountKeys, storeUnprotectedKeys, hasKeys } from '@/lib/keyStorage';
+import { generateRecoveryPhrase, createRecoveryBundle } from '@/lib/recoveryPhrase';
 import { Button } from '@/components/ui/button';
 
 declare global {
@@ -34,42 +29,42 @@ declare global {
 const GOOGLE_CLIENT_ID = import.meta.env.VITE_GOOGLE_CLIENT_ID || '';
 
 export function Login() {
-  const { login, setHasKeyPair } = useAuth();
+  const { login, setHasKeyPair, setRecoveryPhrase } = useAuth();
 
   const handleCredentialResponse = useCallback(async (response: { credential: string }) => {
     try {
       // Authenticate with backend
       const authResult = await authGoogle(response.credential);
-      login(authResult.token);
+      login(authResult.token, authResult.userId);
 
       // Check if this is a new user (needs key generation)
       if (authResult.isNewUser) {
-        // Generate key pairs
-        const encryptionKeyPair = await generateKeyPair();
-        const signingKeyPair = await generateSigningKeyPair();
+        // Generate key pairs, including an ML-KEM key so files sent to us can use
+        // post-quantum hybrid encryption
+        const exportedKeys = await generateAccountKeys(INITIAL_KEY_ID);
 
-        // Export keys
-        const encryptionPublicKey = await exportPublicKey(encryptionKeyPair.publicKey);
-        const encryptionPrivateKey = await exportPrivateKey(encryptionKeyPair.privateKey);
-        const signingPublicKey = await exportPublicKey(signingKeyPair.publicKey);
-        const signingPrivateKey = await exportPrivateKey(signingKeyPair.privateKey);
-
-        // Store keys locally
-        await storeKeys({
-          encryptionPublicKey,
-          encryptionPrivateKey,
-          signingPublicKey,
-          signingPrivateKey,
-        });
+        // Persist the keys before publishing anything, so a reload cannot leave the account
+        // with a published key whose private half is gone. They stay 'unprotected' until
+        // the user sets a passphrase.
+        await storeUnprotectedKeys(exportedKeys);
 
         // Upload public keys to server (combined as single key for simplicity)
         // In production, you might want to store both separately
-        const combinedPublicKey = JSON.stringify({
-          encryption: encryptionPublicKey,
-          signing: signingPublicKey,
+        const combinedPublicKey = serializePublicKeyBundle({
+          suite: exportedKeys.suite!,
+          encryption: exportedKeys.encryptionPublicKey,
+          signing: exportedKeys.signingPublicKey,
+          pqEncryption: exportedKeys.pqEncryptionPublicKey!,
+          keyId: INITIAL_KEY_ID,
+          rotation: null,
         });
         await uploadPublicKey(combinedPublicKey);
 
+        // Store the keys wrapped under a recovery phrase that only the user sees
+        const phrase = generateRecoveryPhrase();
+        await uploadRecoveryBundle(await createRecoveryBundle(exportedKeys, authResult.userId, phrase));
+        setRecoveryPhrase(phrase);
+
         setHasKeyPair(true);
       } else {
         // Existing user - check if keys exist locally
@@ -77,14 +72,14 @@ export function Login() {
         setHasKeyPair(keysExist);
         
         if (!keysExist) {
-          console.warn('Existing user but no local keys found. User may need to recover keys.');
+          console.warn('Existing user but no local keys found. User needs to link this device or recover keys.');
         }
       }
     } catch (error) {
       console.error('Login failed:', error);
       alert('Login failed. Please try again.');
     }
-  }, [login, setHasKeyPair]);
+  }, [login, setHasKeyPair, setRecoveryPhrase]);
 
   useEffect(() => {
     // Load Google Sign-In script
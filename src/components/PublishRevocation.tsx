@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { getUserId, publishRevocation } from '@/lib/api';
+import { readRevocationFile, REVOCATION_EXTENSION } from '@/lib/revocation';
+
+// Publish a revocation certificate saved earlier. Needs no keys, so it also works on the
+// "Keys Not Found" screen after the only device holding them was lost or stolen.
+export function PublishRevocation() {
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [published, setPublished] = useState(false);
+
+  const handlePublish = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!certificateFile) return;
+
+    setError('');
+    setBusy(true);
+    try {
+      const { revocation, certificate } = await readRevocationFile(certificateFile);
+      if (certificate.userId !== getUserId()) {
+        throw new Error('This certificate belongs to a different account');
+      }
+      await publishRevocation(revocation);
+      setPublished(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to publish revocation');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (published) {
+    return (
+      <p className="text-sm text-left">
+        Your keys are revoked. Nobody can send files to them, and files signed with them from now on are flagged as untrusted.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handlePublish} className="space-y-3 text-left">
+      <h2 className="text-sm font-medium">Revoke lost keys</h2>
+      <input
+        type="file"
+        accept={REVOCATION_EXTENSION}
+        onChange={(e) => setCertificateFile(e.target.files?.[0] ?? null)}
+        className="block w-full text-sm text-muted-foreground
+          file:mr-4 file:py-2 file:px-4
+          file:rounded file:border-0
+          file:text-sm file:font-medium
+          file:bg-primary file:text-primary-foreground
+          hover:file:bg-primary/90"
+      />
+      {error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+      <Button type="submit" variant="destructive" className="w-full" disabled={busy || !certificateFile}>
+        {busy ? 'Publishing...' : 'Publish Revocation'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+
+const SCAN_INTERVAL_MS = 250;
+
+interface QRScannerProps {
+  onResult: (value: string) => void;
+  onCancel: () => void;
+}
+
+export function QRScanner({ onResult, onCancel }: QRScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        // Unmounted while the camera was starting: the cleanup had no stream to stop yet
+        if (stopped || !videoRef.current) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detector = new window.BarcodeDetector({ formats: ['qr_code'] });
+        timer = setInterval(async () => {
+          if (!videoRef.current) return;
+          const codes = await detector.detect(videoRef.current).catch(() => []);
+          if (codes.length > 0 && !stopped) {
+            stopped = true;
+            onResult(codes[0].rawValue);
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Camera unavailable');
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [onResult]);
+
+  return (
+    <div className="space-y-4">
+      <video ref={videoRef} className="w-full rounded-lg bg-muted aspect-square object-cover" muted playsInline />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <Button onClick={onCancel} variant="outline" className="w-full">
+        Cancel Scan
+      </Button>
+    </div>
+  );
+}
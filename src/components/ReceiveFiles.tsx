@@ -1,17 +1,38 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
-import { getInbox, downloadFile, InboxFile } from '@/lib/api';
-import { getKeys } from '@/lib/keyStorage';
+import { Progress } from '@/components/ui/progress';
+import { KeyChangeWarning } from './KeyChangeWarning';
+import { VerificationBadge } from './VerificationBadge';
+import {
+  getInbox,
+  getGroupInbox,
+  getGroups,
+  downloadFile,
+  getUserId,
+  getUserPublicKey,
+  parsePublicKeyBundle,
+  InboxFile,
+  GroupSummary,
+} from '@/lib/api';
+import { getKeys, getDecryptionKey } from '@/lib/keyStorage';
+import { getVerifiedKeyVersion } from '@/lib/keyRotation';
 import {
-  verifySignature,
-  decryptAESKey,
   decryptFile,
   hashData,
   concatenateBuffers,
   base64ToArrayBuffer,
-  importSigningPublicKey,
-  importPrivateKey,
 } from '@/lib/crypto';
+import { getSuite, SuiteId } from '@/lib/cryptoSuites';
+import { createWorkerDecryptionStream, verifyInWorker } from '@/lib/cryptoWorker';
+import { decodeFileHeader, FileHeader } from '@/lib/fileHeader';
+import { envelopeSigningHash, decryptMetadata } from '@/lib/envelope';
+import { openContentKey, createMetadataReader } from '@/lib/fileMetadata';
+import { sendDeliveryReceipt } from '@/lib/receipts';
+import { findRevocation, getVerifiedRevocations, isSignedAfterRevocation, KeyRevocation } from '@/lib/revocation';
+import { paddedLength, createUnpaddingStream } from '@/lib/padding';
+import { createDecompressionStream } from '@/lib/compression';
+import { checkContactKeys, pinContactKeys, getPinnedContacts } from '@/lib/contactStorage';
+import { openDownloadSink, createProgressStream, DownloadCancelledError } from '@/lib/streamDownload';
 
 interface ReceiveFilesProps {
   onBack: () => void;
@@ -19,24 +40,157 @@ interface ReceiveFilesProps {
 
 type ReceiveState = 'list' | 'downloading' | 'success' | 'error';
 
+// Stream fetch -> chunk-wise decrypt (in the crypto worker) -> strip padding -> decompress -> disk.
+// Each chunk is authenticated as it passes; the caller only keeps the file once the signature
+// over the chained digest verifies. onProgress receives the ciphertext bytes decrypted so far.
+// plaintextSize is the decrypted size including any padding, outputSize the number of bytes written.
+async function decryptToSink(
+  encryptedFile: ReadableStream<Uint8Array>,
+  aesKey: CryptoKey,
+  nonce: ArrayBuffer,
+  chunkSize: number,
+  sink: WritableStream<Uint8Array>,
+  onProgress: (bytes: number) => void,
+  signal: AbortSignal,
+  header?: FileHeader
+): Promise<{ ciphertextDigest: ArrayBuffer; plaintextSize: number; outputSize: number }> {
+  const decryption = createWorkerDecryptionStream(aesKey, new Uint8Array(nonce), chunkSize, { onProgress, signal });
+  let plaintextSize = 0;
+  let outputSize = 0;
+  await encryptedFile
+    .pipeThrough(decryption.stream)
+    .pipeThrough(createProgressStream((bytes) => { plaintextSize = bytes; }))
+    .pipeThrough(header ? createUnpaddingStream(storedSize(header)) : new TransformStream<Uint8Array, Uint8Array>())
+    .pipeThrough(createDecompressionStream(header?.compression ?? 'none'))
+    .pipeThrough(createProgressStream((bytes) => { outputSize = bytes; }))
+    .pipeTo(sink, { preventClose: true, signal });
+  return { ciphertextDigest: await decryption.digest, plaintextSize, outputSize };
+}
+
+// Size of the plaintext before padding: the compressed size when the file was compressed
+function storedSize(header: FileHeader): number {
+  return header.compressedSize ?? header.fileSize;
+}
+
+function formatMetadata(header: FileHeader): string {
+  const size = `${(header.fileSize / 1024).toFixed(2)} KB`;
+  return header.mimeType ? `${size} · ${header.mimeType}` : size;
+}
+
+// Check signed metadata against what was actually received and the keys that were used
+function checkSignedHeader(
+  header: FileHeader,
+  expected: {
+    recipientId: string;
+    senderId: string;
+    plaintextSize: number;
+    outputSize: number;
+    senderKeyId: number;
+    recipientKeyId: number;
+    suite: SuiteId;
+  }
+): void {
+  const receiverIds = header.version >= 4 ? header.receiverIds ?? [] : [header.receiverId];
+  if (!receiverIds.includes(expected.recipientId)) {
+    throw new Error('File was signed for a different recipient');
+  }
+  if (header.senderId !== expected.senderId) {
+    throw new Error('Signed sender does not match the sender listed by the server');
+  }
+  if (
+    paddedLength(storedSize(header), header.padding ?? 'none') !== expected.plaintextSize ||
+    header.fileSize !== expected.outputSize
+  ) {
+    throw new Error('Decrypted size does not match the signed file size');
+  }
+  if (header.version >= 2 && header.senderKeyId !== expected.senderKeyId) {
+    throw new Error('Signed key versions do not match the keys used for this file');
+  }
+  // From version 4 the recipient key versions and suites are signed in the envelope instead
+  if ((header.version === 2 || header.version === 3) && header.recipientKeyId !== expected.recipientKeyId) {
+    throw new Error('Signed key versions do not match the keys used for this file');
+  }
+  if (header.version === 3 && header.suite !== expected.suite) {
+    throw new Error('Signed crypto suite does not match the suite used for this file');
+  }
+}
+
+// Key revocations a sender has published that verify against their key versions
+async function loadRevocations(senderId: string): Promise<KeyRevocation[]> {
+  const published = await getUserPublicKey(senderId);
+  if (!published.revocations?.length) return [];
+  const current = parsePublicKeyBundle(published.publicKey);
+  return await getVerifiedRevocations(senderId, published.revocations, (keyId) =>
+    getVerifiedKeyVersion(senderId, keyId, current)
+  );
+}
+
 export function ReceiveFiles({ onBack }: ReceiveFilesProps) {
   const [state, setState] = useState<ReceiveState>('list');
   const [files, setFiles] = useState<InboxFile[]>([]);
+  // Decrypted metadata by file id: missing while decrypting, null if it could not be read
+  const [metadata, setMetadata] = useState<Record<string, FileHeader | null>>({});
+  const [groups, setGroups] = useState<GroupSummary[]>([]);
+  // null for the personal inbox, otherwise the group being viewed
+  const [inboxGroupId, setInboxGroupId] = useState<string | null>(null);
+  const [verifiedSenders, setVerifiedSenders] = useState<Set<string>>(new Set());
+  // Verified key revocations by sender id
+  const [revocations, setRevocations] = useState<Record<string, KeyRevocation[]>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [progress, setProgress] = useState('');
+  // Ciphertext bytes decrypted so far; total is null when the server did not send a size
+  const [transfer, setTransfer] = useState<{ bytes: number; total: number | null } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [selectedFile, setSelectedFile] = useState<InboxFile | null>(null);
+  const [verifiedHeader, setVerifiedHeader] = useState<FileHeader | null>(null);
+  const [keyChangePrompt, setKeyChangePrompt] = useState<{
+    contactName: string;
+    pinnedAt: string;
+    resolve: (accepted: boolean) => void;
+  } | null>(null);
 
   useEffect(() => {
-    fetchInbox();
+    getGroups()
+      .then(setGroups)
+      .catch((err) => console.error('Failed to load groups:', err));
   }, []);
 
-  const fetchInbox = async () => {
+  useEffect(() => {
+    fetchInbox(inboxGroupId);
+  }, [inboxGroupId]);
+
+  const fetchInbox = async (groupId: string | null) => {
     setLoading(true);
     setError('');
     try {
-      const inboxFiles = await getInbox();
+      const [inboxFiles, contacts] = await Promise.all([
+        groupId ? getGroupInbox(groupId) : getInbox(),
+        getPinnedContacts(),
+      ]);
       setFiles(inboxFiles);
+      setMetadata({});
+
+      // Names of envelope files are only known once their metadata is decrypted. Every file is
+      // tried, since a name listed by the server does not make a file one from before envelopes.
+      const readMetadata = createMetadataReader(groupId);
+      inboxFiles.forEach((f) => {
+        readMetadata(f)
+          .then((header) => setMetadata((current) => ({ ...current, [f.fileId]: header })))
+          .catch((err) => {
+            console.error('Failed to decrypt file metadata:', err);
+            setMetadata((current) => ({ ...current, [f.fileId]: null }));
+          });
+      });
+      setVerifiedSenders(new Set(contacts.filter((c) => c.verifiedAt).map((c) => c.userId)));
+
+      // Files sent after a sender revoked their key are flagged in the list
+      setRevocations({});
+      new Set(inboxFiles.map((f) => f.senderId)).forEach((senderId) => {
+        loadRevocations(senderId)
+          .then((verified) => setRevocations((current) => ({ ...current, [senderId]: verified })))
+          .catch((err) => console.error('Failed to check key revocations:', err));
+      });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch inbox');
     } finally {
@@ -44,12 +198,50 @@ export function ReceiveFiles({ onBack }: ReceiveFilesProps) {
     }
   };
 
+  // The signing key version is only known once the metadata is decrypted; until then any
+  // revoked version of the sender counts
+  const isUntrusted = (file: InboxFile): boolean => {
+    const senderKeyId = metadata[file.fileId]?.senderKeyId;
+    return (revocations[file.senderId] ?? []).some((revocation) =>
+      (senderKeyId === undefined || senderKeyId === revocation.keyId) &&
+      isSignedAfterRevocation(revocation, file.uploadedAt)
+    );
+  };
+
+  // Block until the user accepts or rejects a changed sender key
+  const confirmKeyChange = (contactName: string, pinnedAt: string) =>
+    new Promise<boolean>((resolve) => {
+      setKeyChangePrompt({ contactName, pinnedAt, resolve });
+    });
+
+  const resolveKeyChange = (accepted: boolean) => {
+    keyChangePrompt?.resolve(accepted);
+    setKeyChangePrompt(null);
+  };
+
+  // Envelope files are named by their decrypted metadata only. The name listed by the server
+  // is used once the metadata turned out unreadable, as for files from before the envelope format.
+  const fileNameFor = (file: InboxFile): string | null => {
+    const header = metadata[file.fileId];
+    if (header) return header.fileName;
+    return header === null ? file.fileName ?? null : null;
+  };
+
   const handleDownload = async (file: InboxFile) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setSelectedFile(file);
+    setVerifiedHeader(null);
     setState('downloading');
     setError('');
 
+    let sink: WritableStream<Uint8Array> | null = null;
+
     try {
+      // Open the destination first: the save dialog must run within the click gesture
+      setProgress('Choosing where to save...');
+      sink = await openDownloadSink(fileNameFor(file) ?? 'vortex-download');
+
       // Get local keys
       const keys = await getKeys();
       if (!keys) {
@@ -58,74 +250,239 @@ export function ReceiveFiles({ onBack }: ReceiveFilesProps) {
 
       setProgress('Downloading encrypted file...');
       const downloadedFile = await downloadFile(file.fileId);
+      const envelope = downloadedFile.format === 'envelope' ? downloadedFile.header : null;
+
+      // The envelope's key comes from the same response as the signature, so it proves nothing
+      // on its own. Check it against the key the sender published to the directory.
+      setProgress('Looking up sender key...');
+      if (envelope && envelope.sender.userId !== file.senderId) {
+        throw new Error('Envelope sender does not match the sender listed by the server');
+      }
+      const envelopeSigningKey = downloadedFile.format === 'envelope'
+        ? downloadedFile.header.sender.signingPublicKey
+        : parsePublicKeyBundle(downloadedFile.senderPublicKey).signing ?? downloadedFile.senderPublicKey;
+      const directoryEntry = await getUserPublicKey(file.senderId);
+      const senderKeys = parsePublicKeyBundle(directoryEntry.publicKey);
 
-      setProgress('Verifying sender signature...');
-      // Parse sender's signing public key
-      let senderSigningKey: string;
-      try {
-        const parsed = JSON.parse(downloadedFile.senderPublicKey);
-        senderSigningKey = parsed.signing;
-      } catch {
-        senderSigningKey = downloadedFile.senderPublicKey;
+      // Compare the directory keys with the ones pinned the first time we saw this sender
+      const senderEmail = file.senderEmail ?? null;
+      const keyCheck = await checkContactKeys(file.senderId, senderEmail, senderKeys);
+      if (keyCheck.status === 'changed') {
+        const accepted = await confirmKeyChange(file.senderEmail || file.senderId, keyCheck.pinned.pinnedAt);
+        if (!accepted) {
+          throw new Error('Sender\'s keys changed and were not trusted. The file was not opened.');
+        }
       }
 
-      // Import sender's signing public key
-      const signingPublicKey = await importSigningPublicKey(senderSigningKey);
+      // Files signed before the sender rotated name an older key version; it must chain to the current one
+      const senderKeyId = downloadedFile.format === 'envelope'
+        ? downloadedFile.header.sender.keyId
+        : downloadedFile.senderKeyId;
+      const signingKeyVersion = senderKeyId !== undefined
+        ? await getVerifiedKeyVersion(file.senderId, senderKeyId, senderKeys)
+        : senderKeys;
+      const publishedSigningKey = signingKeyVersion.signing;
+
+      // A revoked key may be in someone else's hands: anything signed with it after the
+      // revocation is untrusted. Checked against the server's upload time and the signed time.
+      const revocation = await findRevocation(file.senderId, signingKeyVersion, directoryEntry.revocations);
+      const checkNotRevoked = (signedAt: string) => {
+        if (revocation && isSignedAfterRevocation(revocation, signedAt)) {
+          throw new Error(`The sender revoked this signing key on ${new Date(revocation.revokedAt).toLocaleString()}. This file was signed after that and is untrusted.`);
+        }
+      };
+      checkNotRevoked(file.uploadedAt);
+
+      if (!publishedSigningKey) {
+        throw new Error('Sender has not published a signing key - cannot verify this file');
+      }
+      if (envelopeSigningKey !== publishedSigningKey) {
+        throw new Error('Sender key mismatch - the key attached to this file is not the sender\'s published signing key. The file was rejected.');
+      }
+      if (envelope && envelope.sender.suite !== signingKeyVersion.suite) {
+        throw new Error('Envelope sender suite does not match the sender\'s published keys');
+      }
+
+      // Import sender's published signing public key
+      const senderSuite = getSuite(signingKeyVersion.suite);
+      const signingPublicKey = await senderSuite.importSigningPublicKey(publishedSigningKey);
+
+      if (downloadedFile.format === 'envelope') {
+        const { header: envelopeHeader } = downloadedFile;
+
+        // Decrypt AES key with the receiver's private key for the version it was encrypted to.
+        // Files in a group inbox are encrypted to the group key of one key epoch.
+        if (inboxGroupId) setProgress('Unlocking group key...');
+        const { recipientId, recipient, suite: recipientSuiteId, aesKey } = await openContentKey(
+          envelopeHeader,
+          keys,
+          inboxGroupId
+        );
 
-      // Get encrypted file as ArrayBuffer
-      const encryptedFileBuffer = await downloadedFile.encryptedFile.arrayBuffer();
-      const nonce = base64ToArrayBuffer(downloadedFile.nonce);
-      const authTag = base64ToArrayBuffer(downloadedFile.authTag);
+        // The metadata holds the real size and compression, so padding can be stripped and
+        // the file decompressed while streaming.
+        // It is only trusted once the signature below verifies.
+        const header = decodeFileHeader(await decryptMetadata(envelopeHeader, aesKey));
+        checkNotRevoked(header.timestamp);
 
-      // Recreate the data that was signed
-      const dataToVerify = concatenateBuffers(
-        encryptedFileBuffer,
-        nonce,
-        authTag
-      );
-      const hash = await hashData(dataToVerify);
+        setProgress('Decrypting and saving...');
+        const { ciphertextDigest, plaintextSize, outputSize } = await decryptToSink(
+          downloadedFile.encryptedFile,
+          aesKey,
+          base64ToArrayBuffer(envelopeHeader.nonce),
+          envelopeHeader.chunkSize,
+          sink,
+          (bytes) => setTransfer({ bytes, total: downloadedFile.encryptedSize }),
+          controller.signal,
+          header
+        );
+        setTransfer(null);
 
-      // Verify signature
-      const signature = base64ToArrayBuffer(downloadedFile.signature);
-      const isValid = await verifySignature(signature, hash, signingPublicKey);
+        setProgress('Verifying sender signature...');
+        const { signature: envelopeSignature, ...envelopeFields } = envelopeHeader;
+        const hash = await envelopeSigningHash(envelopeFields, ciphertextDigest);
+        const isValid = await verifyInWorker(senderSuite.id, signingPublicKey, base64ToArrayBuffer(envelopeSignature), hash);
 
-      if (!isValid) {
-        throw new Error('Signature verification failed - file may be tampered or not from claimed sender');
+        if (!isValid) {
+          throw new Error('Signature verification failed - file may be tampered or not from claimed sender');
+        }
+
+        const envelopeRecipients = envelopeHeader.recipients.map((r) => r.userId);
+        if (
+          header.version >= 4 &&
+          (header.receiverIds?.length !== envelopeRecipients.length ||
+            !envelopeRecipients.every((userId) => header.receiverIds?.includes(userId)))
+        ) {
+          throw new Error('Signed recipients do not match the recipients of this envelope');
+        }
+        checkSignedHeader(header, {
+          recipientId,
+          senderId: file.senderId,
+          plaintextSize,
+          outputSize,
+          senderKeyId: signingKeyVersion.keyId,
+          recipientKeyId: recipient.keyId,
+          suite: recipientSuiteId,
+        });
+        setVerifiedHeader(header);
+
+        await sink.close();
+
+        // Tell the sender the file arrived intact; a receipt that fails to send does not fail the download
+        await sendDeliveryReceipt(file.fileId, recipientId, hash, keys).catch((err) => {
+          console.warn('Failed to send delivery receipt:', err);
+        });
+      } else {
+        const nonce = base64ToArrayBuffer(downloadedFile.nonce);
+        const signature = base64ToArrayBuffer(downloadedFile.signature);
+
+        // Decrypt AES key with the receiver's private key for the version it was encrypted to
+        const encryptedAESKey = base64ToArrayBuffer(downloadedFile.encryptedAESKey);
+        const recipientKeyId = downloadedFile.recipientKeyId ?? keys.keyId;
+        const { suite: recipientSuiteId, privateKey } = getDecryptionKey(keys, recipientKeyId);
+        const recipientSuite = getSuite(recipientSuiteId);
+        if (downloadedFile.suite && downloadedFile.suite !== recipientSuiteId) {
+          throw new Error(`File was encrypted with the ${downloadedFile.suite} suite, but key version ${recipientKeyId} uses ${recipientSuiteId}`);
+        }
+
+        if (downloadedFile.chunkSize) {
+          // Chunked file from before the envelope format: header and signature sent alongside
+          const aesKey = await recipientSuite.unwrapContentKey(encryptedAESKey, privateKey);
+          setProgress('Decrypting and saving...');
+          const { ciphertextDigest, plaintextSize, outputSize } = await decryptToSink(
+            downloadedFile.encryptedFile,
+            aesKey,
+            nonce,
+            downloadedFile.chunkSize,
+            sink,
+            (bytes) => setTransfer({ bytes, total: downloadedFile.encryptedSize }),
+            controller.signal
+          );
+          setTransfer(null);
+
+          setProgress('Verifying sender signature...');
+          // Files without a header predate signed metadata; the signature then covers only the ciphertext
+          const headerBytes = downloadedFile.header ? base64ToArrayBuffer(downloadedFile.header) : new ArrayBuffer(0);
+          const hash = await hashData(concatenateBuffers(headerBytes, ciphertextDigest, nonce));
+          const isValid = await verifyInWorker(senderSuite.id, signingPublicKey, signature, hash);
+
+          if (!isValid) {
+            throw new Error('Signature verification failed - file may be tampered or not from claimed sender');
+          }
+
+          if (downloadedFile.header) {
+            const header = decodeFileHeader(headerBytes);
+            checkNotRevoked(header.timestamp);
+            checkSignedHeader(header, {
+              recipientId: getUserId() ?? '',
+              senderId: file.senderId,
+              plaintextSize,
+              outputSize,
+              senderKeyId: signingKeyVersion.keyId,
+              recipientKeyId,
+              suite: recipientSuiteId,
+            });
+            setVerifiedHeader(header);
+          }
+
+          await sink.close();
+        } else {
+          // Legacy single-shot file: ciphertext and auth tag are sent separately
+          const encryptedFileBuffer = await new Response(downloadedFile.encryptedFile).arrayBuffer();
+          const authTag = base64ToArrayBuffer(downloadedFile.authTag);
+
+          setProgress('Verifying sender signature...');
+          // Recreate the data that was signed
+          const dataToVerify = concatenateBuffers(
+            encryptedFileBuffer,
+            nonce,
+            authTag
+          );
+          const hash = await hashData(dataToVerify);
+
+          // Verify signature
+          const isValid = await senderSuite.verify(signature, hash, signingPublicKey);
+
+          if (!isValid) {
+            throw new Error('Signature verification failed - file may be tampered or not from claimed sender');
+          }
+
+          setProgress('Decrypting file...');
+          const aesKey = await recipientSuite.unwrapContentKey(encryptedAESKey, privateKey);
+
+          // Combine ciphertext and auth tag for AES-GCM decryption
+          const ciphertextWithTag = new Uint8Array(encryptedFileBuffer.byteLength + authTag.byteLength);
+          ciphertextWithTag.set(new Uint8Array(encryptedFileBuffer), 0);
+          ciphertextWithTag.set(new Uint8Array(authTag), encryptedFileBuffer.byteLength);
+
+          // Decrypt file
+          const decryptedBuffer = await decryptFile(
+            ciphertextWithTag.buffer,
+            aesKey,
+            new Uint8Array(nonce)
+          );
+
+          setProgress('Saving file...');
+          await new Blob([decryptedBuffer]).stream().pipeTo(sink);
+        }
       }
 
-      setProgress('Decrypting file...');
-      // Decrypt AES key with receiver's private key
-      const encryptedAESKey = base64ToArrayBuffer(downloadedFile.encryptedAESKey);
-      const privateKey = await importPrivateKey(keys.encryptionPrivateKey);
-      const aesKey = await decryptAESKey(encryptedAESKey, privateKey);
-
-      // Combine ciphertext and auth tag for AES-GCM decryption
-      const ciphertextWithTag = new Uint8Array(encryptedFileBuffer.byteLength + authTag.byteLength);
-      ciphertextWithTag.set(new Uint8Array(encryptedFileBuffer), 0);
-      ciphertextWithTag.set(new Uint8Array(authTag), encryptedFileBuffer.byteLength);
-
-      // Decrypt file
-      const decryptedBuffer = await decryptFile(
-        ciphertextWithTag.buffer,
-        aesKey,
-        new Uint8Array(nonce)
-      );
-
-      setProgress('Saving file...');
-      // Create blob and download
-      const blob = new Blob([decryptedBuffer]);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = downloadedFile.fileName || file.fileName;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      // Pin (or re-pin after an accepted change) only once the file verified
+      if (keyCheck.status !== 'match') {
+        await pinContactKeys(file.senderId, senderEmail, senderKeys, keyCheck.status === 'rotated');
+      }
 
       setState('success');
       setProgress('');
     } catch (err) {
+      // Discard whatever was written so a tampered or partial file is never kept
+      await sink?.abort(err).catch(() => undefined);
+
+      if (err instanceof DownloadCancelledError || controller.signal.aborted) {
+        handleReset();
+        return;
+      }
+
       console.error('Download failed:', err);
       setError(err instanceof Error ? err.message : 'Failed to download file');
       setState('error');
@@ -135,7 +492,9 @@ export function ReceiveFiles({ onBack }: ReceiveFilesProps) {
 
   const handleReset = () => {
     setState('list');
+    setTransfer(null);
     setSelectedFile(null);
+    setVerifiedHeader(null);
     setError('');
     setProgress('');
   };
@@ -154,9 +513,33 @@ export function ReceiveFiles({ onBack }: ReceiveFilesProps) {
       <main className="max-w-2xl mx-auto p-8">
         {state === 'list' && (
           <>
+            {groups.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-4">
+                <Button
+                  onClick={() => setInboxGroupId(null)}
+                  variant={inboxGroupId === null ? 'default' : 'outline'}
+                  size="sm"
+                >
+                  Personal
+                </Button>
+                {groups.map((group) => (
+                  <Button
+                    key={group.groupId}
+                    onClick={() => setInboxGroupId(group.groupId)}
+                    variant={inboxGroupId === group.groupId ? 'default' : 'outline'}
+                    size="sm"
+                  >
+                    {group.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+
             <div className="flex justify-between items-center mb-6">
-              <h2 className="text-lg font-semibold">Inbox</h2>
-              <Button onClick={fetchInbox} variant="outline" size="sm" disabled={loading}>
+              <h2 className="text-lg font-semibold">
+                {inboxGroupId ? groups.find((g) => g.groupId === inboxGroupId)?.name ?? 'Group' : 'Inbox'}
+              </h2>
+              <Button onClick={() => fetchInbox(inboxGroupId)} variant="outline" size="sm" disabled={loading}>
                 Refresh
               </Button>
             </div>
@@ -171,7 +554,7 @@ export function ReceiveFiles({ onBack }: ReceiveFilesProps) {
             {!loading && error && (
               <div className="text-center py-8">
                 <p className="text-destructive">{error}</p>
-                <Button onClick={fetchInbox} variant="outline" className="mt-4">
+                <Button onClick={() => fetchInbox(inboxGroupId)} variant="outline" className="mt-4">
                   Retry
                 </Button>
               </div>
@@ -179,7 +562,9 @@ export function ReceiveFiles({ onBack }: ReceiveFilesProps) {
 
             {!loading && !error && files.length === 0 && (
               <div className="text-center py-8">
-                <p className="text-muted-foreground">No files in your inbox</p>
+                <p className="text-muted-foreground">
+                  {inboxGroupId ? 'No files sent to this group' : 'No files in your inbox'}
+                </p>
               </div>
             )}
 
@@ -191,13 +576,26 @@ export function ReceiveFiles({ onBack }: ReceiveFilesProps) {
                     className="p-4 border rounded-lg flex justify-between items-center hover:bg-accent transition-colors"
                   >
                     <div>
-                      <p className="font-medium">{file.fileName}</p>
-                      <p className="text-sm text-muted-foreground">
+                      <p className={`font-medium ${fileNameFor(file) ? '' : 'text-muted-foreground italic'}`}>
+                        {fileNameFor(file) ?? (metadata[file.fileId] === null ? 'Encrypted file' : 'Decrypting name...')}
+                      </p>
+                      {metadata[file.fileId] && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatMetadata(metadata[file.fileId] as FileHeader)}
+                        </p>
+                      )}
+                      <p className="text-sm text-muted-foreground flex items-center gap-2">
                         From: {file.senderEmail || file.senderId}
+                        <VerificationBadge verified={verifiedSenders.has(file.senderId)} />
                       </p>
                       <p className="text-xs text-muted-foreground">
                         {new Date(file.uploadedAt).toLocaleString()}
                       </p>
+                      {isUntrusted(file) && (
+                        <p className="text-xs text-destructive">
+                          Untrusted - sent after the sender revoked their key
+                        </p>
+                      )}
                     </div>
                     <Button onClick={() => handleDownload(file)} size="sm">
                       Download
@@ -215,11 +613,24 @@ export function ReceiveFiles({ onBack }: ReceiveFilesProps) {
               <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
             </div>
             <p className="text-muted-foreground">{progress}</p>
+            {transfer && (
+              <div className="space-y-1">
+                {!!transfer.total && <Progress value={(transfer.bytes / transfer.total) * 100} />}
+                <p className="text-xs text-muted-foreground">
+                  {transfer.total
+                    ? `${(transfer.bytes / (1024 * 1024)).toFixed(1)} of ${(transfer.total / (1024 * 1024)).toFixed(1)} MB`
+                    : `${(transfer.bytes / (1024 * 1024)).toFixed(1)} MB`}
+                </p>
+              </div>
+            )}
             {selectedFile && (
               <p className="text-sm">
-                Downloading: {selectedFile.fileName}
+                Downloading: {fileNameFor(selectedFile) ?? 'Encrypted file'}
               </p>
             )}
+            <Button onClick={() => abortRef.current?.abort()} variant="outline">
+              Cancel
+            </Button>
           </div>
         )}
 
@@ -232,8 +643,50 @@ export function ReceiveFiles({ onBack }: ReceiveFilesProps) {
             </div>
             <h3 className="text-lg font-semibold">File Downloaded Successfully</h3>
             <p className="text-muted-foreground text-sm">
-              Signature verified. File is authentic and untampered.
+              Signature verified against the sender's published signing key. File is authentic and untampered.
             </p>
+            {verifiedHeader ? (
+              <div className="p-4 bg-muted rounded-lg text-left text-sm space-y-1 max-w-sm mx-auto">
+                <p className="text-xs font-medium text-muted-foreground mb-2">Signed by the sender</p>
+                <p>
+                  <span className="text-muted-foreground">File: </span>
+                  {verifiedHeader.fileName}
+                </p>
+                <p>
+                  <span className="text-muted-foreground">Size: </span>
+                  {(verifiedHeader.fileSize / 1024).toFixed(2)} KB
+                </p>
+                <p>
+                  <span className="text-muted-foreground">From: </span>
+                  {selectedFile?.senderEmail || verifiedHeader.senderId}
+                </p>
+                <p>
+                  <span className="text-muted-foreground">Sent: </span>
+                  {new Date(verifiedHeader.timestamp).toLocaleString()}
+                </p>
+                {verifiedHeader.mimeType && (
+                  <p>
+                    <span className="text-muted-foreground">Type: </span>
+                    {verifiedHeader.mimeType}
+                  </p>
+                )}
+                {verifiedHeader.lastModified !== undefined && (
+                  <p>
+                    <span className="text-muted-foreground">Modified: </span>
+                    {new Date(verifiedHeader.lastModified).toLocaleString()}
+                  </p>
+                )}
+                {selectedFile?.fileName && selectedFile.fileName !== verifiedHeader.fileName && (
+                  <p className="text-xs text-destructive pt-2">
+                    The server listed this file as "{selectedFile.fileName}", which differs from the signed name.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                This file was sent without signed metadata. Its name and sender are as reported by the server.
+              </p>
+            )}
             <Button onClick={handleReset} className="w-full max-w-xs">
               Back to Inbox
             </Button>
@@ -255,6 +708,14 @@ export function ReceiveFiles({ onBack }: ReceiveFilesProps) {
           </div>
         )}
       </main>
+
+      <KeyChangeWarning
+        open={!!keyChangePrompt}
+        contactName={keyChangePrompt?.contactName ?? ''}
+        pinnedAt={keyChangePrompt?.pinnedAt ?? ''}
+        onAccept={() => resolveKeyChange(true)}
+        onReject={() => resolveKeyChange(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { getUserId, getRecoveryBundle } from '@/lib/api';
+import { storeUnprotectedKeys } from '@/lib/keyStorage';
+import { verifyRestoredKeys } from '@/lib/keyBackup';
+import { isValidRecoveryPhrase, openRecoveryBundle } from '@/lib/recoveryPhrase';
+
+// Recover keys from the 24-word phrase on the "Keys Not Found" screen.
+// Like a file restore, recovered keys are stored right away and get their passphrase in the setup screen.
+export function RecoverFromPhrase() {
+  const { setHasKeyPair } = useAuth();
+  const [phrase, setPhrase] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleRecover = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError('');
+
+    if (!isValidRecoveryPhrase(phrase)) {
+      setError('Recovery phrase is not valid - check each word');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const userId = getUserId();
+      if (!userId) {
+        throw new Error('Session is missing your user id - please sign in again');
+      }
+
+      const { bundle } = await getRecoveryBundle();
+      const contents = await openRecoveryBundle(bundle, userId, phrase);
+      await verifyRestoredKeys(contents, userId);
+
+      await storeUnprotectedKeys(contents.keys);
+      setPhrase('');
+      setHasKeyPair(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to recover keys');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleRecover} className="space-y-3 text-left">
+      <h2 className="text-sm font-medium">Recover with your recovery phrase</h2>
+      <Textarea
+        value={phrase}
+        onChange={(e) => setPhrase(e.target.value)}
+        placeholder="Enter your 24 words separated by spaces"
+        rows={4}
+        autoComplete="off"
+        spellCheck={false}
+        className="font-mono"
+      />
+      {error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+      <Button type="submit" className="w-full" disabled={busy || !phrase.trim()}>
+        {busy ? 'Recovering...' : 'Recover Keys'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,91 @@
+import { useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { normalizeRecoveryPhrase } from '@/lib/recoveryPhrase';
+
+// Number of words the user re-enters to show they wrote the phrase down
+const CHECKED_WORD_COUNT = 3;
+
+function pickWordPositions(wordCount: number): number[] {
+  const positions = new Set<number>();
+  while (positions.size < CHECKED_WORD_COUNT) {
+    positions.add(window.crypto.getRandomValues(new Uint32Array(1))[0] % wordCount);
+  }
+  return [...positions].sort((a, b) => a - b);
+}
+
+// Shown once after signup: the recovery phrase is never stored, so this is the only time it is visible
+export function RecoveryPhraseNotice() {
+  const { recoveryPhrase, setRecoveryPhrase } = useAuth();
+  const words = useMemo(() => (recoveryPhrase ?? '').split(' '), [recoveryPhrase]);
+  const positions = useMemo(() => pickWordPositions(words.length), [words]);
+  const [confirming, setConfirming] = useState(false);
+  const [answers, setAnswers] = useState<string[]>(() => positions.map(() => ''));
+  const [error, setError] = useState('');
+
+  const handleConfirm = (event: React.FormEvent) => {
+    event.preventDefault();
+    const correct = positions.every((position, i) => normalizeRecoveryPhrase(answers[i]) === words[position]);
+    if (!correct) {
+      setError('Those words do not match your recovery phrase');
+      return;
+    }
+    setRecoveryPhrase(null);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <div className="p-8 border rounded-lg shadow-sm max-w-md w-full space-y-4">
+        <div className="text-center">
+          <h1 className="text-xl font-bold mb-2">Your Recovery Phrase</h1>
+          <p className="text-muted-foreground text-sm">
+            Write these 24 words down in order and keep them offline. They are the only way to recover
+            your keys if you lose this device. Anyone who has them can read files sent to you.
+          </p>
+        </div>
+
+        {!confirming && (
+          <>
+            <ol className="grid grid-cols-3 gap-2 font-mono text-sm p-4 bg-muted rounded-lg">
+              {words.map((word, i) => (
+                <li key={i}>
+                  <span className="text-muted-foreground">{i + 1}.</span> {word}
+                </li>
+              ))}
+            </ol>
+            <Button onClick={() => setConfirming(true)} className="w-full">
+              I Have Written It Down
+            </Button>
+          </>
+        )}
+
+        {confirming && (
+          <form onSubmit={handleConfirm} className="space-y-3">
+            {positions.map((position, i) => (
+              <Input
+                key={position}
+                value={answers[i]}
+                onChange={(e) => setAnswers((current) => current.map((a, j) => (j === i ? e.target.value : a)))}
+                placeholder={`Word #${position + 1}`}
+                autoComplete="off"
+                autoFocus={i === 0}
+              />
+            ))}
+            {error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => { setError(''); setConfirming(false); }} className="flex-1">
+                Show Again
+              </Button>
+              <Button type="submit" className="flex-1" disabled={answers.some((a) => !a.trim())}>
+                Confirm
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
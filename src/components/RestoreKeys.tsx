@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getUserId } from '@/lib/api';
+import { storeUnprotectedKeys } from '@/lib/keyStorage';
+import { readKeyBackup, verifyRestoredKeys, KEY_BACKUP_EXTENSION } from '@/lib/keyBackup';
+
+// Restore keys from a .vortexkey backup on the "Keys Not Found" screen.
+// Restored keys are stored right away and get their passphrase in the setup screen that follows.
+export function RestoreKeys() {
+  const { setHasKeyPair } = useAuth();
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleRestore = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!backupFile) return;
+
+    setError('');
+    setBusy(true);
+    try {
+      const userId = getUserId();
+      if (!userId) {
+        throw new Error('Session is missing your user id - please sign in again');
+      }
+
+      const contents = await readKeyBackup(backupFile, password);
+      await verifyRestoredKeys(contents, userId);
+
+      await storeUnprotectedKeys(contents.keys);
+      setHasKeyPair(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore keys');
+    } finally {
+      setBusy(false);
+      setPassword('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleRestore} className="space-y-3 text-left">
+      <h2 className="text-sm font-medium">Restore from backup</h2>
+      <input
+        type="file"
+        accept={KEY_BACKUP_EXTENSION}
+        onChange={(e) => setBackupFile(e.target.files?.[0] ?? null)}
+        className="block w-full text-sm text-muted-foreground
+          file:mr-4 file:py-2 file:px-4
+          file:rounded file:border-0
+          file:text-sm file:font-medium
+          file:bg-primary file:text-primary-foreground
+          hover:file:bg-primary/90"
+      />
+      <Input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Backup password"
+        autoComplete="current-password"
+      />
+      {error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+      <Button type="submit" className="w-full" disabled={busy || !backupFile || !password}>
+        {busy ? 'Restoring...' : 'Restore Keys'}
+      </Button>
+    </form>
+  );
+}
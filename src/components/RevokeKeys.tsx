@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { getUserId, publishRevocation } from '@/lib/api';
+import { getKeys, StoredKeys } from '@/lib/keyStorage';
+import { createRevocationCertificate, revocationFile, REVOCATION_EXTENSION } from '@/lib/revocation';
+import { PublishRevocation } from './PublishRevocation';
+
+interface RevokeKeysProps {
+  onBack: () => void;
+}
+
+type RevokeState = 'form' | 'working' | 'revoked';
+
+async function requireSession(): Promise<{ userId: string; keys: StoredKeys }> {
+  const userId = getUserId();
+  if (!userId) {
+    throw new Error('Session is missing your user id - please sign in again');
+  }
+  const keys = await getKeys();
+  if (!keys) {
+    throw new Error('Local keys not found');
+  }
+  return { userId, keys };
+}
+
+export function RevokeKeys({ onBack }: RevokeKeysProps) {
+  const [state, setState] = useState<RevokeState>('form');
+  const [confirmed, setConfirmed] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState('');
+
+  // Pre-generate a certificate to keep offline, for when this device is lost
+  const handleDownload = async () => {
+    setError('');
+    try {
+      const { userId, keys } = await requireSession();
+      const revocation = await createRevocationCertificate(userId, keys, 'compromised');
+
+      const url = URL.createObjectURL(revocationFile(revocation));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `vortex-revocation-v${keys.keyId}${REVOCATION_EXTENSION}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create revocation certificate');
+    }
+  };
+
+  const handleRevoke = async () => {
+    setError('');
+    setState('working');
+    try {
+      const { userId, keys } = await requireSession();
+      await publishRevocation(await createRevocationCertificate(userId, keys, 'compromised'));
+      setState('revoked');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke keys');
+      setState('form');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b p-4">
+        <div className="max-w-4xl mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold">Revoke Keys</h1>
+          <Button onClick={onBack} variant="ghost" size="sm">
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-md mx-auto p-8">
+        {state !== 'revoked' && (
+          <div className="space-y-8">
+            <div className="space-y-3">
+              <h2 className="text-sm font-medium">Save a revocation certificate</h2>
+              <p className="text-sm text-muted-foreground">
+                Download a {REVOCATION_EXTENSION} certificate for your current keys and store it offline.
+                If this device is lost or stolen, publish it from any device to revoke the keys.
+                It holds no secrets, but anyone who has it can revoke your keys.
+              </p>
+              <Button onClick={handleDownload} variant="outline" className="w-full">
+                Download Certificate
+              </Button>
+              {saved && (
+                <p className="text-xs text-muted-foreground">Certificate saved.</p>
+              )}
+            </div>
+
+            <div className="space-y-3 border-t pt-6">
+              <h2 className="text-sm font-medium">Revoke now</h2>
+              <p className="text-sm text-muted-foreground">
+                Revoke your current keys if you believe they are compromised. Nobody will be able
+                to send you files until you set up new keys, and files signed with these keys after
+                now are flagged as untrusted.
+              </p>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={confirmed}
+                  onChange={(e) => setConfirmed(e.target.checked)}
+                />
+                I understand this cannot be undone
+              </label>
+              <Button
+                onClick={handleRevoke}
+                variant="destructive"
+                className="w-full"
+                disabled={!confirmed || state === 'working'}
+              >
+                {state === 'working' ? 'Revoking...' : 'Revoke My Keys'}
+              </Button>
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+
+            <div className="border-t pt-6">
+              <PublishRevocation />
+            </div>
+          </div>
+        )}
+
+        {state === 'revoked' && (
+          <div className="text-center space-y-4">
+            <h3 className="text-lg font-semibold">Keys Revoked</h3>
+            <p className="text-muted-foreground text-sm">
+              Rotate to new keys so people can send you files again. Your contacts will see a
+              key change and need to compare safety numbers with you again.
+            </p>
+            <Button onClick={onBack} className="w-full">
+              Done
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
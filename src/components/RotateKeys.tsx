@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { getUserId, uploadRecoveryBundle, PublicKeyBundle } from '@/lib/api';
+import { republishKeyVersion, rotateAccountKeys } from '@/lib/keyRotation';
+import { createRecoveryBundle, isValidRecoveryPhrase } from '@/lib/recoveryPhrase';
+
+interface RotateKeysProps {
+  onBack: () => void;
+}
+
+type RotateState = 'form' | 'working' | 'success';
+
+export function RotateKeys({ onBack }: RotateKeysProps) {
+  const [state, setState] = useState<RotateState>('form');
+  const [passphrase, setPassphrase] = useState('');
+  const [recoveryPhrase, setRecoveryPhrase] = useState('');
+  const [recoveryUpdated, setRecoveryUpdated] = useState(false);
+  const [rekeyed, setRekeyed] = useState(false);
+  const [unconfirmed, setUnconfirmed] = useState<PublicKeyBundle | null>(null);
+  const [retrying, setRetrying] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleRotate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError('');
+
+    if (recoveryPhrase.trim() && !isValidRecoveryPhrase(recoveryPhrase)) {
+      setError('Recovery phrase is not valid - check each word');
+      return;
+    }
+
+    setState('working');
+    try {
+      const userId = getUserId();
+      if (!userId) {
+        throw new Error('Session is missing your user id - please sign in again');
+      }
+
+      const { keys, rekeyed, unconfirmed } = await rotateAccountKeys(userId, passphrase);
+      setRekeyed(rekeyed);
+      setUnconfirmed(unconfirmed);
+
+      // The stored recovery bundle still holds the old keys; replace it while we have the phrase
+      if (recoveryPhrase.trim()) {
+        await uploadRecoveryBundle(await createRecoveryBundle(keys, userId, recoveryPhrase));
+        setRecoveryUpdated(true);
+      }
+
+      setState('success');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rotate keys');
+      setState('form');
+    } finally {
+      setPassphrase('');
+      setRecoveryPhrase('');
+    }
+  };
+
+  const handleRetryPublish = async () => {
+    if (!unconfirmed) return;
+    setError('');
+    setRetrying(true);
+    try {
+      const userId = getUserId();
+      if (!userId) {
+        throw new Error('Session is missing your user id - please sign in again');
+      }
+      if (await republishKeyVersion(userId, unconfirmed)) {
+        setUnconfirmed(null);
+      } else {
+        setError('Still could not reach the server - try again later');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to publish keys');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b p-4">
+        <div className="max-w-4xl mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold">Rotate Keys</h1>
+          <Button onClick={onBack} variant="ghost" size="sm">
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-md mx-auto p-8">
+        {state !== 'success' && (
+          <form onSubmit={handleRotate} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Generate a new key version and publish it, signed by your current key so your contacts
+              can follow the change. Your old keys stay on this device so files already sent to you
+              still open. Rotate if you think a key may have been exposed.
+            </p>
+            <p className="text-sm text-muted-foreground">
+              If you revoked your keys, the revoked key cannot sign for the new ones. They are
+              published unsigned instead, and your contacts see a key change they need to verify
+              again.
+            </p>
+            <p className="text-sm text-muted-foreground">
+              New keys include a post-quantum ML-KEM key, so accounts created before it existed
+              can rotate to receive files with post-quantum protection.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Current passphrase</label>
+              <Input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="current-password"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Recovery phrase (optional)</label>
+              <Textarea
+                value={recoveryPhrase}
+                onChange={(e) => setRecoveryPhrase(e.target.value)}
+                placeholder="Enter it to keep phrase recovery working with the new keys"
+                rows={3}
+                autoComplete="off"
+                spellCheck={false}
+                className="font-mono"
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={state === 'working' || !passphrase}>
+              {state === 'working' ? 'Rotating keys...' : 'Rotate Keys'}
+            </Button>
+          </form>
+        )}
+
+        {state === 'success' && (
+          <div className="text-center space-y-4">
+            <h3 className="text-lg font-semibold">Keys Rotated</h3>
+            <p className="text-muted-foreground text-sm">
+              New files will be encrypted to your new keys. Create a new key backup now: older
+              backups do not contain them.
+              {!recoveryUpdated && ' Your recovery phrase still restores only the previous keys.'}
+              {rekeyed && ' Your previous keys were revoked, so ask your contacts to compare safety numbers with you again.'}
+            </p>
+            {unconfirmed && (
+              <div className="space-y-2">
+                <p className="text-sm text-destructive">
+                  The server did not confirm it has your new public keys. Until it does, others may
+                  still encrypt to your previous keys.
+                </p>
+                <Button onClick={handleRetryPublish} variant="outline" className="w-full" disabled={retrying}>
+                  {retrying ? 'Publishing...' : 'Retry Publishing'}
+                </Button>
+              </div>
+            )}
+            {error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+            <Button onClick={onBack} className="w-full">
+              Done
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
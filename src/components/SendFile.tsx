@@ -1,56 +1,215 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { getReceiverPublicKey, sendFile } from '@/lib/api';
-import { getKeys } from '@/lib/keyStorage';
+import { Progress } from '@/components/ui/progress';
+import { KeyChangeWarning } from './KeyChangeWarning';
+import { VerificationBadge } from './VerificationBadge';
+import { CreateShareLink } from './CreateShareLink';
+import {
+  getReceiverPublicKey,
+  initUpload,
+  completeUpload,
+  getUserId,
+  parsePublicKeyBundle,
+  serializePublicKeyBundle,
+  INITIAL_KEY_ID,
+  UserNotFoundError,
+} from '@/lib/api';
+import { getKeys, StoredKeys } from '@/lib/keyStorage';
+import { getSuite } from '@/lib/cryptoSuites';
+import {
+  getPendingUploads,
+  savePendingUpload,
+  deletePendingUpload,
+  saveSentFileName,
+  PendingUpload,
+} from '@/lib/uploadStorage';
+import { checkContactKeys, pinContactKeys } from '@/lib/contactStorage';
+import { findGroup, groupPublicKeyBundle, groupRecipientId } from '@/lib/groups';
+import { runResumableUpload, matchesPendingUpload, uploadPlaintextSize, PART_SIZE } from '@/lib/resumableUpload';
 import {
-  generateAESKey,
   generateNonce,
-  encryptFile,
-  encryptAESKey,
-  signData,
-  hashData,
-  concatenateBuffers,
   arrayBufferToBase64,
-  importPublicKey,
-  importSigningPrivateKey,
+  base64ToArrayBuffer,
 } from '@/lib/crypto';
+import { generateContentKey, signInWorker } from '@/lib/cryptoWorker';
+import { encryptedSize, CHUNK_SIZE } from '@/lib/streamCrypto';
+import { paddedLength, DEFAULT_PADDING_SCHEME, PaddingScheme } from '@/lib/padding';
+import { isCompressible, measureCompressedSize, CompressionAlgorithm, COMPRESSION_ALGORITHM } from '@/lib/compression';
+import { encodeFileHeader, FILE_HEADER_VERSION } from '@/lib/fileHeader';
+import { supportsHybridKem, wrapContentKeyTo, HYBRID_KEM_ID, KemId } from '@/lib/hybridKem';
+import {
+  envelopeSigningHash,
+  encodeEnvelopePrefix,
+  encryptMetadata,
+  EnvelopeFields,
+  ENVELOPE_VERSION,
+} from '@/lib/envelope';
 
 interface SendFileProps {
   onBack: () => void;
 }
 
-type SendState = 'lookup' | 'select' | 'sending' | 'success' | 'error';
+// Scheme used when a sender switches padding on; an organization default of 'none'
+// only changes the initial state of the toggle
+const PADDING_SCHEME: PaddingScheme = DEFAULT_PADDING_SCHEME === 'none' ? 'padme' : DEFAULT_PADDING_SCHEME;
+
+type SendState = 'lookup' | 'select' | 'sending' | 'success' | 'error' | 'share';
+
+type RecipientStatus = 'looking-up' | 'ready' | 'key-changed' | 'failed';
+
+interface Recipient {
+  // Email address, or the name of a group
+  email: string;
+  status: RecipientStatus;
+  receiver: { userId: string; publicKey: string } | null;
+  isGroup: boolean;
+  verified: boolean;
+  // When the pinned keys were first trusted, for a key change awaiting review
+  pinnedAt?: string;
+  // No account exists for the email; a share link can be sent instead
+  notFound?: boolean;
+  error?: string;
+}
+
+// Post-quantum hybrid wrapping only helps when every recipient gets it: a single classical
+// wrap would still expose the content key to whoever breaks that recipient's key
+function chooseKem(receivers: { publicKey: string }[]): KemId | null {
+  return receivers.every((receiver) => supportsHybridKem(parsePublicKeyBundle(receiver.publicKey)))
+    ? HYBRID_KEM_ID
+    : null;
+}
 
 export function SendFile({ onBack }: SendFileProps) {
   const [state, setState] = useState<SendState>('lookup');
   const [receiverEmail, setReceiverEmail] = useState('');
-  const [receiverData, setReceiverData] = useState<{ userId: string; publicKey: string } | null>(null);
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [padSize, setPadSize] = useState(DEFAULT_PADDING_SCHEME !== 'none');
   const [error, setError] = useState('');
   const [progress, setProgress] = useState('');
+  // Bytes uploaded so far, once the upload is running
+  const [transfer, setTransfer] = useState<{ bytes: number; total: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const [keyChange, setKeyChange] = useState<Recipient | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleLookupReceiver = async () => {
-    if (!receiverEmail.trim()) {
-      setError('Please enter receiver email');
+  const refreshPendingUploads = () => {
+    getPendingUploads()
+      .then(setPendingUploads)
+      .catch((err) => console.error('Failed to load pending uploads:', err));
+  };
+
+  useEffect(() => {
+    refreshPendingUploads();
+  }, []);
+
+  const updateRecipient = (email: string, update: Partial<Recipient>) => {
+    setRecipients((current) => current.map((r) => (r.email === email ? { ...r, ...update } : r)));
+  };
+
+  // A group is addressed by name; its key comes from the admin-signed group history
+  const lookupGroup = async (name: string) => {
+    try {
+      const group = await findGroup(name);
+      updateRecipient(name, {
+        status: 'ready',
+        receiver: {
+          userId: groupRecipientId(group.groupId),
+          publicKey: serializePublicKeyBundle(groupPublicKeyBundle(group)),
+        },
+        isGroup: true,
+      });
+    } catch (err) {
+      updateRecipient(name, { status: 'failed', error: err instanceof Error ? err.message : 'Group not found' });
+    }
+  };
+
+  // Each recipient is looked up and checked against its pinned keys on its own
+  const lookupRecipient = async (email: string) => {
+    if (!email.includes('@')) {
+      await lookupGroup(email);
+      return;
+    }
+    try {
+      const data = await getReceiverPublicKey(email);
+
+      // Compare against the keys pinned the first time we saw this contact
+      const receiverKeys = parsePublicKeyBundle(data.publicKey);
+      const keyCheck = await checkContactKeys(data.userId, email, receiverKeys);
+      if (keyCheck.status === 'changed') {
+        updateRecipient(email, { status: 'key-changed', receiver: data, pinnedAt: keyCheck.pinned.pinnedAt });
+        return;
+      }
+      if (keyCheck.status === 'new') {
+        await pinContactKeys(data.userId, email, receiverKeys);
+      }
+      // A rotation signed by the pinned key is followed without asking
+      if (keyCheck.status === 'rotated') {
+        await pinContactKeys(data.userId, email, receiverKeys, true);
+      }
+
+      updateRecipient(email, {
+        status: 'ready',
+        receiver: data,
+        verified: keyCheck.status !== 'new' && !!keyCheck.pinned.verifiedAt,
+      });
+    } catch (err) {
+      updateRecipient(email, {
+        status: 'failed',
+        notFound: err instanceof UserNotFoundError,
+        error: err instanceof Error ? err.message : 'User not found',
+      });
+    }
+  };
+
+  const handleAddRecipient = () => {
+    const email = receiverEmail.trim();
+    if (!email) {
+      setError('Please enter receiver email or group name');
+      return;
+    }
+    if (recipients.some((r) => r.email.toLowerCase() === email.toLowerCase())) {
+      setError(`${email} is already a recipient`);
       return;
     }
 
     setError('');
-    setProgress('Looking up receiver...');
+    setReceiverEmail('');
+    setRecipients((current) => [...current, { email, status: 'looking-up', receiver: null, isGroup: false, verified: false }]);
+    lookupRecipient(email);
+  };
+
+  const handleRemoveRecipient = (email: string) => {
+    setRecipients((current) => current.filter((r) => r.email !== email));
+  };
 
+  const handleAcceptKeyChange = async () => {
+    if (!keyChange?.receiver) return;
+    const { email, receiver } = keyChange;
+    setKeyChange(null);
     try {
-      const data = await getReceiverPublicKey(receiverEmail.trim());
-      setReceiverData(data);
-      setState('select');
-      setProgress('');
+      await pinContactKeys(receiver.userId, email, parsePublicKeyBundle(receiver.publicKey));
+      updateRecipient(email, { status: 'ready', verified: false });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'User not found');
-      setProgress('');
+      updateRecipient(email, {
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Failed to update trusted keys',
+      });
     }
   };
 
+  const handleRejectKeyChange = () => {
+    if (!keyChange) return;
+    updateRecipient(keyChange.email, {
+      status: 'failed',
+      receiver: null,
+      error: 'Keys changed and were not trusted',
+    });
+    setKeyChange(null);
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -58,9 +217,44 @@ export function SendFile({ onBack }: SendFileProps) {
     }
   };
 
+  // Upload the ciphertext part by part, then sign and finalize
+  const finishUpload = async (
+    upload: PendingUpload,
+    file: File,
+    aesKey: CryptoKey,
+    keys: StoredKeys,
+    signal: AbortSignal
+  ) => {
+    setProgress('Encrypting and uploading...');
+    const ciphertextDigest = await runResumableUpload(upload, file, aesKey, ({ uploadedBytes, totalBytes }) => {
+      setTransfer({ bytes: uploadedBytes, total: totalBytes });
+    }, signal);
+    setTransfer(null);
+
+    setProgress('Creating digital signature...');
+    // Sign the envelope header fields + chained ciphertext digest with sender's private signing key
+    const hash = await envelopeSigningHash(upload.envelope, ciphertextDigest);
+    const signature = await signInWorker(keys.suite, keys.signingPrivateKey, hash);
+
+    setProgress('Finalizing upload...');
+    const prefix = encodeEnvelopePrefix({ ...upload.envelope, signature: arrayBufferToBase64(signature) });
+    const { fileId } = await completeUpload(upload.uploadId, prefix);
+    await deletePendingUpload(upload.uploadId);
+    // Only receivers can decrypt the name, so keep it for the sent files list. The file
+    // is sent either way; losing the name only affects how the list shows it.
+    await saveSentFileName({ fileId, fileName: upload.fileName }).catch((err) => {
+      console.error('Failed to remember sent file name:', err);
+    });
+  };
+
   const handleSend = async () => {
-    if (!selectedFile || !receiverData) return;
+    const receivers = recipients.flatMap((r) => (
+      r.status === 'ready' && r.receiver ? [{ email: r.email, ...r.receiver }] : []
+    ));
+    if (!selectedFile || receivers.length === 0 || receivers.length !== recipients.length) return;
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setState('sending');
     setError('');
 
@@ -71,86 +265,206 @@ export function SendFile({ onBack }: SendFileProps) {
         throw new Error('Local keys not found');
       }
 
-      setProgress('Reading file...');
-      const fileBuffer = await selectedFile.arrayBuffer();
+      const senderId = getUserId();
+      if (!senderId) {
+        throw new Error('Session is missing your user id - please sign in again');
+      }
 
       setProgress('Generating encryption key...');
-      // Generate AES key and nonce
-      const aesKey = await generateAESKey();
+      // Generate AES key and base nonce
+      const aesKey = await generateContentKey();
       const nonce = generateNonce();
 
-      setProgress('Encrypting file...');
-      // Encrypt file with AES-256-GCM
-      const encryptedFileBuffer = await encryptFile(fileBuffer, aesKey, nonce);
-
-      // AES-GCM produces ciphertext + auth tag appended
-      // Auth tag is last 16 bytes
-      const encryptedFile = new Uint8Array(encryptedFileBuffer);
-      const authTagLength = 16;
-      const ciphertext = encryptedFile.slice(0, encryptedFile.length - authTagLength);
-      const authTag = encryptedFile.slice(encryptedFile.length - authTagLength);
-
-      setProgress('Encrypting key for receiver...');
-      // Parse receiver's public key (it's stored as JSON with encryption and signing keys)
-      let receiverEncryptionKey: string;
-      try {
-        const parsed = JSON.parse(receiverData.publicKey);
-        receiverEncryptionKey = parsed.encryption;
-      } catch {
-        // Fallback: use the key directly if not JSON
-        receiverEncryptionKey = receiverData.publicKey;
+      setProgress(receivers.length > 1 ? 'Encrypting key for each receiver...' : 'Encrypting key for receiver...');
+      // One content key for the file, wrapped separately to each receiver's public key
+      // with the suite of that receiver's keys, and hybrid when all of them support it
+      const kem = chooseKem(receivers);
+      const envelopeRecipients = await Promise.all(receivers.map(async (receiver) => {
+        const receiverKeys = parsePublicKeyBundle(receiver.publicKey);
+        const encryptedAESKey = await wrapContentKeyTo(aesKey, receiverKeys, kem);
+        return {
+          userId: receiver.userId,
+          keyId: receiverKeys.keyId,
+          suite: receiverKeys.suite,
+          ...(kem ? { kem } : {}),
+          encryptedKey: arrayBufferToBase64(encryptedAESKey),
+        };
+      }));
+
+      // Keep a copy of the AES key encrypted to ourselves so the upload can be resumed
+      const ownSuite = getSuite(keys.suite);
+      const ownPublicKey = await ownSuite.importEncryptionPublicKey(keys.encryptionPublicKey);
+      const selfEncryptedAESKey = await ownSuite.wrapContentKey(aesKey, ownPublicKey);
+
+      // Compress unless the type is already compressed or it would not get smaller.
+      // The upload size has to be known up front, so the compressed size is measured first.
+      let compression: CompressionAlgorithm = 'none';
+      let compressedSize = selectedFile.size;
+      if (isCompressible(selectedFile)) {
+        setProgress('Compressing...');
+        const measured = await measureCompressedSize(selectedFile, COMPRESSION_ALGORITHM, controller.signal);
+        if (measured < selectedFile.size) {
+          compression = COMPRESSION_ALGORITHM;
+          compressedSize = measured;
+        }
       }
 
-      // Import receiver's public key and encrypt AES key
-      const receiverPublicKey = await importPublicKey(receiverEncryptionKey);
-      const encryptedAESKey = await encryptAESKey(aesKey, receiverPublicKey);
-
-      setProgress('Creating digital signature...');
-      // Create hash of encrypted data + metadata for signing
-      const dataToSign = concatenateBuffers(
-        ciphertext.buffer as ArrayBuffer,
-        nonce.buffer as ArrayBuffer,
-        authTag.buffer as ArrayBuffer
-      );
-      const hash = await hashData(dataToSign);
+      // Padding hides the exact size; the real size is only in the encrypted header
+      const padding: PaddingScheme = padSize ? PADDING_SCHEME : 'none';
+      const paddedSize = paddedLength(compressedSize, padding);
 
-      // Sign the hash with sender's private signing key
-      const signingPrivateKey = await importSigningPrivateKey(keys.signingPrivateKey);
-      const signature = await signData(hash, signingPrivateKey);
+      // Metadata the signature will bind to the ciphertext, encrypted so only receivers can read it
+      const header = encodeFileHeader({
+        version: FILE_HEADER_VERSION,
+        senderId,
+        receiverIds: receivers.map((receiver) => receiver.userId),
+        fileName: selectedFile.name,
+        fileSize: selectedFile.size,
+        compression,
+        compressedSize,
+        padding,
+        mimeType: selectedFile.type || 'application/octet-stream',
+        lastModified: selectedFile.lastModified,
+        timestamp: new Date().toISOString(),
+        senderKeyId: keys.keyId,
+      });
 
-      setProgress('Uploading encrypted file...');
-      // Send to server
-      const result = await sendFile({
-        receiverId: receiverData.userId,
-        encryptedAESKey: arrayBufferToBase64(encryptedAESKey),
+      // Everything the receiver needs travels inside the envelope header
+      const envelope: EnvelopeFields = {
+        version: ENVELOPE_VERSION,
+        chunkSize: CHUNK_SIZE,
         nonce: arrayBufferToBase64(nonce.buffer as ArrayBuffer),
-        authTag: arrayBufferToBase64(authTag.buffer as ArrayBuffer),
-        signature: arrayBufferToBase64(signature),
-        senderPublicKey: keys.signingPublicKey,
-        file: new Blob([ciphertext]),
-        fileName: selectedFile.name,
+        metadata: await encryptMetadata(header, aesKey),
+        sender: {
+          userId: senderId,
+          keyId: keys.keyId,
+          suite: keys.suite,
+          signingPublicKey: keys.signingPublicKey,
+        },
+        recipients: envelopeRecipients,
+      };
+
+      // The ciphertext is uploaded once, however many receivers there are
+      setProgress('Starting upload...');
+      const { uploadId } = await initUpload({
+        receiverIds: receivers.map((receiver) => receiver.userId),
+        totalSize: encryptedSize(paddedSize, CHUNK_SIZE),
+        partSize: PART_SIZE,
       });
 
-      console.log('File sent:', result);
+      const upload: PendingUpload = {
+        uploadId,
+        recipients: receivers.map(({ userId, email }) => ({ userId, email })),
+        fileName: selectedFile.name,
+        fileSize: selectedFile.size,
+        fileLastModified: selectedFile.lastModified,
+        compression: compression === 'none' ? undefined : compression,
+        compressedSize: compression === 'none' ? undefined : compressedSize,
+        paddedSize: padding === 'none' ? undefined : paddedSize,
+        envelope,
+        selfEncryptedAESKey: arrayBufferToBase64(selfEncryptedAESKey),
+        keyId: keys.keyId,
+        partSize: PART_SIZE,
+        partDigests: [],
+        completedParts: [],
+        createdAt: new Date().toISOString(),
+      };
+      await savePendingUpload(upload);
+
+      await finishUpload(upload, selectedFile, aesKey, keys, controller.signal);
+
       setState('success');
       setProgress('');
     } catch (err) {
+      if (controller.signal.aborted) {
+        handleCancelled();
+        return;
+      }
       console.error('Send failed:', err);
       setError(err instanceof Error ? err.message : 'Failed to send file');
       setState('error');
       setProgress('');
+    } finally {
+      setTransfer(null);
+      refreshPendingUploads();
     }
   };
 
+  // Resume an interrupted upload once the user reselects the original file
+  const handleResume = async (upload: PendingUpload, file: File) => {
+    if (!matchesPendingUpload(upload, file)) {
+      setError(`Please select the original file "${upload.fileName}" to resume`);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState('sending');
+    setError('');
+
+    try {
+      const keys = await getKeys();
+      if (!keys) {
+        throw new Error('Local keys not found');
+      }
+
+      // The envelope names the signing key version, so the upload must finish under the same keys
+      if ((upload.keyId ?? INITIAL_KEY_ID) !== keys.keyId) {
+        throw new Error('Your keys were rotated after this upload started. Discard it and send the file again.');
+      }
+
+      setProgress('Recovering encryption key...');
+      const aesKey = await getSuite(keys.suite).unwrapContentKey(
+        base64ToArrayBuffer(upload.selfEncryptedAESKey),
+        keys.encryptionPrivateKey,
+        ['encrypt']
+      );
+
+      await finishUpload(upload, file, aesKey, keys, controller.signal);
+
+      setState('success');
+      setProgress('');
+    } catch (err) {
+      if (controller.signal.aborted) {
+        handleCancelled();
+        return;
+      }
+      console.error('Resume failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to resume upload');
+      setState('error');
+      setProgress('');
+    } finally {
+      setTransfer(null);
+      refreshPendingUploads();
+    }
+  };
+
+  // Parts sent before a cancel stay on the server, so the upload can be resumed later
+  const handleCancelled = () => {
+    setError('Upload cancelled. Unfinished uploads can be resumed below.');
+    setState('lookup');
+    setProgress('');
+  };
+
+  const handleDiscardUpload = async (upload: PendingUpload) => {
+    await deletePendingUpload(upload.uploadId);
+    refreshPendingUploads();
+  };
+
   const handleReset = () => {
     setState('lookup');
     setReceiverEmail('');
-    setReceiverData(null);
+    setRecipients([]);
+    setKeyChange(null);
     setSelectedFile(null);
     setError('');
     setProgress('');
   };
 
+  if (state === 'share') {
+    return <CreateShareLink onBack={() => setState('lookup')} />;
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b p-4">
@@ -167,36 +481,139 @@ export function SendFile({ onBack }: SendFileProps) {
           <div className="space-y-4">
             <div>
               <label className="block text-sm font-medium mb-2">
-                Receiver Email
+                Receiver Email or Group
               </label>
-              <Input
-                type="email"
-                value={receiverEmail}
-                onChange={(e) => setReceiverEmail(e.target.value)}
-                placeholder="receiver@email.com"
-              />
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  value={receiverEmail}
+                  onChange={(e) => setReceiverEmail(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleAddRecipient();
+                  }}
+                  placeholder="receiver@email.com or group name"
+                />
+                <Button onClick={handleAddRecipient} variant="outline">
+                  Add
+                </Button>
+              </div>
             </div>
 
             {error && (
               <p className="text-sm text-destructive">{error}</p>
             )}
 
+            {recipients.length > 0 && (
+              <div className="space-y-2">
+                {recipients.map((recipient) => (
+                  <div key={recipient.email} className="p-3 border rounded-lg flex justify-between items-center gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{recipient.email}</p>
+                      {recipient.status === 'looking-up' && (
+                        <p className="text-xs text-muted-foreground">Looking up...</p>
+                      )}
+                      {recipient.status === 'ready' && (
+                        <p className="text-xs text-muted-foreground">{recipient.isGroup ? 'Group' : 'Keys found'}</p>
+                      )}
+                      {recipient.status === 'key-changed' && (
+                        <p className="text-xs text-destructive">Keys changed - review before sending</p>
+                      )}
+                      {recipient.status === 'failed' && (
+                        <p className="text-xs text-destructive">{recipient.error}</p>
+                      )}
+                      {recipient.notFound && (
+                        <p className="text-xs text-muted-foreground">They can still get the file through a share link.</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {recipient.status === 'ready' && !recipient.isGroup && <VerificationBadge verified={recipient.verified} />}
+                      {recipient.status === 'key-changed' && (
+                        <Button onClick={() => setKeyChange(recipient)} variant="outline" size="sm">
+                          Review
+                        </Button>
+                      )}
+                      {recipient.notFound && (
+                        <Button onClick={() => setState('share')} variant="outline" size="sm">
+                          Share Link
+                        </Button>
+                      )}
+                      <Button onClick={() => handleRemoveRecipient(recipient.email)} variant="ghost" size="sm">
+                        Remove
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <Button 
-              onClick={handleLookupReceiver} 
+              onClick={() => setState('select')} 
               className="w-full"
-              disabled={!!progress}
+              disabled={recipients.length === 0 || recipients.some((r) => r.status !== 'ready')}
             >
-              {progress || 'Look Up Receiver'}
+              {recipients.some((r) => r.status === 'looking-up') ? 'Looking up receivers...' : 'Continue'}
             </Button>
+
+            {pendingUploads.length > 0 && (
+              <div className="pt-4 space-y-2">
+                <h2 className="text-sm font-medium">Unfinished Uploads</h2>
+                {pendingUploads.map((upload) => (
+                  <div key={upload.uploadId} className="p-4 border rounded-lg space-y-2">
+                    <p className="text-sm">
+                      <strong>{upload.fileName}</strong>
+                      <span className="text-muted-foreground"> to {upload.recipients.map((r) => r.email).join(', ')}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {upload.completedParts.length} of {Math.ceil(encryptedSize(uploadPlaintextSize(upload), upload.envelope.chunkSize) / upload.partSize)} parts uploaded
+                    </p>
+                    <div className="flex gap-2">
+                      <label className="flex-1">
+                        <input
+                          type="file"
+                          className="hidden"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleResume(upload, file);
+                          }}
+                        />
+                        <span className="inline-flex w-full items-center justify-center rounded-md bg-primary px-3 h-9 text-sm font-medium text-primary-foreground hover:bg-primary/90 cursor-pointer">
+                          Resume
+                        </span>
+                      </label>
+                      <Button
+                        onClick={() => handleDiscardUpload(upload)}
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                      >
+                        Discard
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
         {state === 'select' && (
           <div className="space-y-4">
-            <div className="p-4 bg-muted rounded-lg">
-              <p className="text-sm">
-                <span className="text-muted-foreground">Sending to: </span>
-                <strong>{receiverEmail}</strong>
+            <div className="p-4 bg-muted rounded-lg space-y-2">
+              <p className="text-sm text-muted-foreground">Sending to:</p>
+              {recipients.map((recipient) => (
+                <div key={recipient.email} className="flex justify-between items-center">
+                  <strong className="text-sm">{recipient.email}</strong>
+                  {recipient.isGroup ? (
+                    <span className="text-xs text-muted-foreground">Group</span>
+                  ) : (
+                    <VerificationBadge verified={recipient.verified} />
+                  )}
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                {chooseKem(recipients.flatMap((r) => (r.receiver ? [r.receiver] : [])))
+                  ? 'Post-quantum protected: the file key is wrapped with X25519 and ML-KEM-768.'
+                  : 'Not every recipient has post-quantum keys yet, so the file key is wrapped with classical encryption only.'}
               </p>
             </div>
 
@@ -229,6 +646,25 @@ export function SendFile({ onBack }: SendFileProps) {
               </div>
             )}
 
+            <label className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={padSize}
+                onChange={(e) => setPadSize(e.target.checked)}
+              />
+              <span>
+                Hide exact file size
+                <span className="block text-xs text-muted-foreground">
+                  {selectedFile && padSize && isCompressible(selectedFile)
+                    ? 'The file is compressed, then padded so the server only learns a size range.'
+                    : selectedFile && padSize
+                    ? `Uploads ${(paddedLength(selectedFile.size, PADDING_SCHEME) / 1024).toFixed(2)} KB so the server only learns a size range.`
+                    : 'Pads the file before encryption so the server only learns a size range.'}
+                </span>
+              </span>
+            </label>
+
             {error && (
               <p className="text-sm text-destructive">{error}</p>
             )}
@@ -254,6 +690,17 @@ export function SendFile({ onBack }: SendFileProps) {
               <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
             </div>
             <p className="text-muted-foreground">{progress}</p>
+            {transfer && (
+              <div className="space-y-1">
+                <Progress value={(transfer.bytes / transfer.total) * 100} />
+                <p className="text-xs text-muted-foreground">
+                  {(transfer.bytes / (1024 * 1024)).toFixed(1)} of {(transfer.total / (1024 * 1024)).toFixed(1)} MB
+                </p>
+              </div>
+            )}
+            <Button onClick={() => abortRef.current?.abort()} variant="outline" className="w-full">
+              Cancel
+            </Button>
           </div>
         )}
 
@@ -289,6 +736,14 @@ export function SendFile({ onBack }: SendFileProps) {
           </div>
         )}
       </main>
+
+      <KeyChangeWarning
+        open={!!keyChange}
+        contactName={keyChange?.email ?? ''}
+        pinnedAt={keyChange?.pinnedAt ?? ''}
+        onAccept={handleAcceptKeyChange}
+        onReject={handleRejectKeyChange}
+      />
     </div>
   );
 }
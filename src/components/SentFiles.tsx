@@ -0,0 +1,198 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { getSentFiles, getFileHeader, SentFile, SentFileRecipient } from '@/lib/api';
+import { parseGroupRecipientId } from '@/lib/groups';
+import { createReceiptVerifier, DeliveryReceipt } from '@/lib/receipts';
+import { getSentFileNames } from '@/lib/uploadStorage';
+
+interface SentFilesProps {
+  onBack: () => void;
+}
+
+// Receipts of one recipient after checking
+interface ReceiptCheck {
+  verified: DeliveryReceipt[];
+  invalid: number;
+}
+
+function receiptKey(fileId: string, recipientId: string): string {
+  return `${fileId}:${recipientId}`;
+}
+
+// The server reports delivery and downloads; only receipts that verify here count as verified
+async function checkReceipts(
+  file: SentFile,
+  verifyReceipt: ReturnType<typeof createReceiptVerifier>,
+  onChecked: (recipientId: string, check: ReceiptCheck) => void
+): Promise<void> {
+  const recipients = file.recipients.filter((r) => r.receipts.length > 0);
+  if (recipients.length === 0) return;
+
+  const envelope = await getFileHeader(file.fileId).catch((err) => {
+    console.error('Failed to read envelope for receipts:', err);
+    return null;
+  });
+  await Promise.all(recipients.map(async (recipient) => {
+    const results = await Promise.all(recipient.receipts.map((signed) => (
+      envelope
+        ? verifyReceipt(file.fileId, recipient.recipientId, signed, envelope).catch((err) => {
+          console.error('Receipt did not verify:', err);
+          return null;
+        })
+        : null
+    )));
+    const verified = results.filter((receipt): receipt is DeliveryReceipt => receipt !== null);
+    onChecked(recipient.recipientId, { verified, invalid: results.length - verified.length });
+  }));
+}
+
+function recipientName(recipient: SentFileRecipient): string {
+  if (recipient.email) return recipient.email;
+  return parseGroupRecipientId(recipient.recipientId) ? 'Group' : recipient.recipientId;
+}
+
+export function SentFiles({ onBack }: SentFilesProps) {
+  const [files, setFiles] = useState<SentFile[]>([]);
+  const [checks, setChecks] = useState<Record<string, ReceiptCheck>>({});
+  // Names kept by this device at send time; the server only has encrypted metadata
+  const [fileNames, setFileNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchSent = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const sentFiles = await getSentFiles();
+      setFileNames(await getSentFileNames().catch((err) => {
+        console.error('Failed to read sent file names:', err);
+        return new Map<string, string>();
+      }));
+      setFiles(sentFiles);
+      setChecks({});
+
+      const verifyReceipt = createReceiptVerifier();
+      sentFiles.forEach((file) => {
+        checkReceipts(file, verifyReceipt, (recipientId, check) => {
+          setChecks((current) => ({ ...current, [receiptKey(file.fileId, recipientId)]: check }));
+        });
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch sent files');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSent();
+  }, [fetchSent]);
+
+  const renderStatus = (file: SentFile, recipient: SentFileRecipient) => {
+    const check = checks[receiptKey(file.fileId, recipient.recipientId)];
+    if (recipient.receipts.length > 0 && !check) {
+      return <p className="text-xs text-muted-foreground">Checking receipt...</p>;
+    }
+    if (check && check.verified.length > 0) {
+      const latest = check.verified[check.verified.length - 1];
+      const members = new Set(check.verified.map((r) => r.signer.userId)).size;
+      return (
+        <p className="text-xs text-green-600">
+          {parseGroupRecipientId(recipient.recipientId)
+            ? `Verified by ${members} ${members === 1 ? 'member' : 'members'}`
+            : `Verified ${new Date(latest.verifiedAt).toLocaleString()}`}
+        </p>
+      );
+    }
+    return (
+      <>
+        <p className="text-xs text-muted-foreground">
+          {recipient.downloadedAt
+            ? `Downloaded ${new Date(recipient.downloadedAt).toLocaleString()}`
+            : recipient.deliveredAt
+              ? `Delivered ${new Date(recipient.deliveredAt).toLocaleString()}`
+              : 'Pending'}
+        </p>
+        {check && check.invalid > 0 && (
+          <p className="text-xs text-destructive">Receipt could not be verified</p>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b p-4">
+        <div className="max-w-4xl mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold">Sent Files</h1>
+          <Button onClick={onBack} variant="ghost" size="sm">
+            Back
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-lg font-semibold">Sent</h2>
+          <Button onClick={fetchSent} variant="outline" size="sm" disabled={loading}>
+            Refresh
+          </Button>
+        </div>
+
+        {loading && (
+          <div className="text-center py-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Loading...</p>
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="text-center py-8">
+            <p className="text-destructive">{error}</p>
+            <Button onClick={fetchSent} variant="outline" className="mt-4">
+              Retry
+            </Button>
+          </div>
+        )}
+
+        {!loading && !error && files.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">You have not sent any files</p>
+          </div>
+        )}
+
+        {!loading && !error && files.length > 0 && (
+          <div className="space-y-2">
+            {files.map((file) => {
+              const fileName = file.fileName ?? fileNames.get(file.fileId);
+              return (
+                <div key={file.fileId} className="p-4 border rounded-lg space-y-2">
+                  <div>
+                    <p className={`font-medium ${fileName ? '' : 'text-muted-foreground italic'}`}>
+                      {fileName ?? 'Encrypted file - name not kept on this device'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(file.uploadedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {file.recipients.map((recipient) => (
+                    <div key={recipient.recipientId} className="flex justify-between items-center gap-2 border-t pt-2">
+                      <p className="text-sm truncate">{recipientName(recipient)}</p>
+                      <div className="text-right shrink-0">
+                        {renderStatus(file, recipient)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <p className="mt-8 text-center text-xs text-muted-foreground">
+          A file counts as verified only when the recipient's signed receipt checks out on this device.
+        </p>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { Badge } from '@/components/ui/badge';
+
+interface VerificationBadgeProps {
+  verified: boolean;
+}
+
+// Shows whether a contact's safety number has been confirmed out-of-band
+export function VerificationBadge({ verified }: VerificationBadgeProps) {
+  return verified ? (
+    <Badge className="bg-green-600 hover:bg-green-600">Verified</Badge>
+  ) : (
+    <Badge variant="outline">Not verified</Badge>
+  );
+}
@@ -7,9 +7,37 @@ export const API_ENDPOINTS = {
   
   // Users
   USERS_PUBLIC_KEY: '/users/public-key',
+  USERS_ROTATE_KEY: '/users/public-key/rotate',
+  USERS_KEY_RECOVERY: '/users/key-recovery',
+  USERS_REVOKE_KEY: '/users/revoke-key',
+
+  // Device linking
+  DEVICES_PAIRING: '/devices/pairing',
+  DEVICES_PAIRING_SESSION: (pairingId: string) => `/devices/pairing/${pairingId}`,
+  DEVICES_PAIRING_RESPONSE: (pairingId: string) => `/devices/pairing/${pairingId}/response`,
+  DEVICES_PAIRING_BUNDLE: (pairingId: string) => `/devices/pairing/${pairingId}/bundle`,
   
   // Files
-  FILES_SEND: '/files/send',
   FILES_INBOX: '/files/inbox',
   FILES_DOWNLOAD: (fileId: string) => `/files/download/${fileId}`,
+  FILES_HEADER: (fileId: string) => `/files/header/${fileId}`,
+  FILES_SENT: '/files/sent',
+  FILES_RECEIPTS: (fileId: string) => `/files/${fileId}/receipts`,
+
+  // Share links (reading a share needs no account)
+  SHARES: '/shares',
+  SHARE: (shareId: string) => `/shares/${shareId}`,
+  SHARE_CONTENT: (shareId: string) => `/shares/${shareId}/content`,
+
+  // Groups
+  GROUPS: '/groups',
+  GROUP: (groupId: string) => `/groups/${groupId}`,
+  GROUP_CHANGES: (groupId: string) => `/groups/${groupId}/changes`,
+  GROUP_INBOX: (groupId: string) => `/groups/${groupId}/inbox`,
+
+  // Resumable uploads
+  UPLOADS_INIT: '/files/uploads',
+  UPLOADS_STATUS: (uploadId: string) => `/files/uploads/${uploadId}`,
+  UPLOADS_PART: (uploadId: string, partNumber: number) => `/files/uploads/${uploadId}/parts/${partNumber}`,
+  UPLOADS_COMPLETE: (uploadId: string) => `/files/uploads/${uploadId}/complete`,
 };
@@ -0,0 +1,4 @@
+// Size Padding Configuration
+// Organization default for padding sent files: 'padme', 'pow2' or 'none'.
+// Senders can still switch padding on or off for each file.
+export const DEFAULT_PADDING = import.meta.env.VITE_DEFAULT_PADDING || 'padme';
@@ -1,14 +1,32 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { isAuthenticated, setToken, clearToken } from '@/lib/api';
-import { hasKeys, clearKeys } from '@/lib/keyStorage';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { isAuthenticated, setToken, setUserId, clearToken } from '@/lib/api';
+import {
+  hasKeys,
+  clearKeys,
+  getKeyStatus,
+  unlockKeys,
+  protectKeys,
+  lockKeys,
+  KeyStatus,
+} from '@/lib/keyStorage';
+
+// Lock the keys after this long without user activity
+const AUTO_LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'];
 
 interface AuthContextType {
   isLoggedIn: boolean;
   hasKeyPair: boolean;
+  keyStatus: KeyStatus;
+  recoveryPhrase: string | null;
   setLoggedIn: (value: boolean) => void;
   setHasKeyPair: (value: boolean) => void;
-  login: (token: string) => void;
+  setRecoveryPhrase: (phrase: string | null) => void;
+  login: (token: string, userId: string) => void;
   logout: () => void;
+  unlock: (passphrase: string) => Promise<void>;
+  protect: (passphrase: string) => Promise<void>;
+  lock: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -16,6 +34,9 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [hasKeyPair, setHasKeyPair] = useState(false);
+  const [keyStatus, setKeyStatus] = useState<KeyStatus>('missing');
+  // Recovery phrase for a new account, kept only until the user confirms they wrote it down
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null);
 
   useEffect(() => {
     // Check authentication status on mount
@@ -25,8 +46,36 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     hasKeys().then(setHasKeyPair);
   }, []);
 
-  const login = (token: string) => {
+  // Keep the lock state in sync whenever keys appear or disappear
+  useEffect(() => {
+    getKeyStatus().then(setKeyStatus);
+  }, [hasKeyPair]);
+
+  const lock = useCallback(() => {
+    lockKeys();
+    getKeyStatus().then(setKeyStatus);
+  }, []);
+
+  // Auto-lock after a period of inactivity
+  useEffect(() => {
+    if (keyStatus !== 'unlocked') return;
+
+    let timer = setTimeout(lock, AUTO_LOCK_TIMEOUT_MS);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, AUTO_LOCK_TIMEOUT_MS);
+    };
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, resetTimer, { passive: true }));
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [keyStatus, lock]);
+
+  const login = (token: string, userId: string) => {
     setToken(token);
+    setUserId(userId);
     setIsLoggedIn(true);
   };
 
@@ -35,6 +84,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     clearKeys();
     setIsLoggedIn(false);
     setHasKeyPair(false);
+    setKeyStatus('missing');
+    setRecoveryPhrase(null);
+  };
+
+  const unlock = async (passphrase: string) => {
+    await unlockKeys(passphrase);
+    setKeyStatus(await getKeyStatus());
+  };
+
+  const protect = async (passphrase: string) => {
+    await protectKeys(passphrase);
+    setKeyStatus(await getKeyStatus());
   };
 
   const setLoggedIn = (value: boolean) => {
@@ -45,10 +106,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     <AuthContext.Provider value={{ 
       isLoggedIn, 
       hasKeyPair, 
+      keyStatus,
+      recoveryPhrase,
       setLoggedIn, 
       setHasKeyPair, 
+      setRecoveryPhrase,
       login, 
-      logout 
+      logout,
+      unlock,
+      protect,
+      lock,
     }}>
       {children}
     </AuthContext.Provider>
@@ -1,5 +1,14 @@
 // API Client for Zero-Trust File Sharing
 import { API_BASE_URL, API_ENDPOINTS } from '@/config/api';
+import { isSuiteId, LEGACY_SUITE_ID, SuiteId } from '@/lib/cryptoSuites';
+import { arrayBufferToBase64 } from '@/lib/crypto';
+import {
+  readEnvelope,
+  EnvelopeHeader,
+  EnvelopeRecipient,
+  ENVELOPE_MEDIA_TYPE,
+} from '@/lib/envelope';
+import { findRevocation } from '@/lib/revocation';
 
 // Get JWT from localStorage
 function getToken(): string | null {
@@ -11,9 +20,20 @@ export function setToken(token: string): void {
   localStorage.setItem('jwt', token);
 }
 
-// Clear JWT from localStorage
+// Clear JWT and user id from localStorage
 export function clearToken(): void {
   localStorage.removeItem('jwt');
+  localStorage.removeItem('userId');
+}
+
+// Get the signed-in user's id from localStorage
+export function getUserId(): string | null {
+  return localStorage.getItem('userId');
+}
+
+// Set the signed-in user's id in localStorage
+export function setUserId(userId: string): void {
+  localStorage.setItem('userId', userId);
 }
 
 // Check if user is authenticated
@@ -55,7 +75,7 @@ export async function authGoogle(credential: string): Promise<{ token: string; i
   return response.json();
 }
 
-// POST /users/public-key - Store user's public key (registration only)
+// POST /users/public-key - Store user's public key (registration only; later versions go through rotatePublicKey)
 export async function uploadPublicKey(publicKey: string): Promise<{ message: string }> {
   const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.USERS_PUBLIC_KEY}`, {
     method: 'POST',
@@ -71,13 +91,53 @@ export async function uploadPublicKey(publicKey: string): Promise<{ message: str
   return response.json();
 }
 
+// Key lookups also return every revocation certificate published for the user
+export interface PublishedKey {
+  userId: string;
+  publicKey: string;
+  revocations?: SignedRevocation[];
+}
+
+// Thrown when no account exists for an email, so the sender can fall back to a share link
+export class UserNotFoundError extends Error {
+  constructor(message = 'User not found') {
+    super(message);
+    this.name = 'UserNotFoundError';
+  }
+}
+
 // GET /users/public-key?email= - Get receiver's public key
-export async function getReceiverPublicKey(email: string): Promise<{ userId: string; publicKey: string }> {
+// Files are never encrypted to a key its owner has revoked
+export async function getReceiverPublicKey(email: string): Promise<PublishedKey> {
   const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.USERS_PUBLIC_KEY}?email=${encodeURIComponent(email)}`, {
     method: 'GET',
     headers: authHeaders(),
   });
   
+  if (!response.ok) {
+    const error = await response.json();
+    if (response.status === 404) {
+      throw new UserNotFoundError(error.error || undefined);
+    }
+    throw new Error(error.error || 'User not found');
+  }
+  
+  const published: PublishedKey = await response.json();
+  if (await findRevocation(published.userId, parsePublicKeyBundle(published.publicKey), published.revocations)) {
+    throw new Error(`${email} has revoked their keys and cannot receive files until they set up new ones`);
+  }
+  return published;
+}
+
+// GET /users/public-key?userId=&keyId= - Get a user's published public key by id
+// Without a keyId the current version is returned
+export async function getUserPublicKey(userId: string, keyId?: number): Promise<PublishedKey> {
+  const query = `userId=${encodeURIComponent(userId)}${keyId !== undefined ? `&keyId=${keyId}` : ''}`;
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.USERS_PUBLIC_KEY}?${query}`, {
+    method: 'GET',
+    headers: authHeaders(),
+  });
+  
   if (!response.ok) {
     const error = await response.json();
     throw new Error(error.error || 'User not found');
@@ -86,46 +146,281 @@ export async function getReceiverPublicKey(email: string): Promise<{ userId: str
   return response.json();
 }
 
-// POST /files/send - Upload encrypted file
-export interface SendFilePayload {
-  receiverId: string;
-  encryptedAESKey: string;
-  nonce: string;
-  authTag: string;
+export interface SignedRevocation {
+  // Canonical certificate bytes, base64
+  certificate: string;
   signature: string;
-  senderPublicKey: string;
-  file: Blob;
-  fileName: string;
+  // Set by the server when the certificate was published; not signed
+  publishedAt?: string;
 }
 
-export async function sendFile(payload: SendFilePayload): Promise<{ fileId: string; message: string }> {
-  const formData = new FormData();
-  formData.append('receiverId', payload.receiverId);
-  formData.append('encryptedAESKey', payload.encryptedAESKey);
-  formData.append('nonce', payload.nonce);
-  formData.append('authTag', payload.authTag);
-  formData.append('signature', payload.signature);
-  formData.append('senderPublicKey', payload.senderPublicKey);
-  formData.append('file', payload.file, payload.fileName);
-  
-  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.FILES_SEND}`, {
+// POST /users/revoke-key - Publish a certificate revoking one of our key versions
+// The certificate is signed by the revoked key itself, so any signed-in session can publish it
+export async function publishRevocation(revocation: SignedRevocation): Promise<{ message: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.USERS_REVOKE_KEY}`, {
+    method: 'POST',
+    headers: jsonAuthHeaders(),
+    body: JSON.stringify({ revocation: { certificate: revocation.certificate, signature: revocation.signature } }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to publish revocation');
+  }
+
+  return response.json();
+}
+
+// POST /users/public-key/rotate - Publish a new key version signed by the previous signing key,
+// or unsigned once the previous version is revoked
+export async function rotatePublicKey(publicKey: string): Promise<{ message: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.USERS_ROTATE_KEY}`, {
     method: 'POST',
+    headers: jsonAuthHeaders(),
+    body: JSON.stringify({ publicKey }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to publish rotated key');
+  }
+
+  return response.json();
+}
+
+// PUT /users/key-recovery - Store the key bundle encrypted under the recovery phrase
+export async function uploadRecoveryBundle(bundle: string): Promise<{ message: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.USERS_KEY_RECOVERY}`, {
+    method: 'PUT',
+    headers: jsonAuthHeaders(),
+    body: JSON.stringify({ bundle }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to upload recovery bundle');
+  }
+
+  return response.json();
+}
+
+// GET /users/key-recovery - Fetch the encrypted recovery bundle for this account
+export async function getRecoveryBundle(): Promise<{ bundle: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.USERS_KEY_RECOVERY}`, {
+    method: 'GET',
     headers: authHeaders(),
-    body: formData,
   });
-  
+
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.error || 'Failed to send file');
+    throw new Error(error.error || 'No recovery bundle found for this account');
   }
-  
+
+  return response.json();
+}
+
+// POST /devices/pairing - Open a pairing session for a new device
+export async function createPairingSession(publicKey: string): Promise<{ pairingId: string; expiresAt: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.DEVICES_PAIRING}`, {
+    method: 'POST',
+    headers: jsonAuthHeaders(),
+    body: JSON.stringify({ publicKey }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to start device linking');
+  }
+
+  return response.json();
+}
+
+// GET /devices/pairing/:pairingId - Current state of a pairing session
+// The server only relays ephemeral public keys and the encrypted bundle
+export interface PairingSession {
+  pairingId: string;
+  initiatorPublicKey: string;
+  responderPublicKey?: string;
+  bundle?: string;
+  expiresAt: string;
+}
+
+export async function getPairingSession(pairingId: string): Promise<PairingSession> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.DEVICES_PAIRING_SESSION(pairingId)}`, {
+    method: 'GET',
+    headers: authHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Pairing session not found or expired');
+  }
+
+  return response.json();
+}
+
+// PUT /devices/pairing/:pairingId/response - Existing device answers with its ephemeral key
+export async function respondToPairing(pairingId: string, publicKey: string): Promise<{ message: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.DEVICES_PAIRING_RESPONSE(pairingId)}`, {
+    method: 'PUT',
+    headers: jsonAuthHeaders(),
+    body: JSON.stringify({ publicKey }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to answer pairing request');
+  }
+
+  return response.json();
+}
+
+// PUT /devices/pairing/:pairingId/bundle - Relay the encrypted key bundle to the new device
+export async function sendPairingBundle(pairingId: string, bundle: string): Promise<{ message: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.DEVICES_PAIRING_BUNDLE(pairingId)}`, {
+    method: 'PUT',
+    headers: jsonAuthHeaders(),
+    body: JSON.stringify({ bundle }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to send keys to the new device');
+  }
+
+  return response.json();
+}
+
+// Published keys are a JSON bundle of encryption and signing keys; older entries are a bare encryption key.
+// Each bundle carries a keyId version. Bundles published before versioning count as version 1,
+// and bundles without a suite id hold RSA keys. Bundles may add an ML-KEM-768 key for
+// post-quantum hybrid encryption (see hybridKem.ts).
+export const INITIAL_KEY_ID = 1;
+
+// Signature by the previous version's signing key over the new bundle
+export interface KeyRotation {
+  previousKeyId: number;
+  signature: string;
+}
+
+export interface PublicKeyBundle {
+  suite: SuiteId;
+  encryption: string;
+  signing: string | null;
+  pqEncryption: string | null;
+  keyId: number;
+  rotation: KeyRotation | null;
+}
+
+export function parsePublicKeyBundle(publicKey: string): PublicKeyBundle {
+  try {
+    const parsed = JSON.parse(publicKey);
+    return {
+      suite: isSuiteId(parsed.suite) ? parsed.suite : LEGACY_SUITE_ID,
+      encryption: parsed.encryption,
+      signing: parsed.signing || null,
+      pqEncryption: typeof parsed.pqEncryption === 'string' ? parsed.pqEncryption : null,
+      keyId: Number.isSafeInteger(parsed.keyId) ? parsed.keyId : INITIAL_KEY_ID,
+      rotation: parsed.rotation || null,
+    };
+  } catch {
+    return { suite: LEGACY_SUITE_ID, encryption: publicKey, signing: null, pqEncryption: null, keyId: INITIAL_KEY_ID, rotation: null };
+  }
+}
+
+export function serializePublicKeyBundle(bundle: PublicKeyBundle): string {
+  return JSON.stringify({
+    suite: bundle.suite,
+    encryption: bundle.encryption,
+    signing: bundle.signing,
+    ...(bundle.pqEncryption ? { pqEncryption: bundle.pqEncryption } : {}),
+    keyId: bundle.keyId,
+    ...(bundle.rotation ? { rotation: bundle.rotation } : {}),
+  });
+}
+
+// POST /files/uploads - Start a resumable chunked upload
+// totalSize counts only the ciphertext chunks; the envelope prefix follows at completion.
+// The ciphertext is uploaded once and shared by the inbox entries of all receivers.
+// A share link's upload has no receivers; it is finalized by createShare instead.
+export interface UploadInitPayload {
+  receiverIds: string[];
+  totalSize: number;
+  partSize: number;
+}
+
+export async function initUpload(payload: UploadInitPayload): Promise<{ uploadId: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.UPLOADS_INIT}`, {
+    method: 'POST',
+    headers: jsonAuthHeaders(),
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to start upload');
+  }
+
+  return response.json();
+}
+
+// PUT /files/uploads/:uploadId/parts/:partNumber - Upload one part of the ciphertext
+export async function uploadPart(uploadId: string, partNumber: number, data: Blob): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.UPLOADS_PART(uploadId, partNumber)}`, {
+    method: 'PUT',
+    headers: {
+      ...authHeaders(),
+      'Content-Type': 'application/octet-stream',
+    },
+    body: data,
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || `Failed to upload part ${partNumber}`);
+  }
+}
+
+// GET /files/uploads/:uploadId - Parts the server has already received
+export async function getUploadStatus(uploadId: string): Promise<{ receivedParts: number[] }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.UPLOADS_STATUS(uploadId)}`, {
+    method: 'GET',
+    headers: authHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch upload status');
+  }
+
+  return response.json();
+}
+
+// POST /files/uploads/:uploadId/complete - Finalize the upload with the signed envelope prefix
+// The server stores the prefix followed by the uploaded parts, which together form the envelope
+export async function completeUpload(
+  uploadId: string,
+  envelopePrefix: Uint8Array<ArrayBuffer>
+): Promise<{ fileId: string; message: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.UPLOADS_COMPLETE(uploadId)}`, {
+    method: 'POST',
+    headers: jsonAuthHeaders(),
+    body: JSON.stringify({ envelopePrefix: arrayBufferToBase64(envelopePrefix.buffer) }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to complete upload');
+  }
+
   return response.json();
 }
 
 // GET /files/inbox - List incoming files
 export interface InboxFile {
   fileId: string;
-  fileName: string;
+  // Only for files sent before metadata was encrypted; envelope files carry their name inside
+  fileName?: string;
   senderId: string;
   senderEmail?: string;
   uploadedAt: string;
@@ -145,17 +440,227 @@ export async function getInbox(): Promise<InboxFile[]> {
   return response.json();
 }
 
+// Delivery receipts
+// Receipts are opaque to the server: each is a canonical encoding signed by the receiver
+export interface SignedReceipt {
+  // Canonical receipt bytes, base64
+  receipt: string;
+  signature: string;
+}
+
+// POST /files/:fileId/receipts - Post a signed receipt for a file we verified
+export async function postReceipt(fileId: string, receipt: SignedReceipt): Promise<{ message: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.FILES_RECEIPTS(fileId)}`, {
+    method: 'POST',
+    headers: jsonAuthHeaders(),
+    body: JSON.stringify({ receipt }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to send receipt');
+  }
+
+  return response.json();
+}
+
+// GET /files/sent - List files we sent, with delivery status per recipient
+export interface SentFileRecipient {
+  // User id, or group:<groupId> for a file sent to a group
+  recipientId: string;
+  email?: string;
+  // Reported by the server; only the receipts are signed
+  deliveredAt: string | null;
+  downloadedAt: string | null;
+  // For a group, one receipt per member that verified the file
+  receipts: SignedReceipt[];
+}
+
+export interface SentFile {
+  fileId: string;
+  // Only for files sent before metadata was encrypted
+  fileName?: string;
+  uploadedAt: string;
+  recipients: SentFileRecipient[];
+}
+
+export async function getSentFiles(): Promise<SentFile[]> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.FILES_SENT}`, {
+    method: 'GET',
+    headers: authHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch sent files');
+  }
+
+  return response.json();
+}
+
+// Groups
+// Group states are opaque to the server: each is a canonical encoding signed by a group admin
+export interface SignedGroupState {
+  // Canonical group state bytes, base64
+  state: string;
+  signature: string;
+}
+
+export interface GroupKeyEpoch {
+  keyEpoch: number;
+  // Group private key (PKCS#8) encrypted under the epoch key: nonce || AES-GCM ciphertext, base64
+  encryptedPrivateKey: string;
+  // The epoch key wrapped to each member; the server only returns the caller's own grant
+  grants: EnvelopeRecipient[];
+}
+
+export interface GroupSummary {
+  groupId: string;
+  name: string;
+}
+
+export interface GroupDetails {
+  groupId: string;
+  history: SignedGroupState[];
+  keys: GroupKeyEpoch[];
+}
+
+// One membership change: the new signed state, plus either a new key epoch (on creation
+// and removal) or grants of the current epoch key for members being added
+export interface GroupChange {
+  update: SignedGroupState;
+  key?: GroupKeyEpoch;
+  grants?: EnvelopeRecipient[];
+}
+
+// GET /groups - List the groups the user belongs to
+export async function getGroups(): Promise<GroupSummary[]> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.GROUPS}`, {
+    method: 'GET',
+    headers: authHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch groups');
+  }
+
+  return response.json();
+}
+
+// POST /groups - Create a group from its first signed state
+export async function createGroup(change: GroupChange): Promise<{ groupId: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.GROUPS}`, {
+    method: 'POST',
+    headers: jsonAuthHeaders(),
+    body: JSON.stringify(change),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to create group');
+  }
+
+  return response.json();
+}
+
+// GET /groups/:groupId - Signed history and the caller's key grants
+export async function getGroup(groupId: string): Promise<GroupDetails> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.GROUP(groupId)}`, {
+    method: 'GET',
+    headers: authHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Group not found');
+  }
+
+  return response.json();
+}
+
+// POST /groups/:groupId/changes - Append a signed membership change
+export async function submitGroupChange(groupId: string, change: GroupChange): Promise<{ message: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.GROUP_CHANGES(groupId)}`, {
+    method: 'POST',
+    headers: jsonAuthHeaders(),
+    body: JSON.stringify(change),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to update group');
+  }
+
+  return response.json();
+}
+
+// GET /groups/:groupId/inbox - List files sent to a group
+export async function getGroupInbox(groupId: string): Promise<InboxFile[]> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.GROUP_INBOX(groupId)}`, {
+    method: 'GET',
+    headers: authHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch group inbox');
+  }
+
+  return response.json();
+}
+
+// GET /files/header/:fileId - Just the envelope prefix of a file, for reading its metadata
+// without downloading the ciphertext
+export async function getFileHeader(fileId: string): Promise<EnvelopeHeader> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.FILES_HEADER(fileId)}`, {
+    method: 'GET',
+    headers: authHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch file header');
+  }
+  if (!response.body) {
+    throw new Error('File header response was empty');
+  }
+
+  const { header, ciphertext } = await readEnvelope(response.body);
+  await ciphertext.cancel();
+  return header;
+}
+
 // GET /files/download/:fileId - Download encrypted file
-export interface DownloadedFile {
-  encryptedFile: Blob;
+// The ciphertext is returned as a stream so large files never have to fit in memory.
+// Files are envelopes; files sent before the envelope format arrive with loose fields.
+export interface EnvelopeDownload {
+  format: 'envelope';
+  header: EnvelopeHeader;
+  // Ciphertext chunks following the envelope prefix
+  encryptedFile: ReadableStream<Uint8Array>;
+  encryptedSize: number | null;
+}
+
+export interface LegacyDownload {
+  format: 'legacy';
+  encryptedFile: ReadableStream<Uint8Array>;
+  encryptedSize: number | null;
   encryptedAESKey: string;
   nonce: string;
   authTag: string;
+  chunkSize?: number;
+  header?: string;
+  suite?: SuiteId;
+  recipientKeyId?: number;
+  senderKeyId?: number;
   signature: string;
   senderPublicKey: string;
   fileName: string;
 }
 
+export type DownloadedFile = EnvelopeDownload | LegacyDownload;
+
 export async function downloadFile(fileId: string): Promise<DownloadedFile> {
   const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.FILES_DOWNLOAD(fileId)}`, {
     method: 'GET',
@@ -169,31 +674,146 @@ export async function downloadFile(fileId: string): Promise<DownloadedFile> {
   
   // Parse multipart response or JSON with blob
   const contentType = response.headers.get('content-type');
+
+  if (contentType?.includes(ENVELOPE_MEDIA_TYPE)) {
+    if (!response.body) {
+      throw new Error('Download returned no data');
+    }
+    const contentLength = response.headers.get('content-length');
+    const { header, headerLength, ciphertext } = await readEnvelope(response.body);
+    return {
+      format: 'envelope',
+      header,
+      encryptedFile: ciphertext,
+      encryptedSize: contentLength ? Number(contentLength) - headerLength : null,
+    };
+  }
   
   if (contentType?.includes('application/json')) {
     // JSON response with base64 encoded file
     const data = await response.json();
     const fileBlob = new Blob([Uint8Array.from(atob(data.encryptedFile), c => c.charCodeAt(0))]);
     return {
-      encryptedFile: fileBlob,
+      format: 'legacy',
+      encryptedFile: fileBlob.stream(),
+      encryptedSize: fileBlob.size,
       encryptedAESKey: data.encryptedAESKey,
       nonce: data.nonce,
       authTag: data.authTag,
+      chunkSize: data.chunkSize ? Number(data.chunkSize) : undefined,
+      header: data.header || undefined,
+      suite: isSuiteId(data.suite) ? data.suite : undefined,
+      recipientKeyId: data.recipientKeyId ? Number(data.recipientKeyId) : undefined,
+      senderKeyId: data.senderKeyId ? Number(data.senderKeyId) : undefined,
       signature: data.signature,
       senderPublicKey: data.senderPublicKey,
       fileName: data.fileName,
     };
   } else {
-    // Assume blob response with metadata in headers
-    const blob = await response.blob();
+    // Assume streamed body with metadata in headers
+    if (!response.body) {
+      throw new Error('Download returned no data');
+    }
+    const contentLength = response.headers.get('content-length');
     return {
-      encryptedFile: blob,
+      format: 'legacy',
+      encryptedFile: response.body,
+      encryptedSize: contentLength ? Number(contentLength) : null,
       encryptedAESKey: response.headers.get('X-Encrypted-AES-Key') || '',
       nonce: response.headers.get('X-Nonce') || '',
       authTag: response.headers.get('X-Auth-Tag') || '',
+      chunkSize: response.headers.get('X-Chunk-Size') ? Number(response.headers.get('X-Chunk-Size')) : undefined,
+      header: response.headers.get('X-File-Header') || undefined,
+      suite: isSuiteId(response.headers.get('X-Crypto-Suite')) ? response.headers.get('X-Crypto-Suite') as SuiteId : undefined,
+      recipientKeyId: response.headers.get('X-Recipient-Key-Id') ? Number(response.headers.get('X-Recipient-Key-Id')) : undefined,
+      senderKeyId: response.headers.get('X-Sender-Key-Id') ? Number(response.headers.get('X-Sender-Key-Id')) : undefined,
       signature: response.headers.get('X-Signature') || '',
       senderPublicKey: response.headers.get('X-Sender-Public-Key') || '',
       fileName: response.headers.get('X-File-Name') || 'downloaded-file',
     };
   }
 }
+
+// Share links
+// The server stores the ciphertext with public parameters and enforces expiry and the
+// download limit. The key is only ever in the link fragment, which browsers never send.
+export interface ShareFields {
+  version: number;
+  chunkSize: number;
+  // Base nonce for the chunked AES-GCM stream, base64
+  nonce: string;
+  // Salt for deriving the content key (and the passphrase key, if any), base64
+  salt: string;
+  // PBKDF2 iterations for the passphrase, or null when the link has none
+  passphraseIterations: number | null;
+  // Encrypted file metadata, nonce || AES-GCM ciphertext; base64
+  metadata: string;
+}
+
+export interface CreateSharePayload {
+  share: ShareFields;
+  // Chunked upload holding every part of the ciphertext
+  uploadId: string;
+  expiresAt: string | null;
+  maxDownloads: number | null;
+}
+
+// POST /shares - Turn a finished chunked upload into a share link
+export async function createShare(payload: CreateSharePayload): Promise<{ shareId: string }> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.SHARES}`, {
+    method: 'POST',
+    headers: jsonAuthHeaders(),
+    body: JSON.stringify({
+      ...payload.share,
+      uploadId: payload.uploadId,
+      expiresAt: payload.expiresAt,
+      maxDownloads: payload.maxDownloads,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to create share link');
+  }
+
+  return response.json();
+}
+
+export interface ShareInfo extends ShareFields {
+  shareId: string;
+  expiresAt: string | null;
+  // Downloads left before the link stops working, or null for no limit
+  downloadsRemaining: number | null;
+  encryptedSize: number;
+}
+
+// GET /shares/:shareId - Public parameters of a share link; no account needed
+export async function getShare(shareId: string): Promise<ShareInfo> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.SHARE(shareId)}`, {
+    method: 'GET',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'This link does not exist, has expired or reached its download limit');
+  }
+
+  return response.json();
+}
+
+// GET /shares/:shareId/content - Stream the ciphertext; each request counts as a download
+export async function downloadShare(shareId: string): Promise<ReadableStream<Uint8Array>> {
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.SHARE_CONTENT(shareId)}`, {
+    method: 'GET',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'This link has expired or reached its download limit');
+  }
+  if (!response.body) {
+    throw new Error('Download returned no data');
+  }
+
+  return response.body;
+}
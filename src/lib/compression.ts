@@ -0,0 +1,80 @@
+// Compression before encryption
+// Compressible files are run through CompressionStream before they are padded and
+// encrypted. The algorithm and compressed size go into the encrypted, signed file
+// header, and the receiver decompresses as it decrypts. The compressed size depends on
+// the content; size padding keeps most of that from the server.
+
+import { createProgressStream } from '@/lib/streamDownload';
+
+export type CompressionAlgorithm = 'none' | 'gzip' | 'deflate';
+
+// Algorithm used for new sends
+export const COMPRESSION_ALGORITHM: CompressionAlgorithm = 'gzip';
+
+// Media types whose content is already compressed
+const COMPRESSED_TYPE_PREFIXES = ['image/', 'video/', 'audio/', 'font/woff'];
+const COMPRESSED_TYPES = new Set([
+  'application/zip',
+  'application/gzip',
+  'application/x-gzip',
+  'application/x-7z-compressed',
+  'application/x-rar-compressed',
+  'application/vnd.rar',
+  'application/x-bzip2',
+  'application/x-xz',
+  'application/zstd',
+  'application/pdf',
+  'application/epub+zip',
+  'application/java-archive',
+  'application/vnd.android.package-archive',
+]);
+// Checked by extension too, since browsers often report an empty or generic type
+const COMPRESSED_EXTENSIONS = new Set([
+  'zip', 'gz', 'tgz', '7z', 'rar', 'bz2', 'xz', 'zst', 'br', 'pdf',
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'heic', 'avif',
+  'mp4', 'mov', 'mkv', 'webm', 'mp3', 'm4a', 'aac', 'ogg', 'flac',
+  'docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'epub', 'jar', 'apk',
+]);
+
+export function isCompressionAlgorithm(value: unknown): value is CompressionAlgorithm {
+  return value === 'none' || value === 'gzip' || value === 'deflate';
+}
+
+// Skip files that would not get smaller
+export function isCompressible(file: { name: string; type: string }): boolean {
+  const type = file.type.toLowerCase();
+  if (COMPRESSED_TYPES.has(type) || COMPRESSED_TYPE_PREFIXES.some((prefix) => type.startsWith(prefix))) {
+    return false;
+  }
+  const extension = file.name.toLowerCase().split('.').pop() ?? '';
+  return !COMPRESSED_EXTENSIONS.has(extension);
+}
+
+export function createCompressionStream(algorithm: CompressionAlgorithm): TransformStream<Uint8Array, Uint8Array> {
+  if (algorithm === 'none') {
+    return new TransformStream<Uint8Array, Uint8Array>();
+  }
+  return new CompressionStream(algorithm) as unknown as TransformStream<Uint8Array, Uint8Array>;
+}
+
+export function createDecompressionStream(algorithm: CompressionAlgorithm): TransformStream<Uint8Array, Uint8Array> {
+  if (algorithm === 'none') {
+    return new TransformStream<Uint8Array, Uint8Array>();
+  }
+  return new DecompressionStream(algorithm) as unknown as TransformStream<Uint8Array, Uint8Array>;
+}
+
+// Compressed size of a file, measured without keeping the output.
+// The upload size must be known before the first part is sent.
+export async function measureCompressedSize(
+  file: Blob,
+  algorithm: CompressionAlgorithm,
+  signal?: AbortSignal
+): Promise<number> {
+  let size = 0;
+  await file.stream()
+    .pipeThrough(createCompressionStream(algorithm))
+    .pipeThrough(createProgressStream((bytes) => { size = bytes; }))
+    .pipeTo(new WritableStream(), { signal });
+  return size;
+}
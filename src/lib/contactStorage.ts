@@ -0,0 +1,233 @@
+// Contact key pinning (trust on first use)
+// The first keys seen for a contact are pinned in IndexedDB; later lookups are
+// compared against them so a server-side key swap is detected.
+// Pins are kept per signed-in account and survive signing out; losing them would
+// turn the next lookup into a first use again.
+
+import { getUserId, INITIAL_KEY_ID, PublicKeyBundle } from '@/lib/api';
+import { LEGACY_SUITE_ID, SuiteId } from '@/lib/cryptoSuites';
+import { getVerifiedKeyVersion } from '@/lib/keyRotation';
+
+// One database per account: `vortex-contacts:<userId>`
+const DB_NAME = 'vortex-contacts';
+const DB_VERSION = 1;
+const STORE_NAME = 'contacts';
+const EMAIL_INDEX = 'email';
+
+export interface PinnedContact {
+  userId: string;
+  email: string | null;
+  encryptionPublicKey: string;
+  signingPublicKey: string | null;
+  // ML-KEM key; absent for contacts pinned before post-quantum support or without one
+  pqEncryptionPublicKey?: string | null;
+  // Key version and suite of the pinned keys; absent for contacts pinned before key versioning
+  keyId?: number;
+  suite?: SuiteId;
+  pinnedAt: string;
+  // Set once the safety number was compared out-of-band; cleared whenever the keys change
+  verifiedAt: string | null;
+}
+
+export type KeyCheckResult =
+  | { status: 'new' }
+  | { status: 'match'; pinned: PinnedContact }
+  // Newer key version reached by a chain of rotations signed from the pinned keys
+  | { status: 'rotated'; pinned: PinnedContact }
+  | { status: 'changed'; pinned: PinnedContact };
+
+function openDatabase(name: string): Promise<{ db: IDBDatabase; created: boolean }> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    let created = false;
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve({ db: request.result, created });
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      created = event.oldVersion === 0;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'userId' });
+        store.createIndex(EMAIL_INDEX, 'email', { unique: false });
+      }
+    };
+  });
+}
+
+// Pins from before they were kept per account were cleared on every sign-out,
+// so the shared database only holds pins of the account signed in now
+async function adoptUnscopedContacts(db: IDBDatabase): Promise<void> {
+  const { db: legacy, created } = await openDatabase(DB_NAME);
+  const contacts = created ? [] : await new Promise<PinnedContact[]>((resolve, reject) => {
+    const transaction = legacy.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).getAll();
+
+    transaction.oncomplete = () => resolve(request.result as PinnedContact[]);
+    transaction.onerror = () => reject(transaction.error);
+  });
+  legacy.close();
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    contacts.forEach((contact) => store.put(contact));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  indexedDB.deleteDatabase(DB_NAME);
+}
+
+// The pin database of the signed-in account
+async function openDB(): Promise<IDBDatabase> {
+  const accountId = getUserId();
+  if (!accountId) {
+    throw new Error('Session is missing your user id - please sign in again');
+  }
+  const { db, created } = await openDatabase(`${DB_NAME}:${accountId}`);
+  if (created) {
+    await adoptUnscopedContacts(db);
+  }
+  return db;
+}
+
+export async function getPinnedContact(userId: string): Promise<PinnedContact | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).get(userId);
+
+    transaction.oncomplete = () => resolve((request.result as PinnedContact) || null);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function getPinnedContactByEmail(email: string): Promise<PinnedContact | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).index(EMAIL_INDEX).get(email);
+
+    transaction.oncomplete = () => resolve((request.result as PinnedContact) || null);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function getPinnedContacts(): Promise<PinnedContact[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).getAll();
+
+    transaction.oncomplete = () => resolve(request.result as PinnedContact[]);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Pin (or re-pin after an accepted change) a contact's keys.
+// A signed rotation keeps the verification, since the verified key vouched for the new one.
+export async function pinContactKeys(
+  userId: string,
+  email: string | null,
+  keys: PublicKeyBundle,
+  keepVerification = false
+): Promise<PinnedContact> {
+  const existing = await getPinnedContact(userId);
+  const previousForEmail = email ? await getPinnedContactByEmail(email) : null;
+  const contact: PinnedContact = {
+    ...existing,
+    userId,
+    email: email ?? existing?.email ?? null,
+    encryptionPublicKey: keys.encryption,
+    signingPublicKey: keys.signing,
+    pqEncryptionPublicKey: keys.pqEncryption,
+    keyId: keys.keyId,
+    suite: keys.suite,
+    pinnedAt: new Date().toISOString(),
+    verifiedAt: keepVerification ? existing?.verifiedAt ?? null : null,
+  };
+
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    store.put(contact);
+    // The email now belongs to a different account; drop the stale pin
+    if (previousForEmail && previousForEmail.userId !== userId) {
+      store.delete(previousForEmail.userId);
+    }
+
+    transaction.oncomplete = () => resolve(contact);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Mark a contact's currently pinned keys as verified by safety number
+export async function markContactVerified(userId: string): Promise<PinnedContact> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(userId);
+    let contact: PinnedContact | undefined;
+
+    request.onsuccess = () => {
+      contact = request.result as PinnedContact | undefined;
+      if (contact) {
+        contact.verifiedAt = new Date().toISOString();
+        store.put(contact);
+      }
+    };
+
+    transaction.oncomplete = () => contact ? resolve(contact) : reject(new Error('Contact not found'));
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Compare keys returned by the server with the pinned ones.
+// A contact pinned under the same email but a different user id also counts as a change.
+export async function checkContactKeys(
+  userId: string,
+  email: string | null,
+  keys: PublicKeyBundle
+): Promise<KeyCheckResult> {
+  const pinned = (await getPinnedContact(userId)) ?? (email ? await getPinnedContactByEmail(email) : null);
+  if (!pinned) {
+    return { status: 'new' };
+  }
+
+  const matches =
+    pinned.userId === userId &&
+    pinned.encryptionPublicKey === keys.encryption &&
+    (pinned.signingPublicKey ?? null) === (keys.signing ?? null) &&
+    (pinned.pqEncryptionPublicKey ?? null) === (keys.pqEncryption ?? null);
+
+  if (matches) {
+    return { status: 'match', pinned };
+  }
+
+  // Follow the rotation chain from the pinned version, which must still hold the pinned keys
+  const pinnedKeyId = pinned.keyId ?? INITIAL_KEY_ID;
+  const rotated = pinned.userId === userId && pinnedKeyId < keys.keyId && await getVerifiedKeyVersion(userId, pinnedKeyId, keys)
+    .then((version) =>
+      version.encryption === pinned.encryptionPublicKey &&
+      version.signing === pinned.signingPublicKey &&
+      version.suite === (pinned.suite ?? LEGACY_SUITE_ID)
+    )
+    .catch(() => false);
+  return rotated ? { status: 'rotated', pinned } : { status: 'changed', pinned };
+}
+
+// Forget every pin of the signed-in account. Only for removing the account from this
+// device; signing out keeps the pins.
+export async function clearContacts(): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
@@ -1,9 +1,21 @@
 // Zero-Trust Cryptographic Operations
 // All crypto happens client-side - server never sees plaintext
 
+// RSA key algorithms used for import and unwrapping; the RSA functions below back
+// the legacy suite in cryptoSuites.ts
+export const ENCRYPTION_KEY_ALGORITHM: RsaHashedImportParams = {
+  name: 'RSA-OAEP',
+  hash: 'SHA-256',
+};
+
+export const SIGNING_KEY_ALGORITHM: RsaHashedImportParams = {
+  name: 'RSA-PSS',
+  hash: 'SHA-256',
+};
+
 // Generate RSA key pair for asymmetric encryption
 export async function generateKeyPair(): Promise<CryptoKeyPair> {
-  return await window.crypto.subtle.generateKey(
+  return await crypto.subtle.generateKey(
     {
       name: 'RSA-OAEP',
       modulusLength: 2048,
@@ -17,7 +29,7 @@ export async function generateKeyPair(): Promise<CryptoKeyPair> {
 
 // Generate RSA key pair for signing
 export async function generateSigningKeyPair(): Promise<CryptoKeyPair> {
-  return await window.crypto.subtle.generateKey(
+  return await crypto.subtle.generateKey(
     {
       name: 'RSA-PSS',
       modulusLength: 2048,
@@ -31,20 +43,20 @@ export async function generateSigningKeyPair(): Promise<CryptoKeyPair> {
 
 // Export public key to base64
 export async function exportPublicKey(key: CryptoKey): Promise<string> {
-  const exported = await window.crypto.subtle.exportKey('spki', key);
+  const exported = await crypto.subtle.exportKey('spki', key);
   return arrayBufferToBase64(exported);
 }
 
 // Export private key to base64
 export async function exportPrivateKey(key: CryptoKey): Promise<string> {
-  const exported = await window.crypto.subtle.exportKey('pkcs8', key);
+  const exported = await crypto.subtle.exportKey('pkcs8', key);
   return arrayBufferToBase64(exported);
 }
 
 // Import public key from base64
 export async function importPublicKey(base64Key: string): Promise<CryptoKey> {
   const keyData = base64ToArrayBuffer(base64Key);
-  return await window.crypto.subtle.importKey(
+  return await crypto.subtle.importKey(
     'spki',
     keyData,
     {
@@ -56,17 +68,14 @@ export async function importPublicKey(base64Key: string): Promise<CryptoKey> {
   );
 }
 
-// Import private key from base64
-export async function importPrivateKey(base64Key: string): Promise<CryptoKey> {
+// Import private key from base64 (non-extractable unless explicitly requested)
+export async function importPrivateKey(base64Key: string, extractable = false): Promise<CryptoKey> {
   const keyData = base64ToArrayBuffer(base64Key);
-  return await window.crypto.subtle.importKey(
+  return await crypto.subtle.importKey(
     'pkcs8',
     keyData,
-    {
-      name: 'RSA-OAEP',
-      hash: 'SHA-256',
-    },
-    true,
+    ENCRYPTION_KEY_ALGORITHM,
+    extractable,
     ['decrypt']
   );
 }
@@ -74,7 +83,7 @@ export async function importPrivateKey(base64Key: string): Promise<CryptoKey> {
 // Import signing public key from base64
 export async function importSigningPublicKey(base64Key: string): Promise<CryptoKey> {
   const keyData = base64ToArrayBuffer(base64Key);
-  return await window.crypto.subtle.importKey(
+  return await crypto.subtle.importKey(
     'spki',
     keyData,
     {
@@ -86,24 +95,21 @@ export async function importSigningPublicKey(base64Key: string): Promise<CryptoK
   );
 }
 
-// Import signing private key from base64
-export async function importSigningPrivateKey(base64Key: string): Promise<CryptoKey> {
+// Import signing private key from base64 (non-extractable unless explicitly requested)
+export async function importSigningPrivateKey(base64Key: string, extractable = false): Promise<CryptoKey> {
   const keyData = base64ToArrayBuffer(base64Key);
-  return await window.crypto.subtle.importKey(
+  return await crypto.subtle.importKey(
     'pkcs8',
     keyData,
-    {
-      name: 'RSA-PSS',
-      hash: 'SHA-256',
-    },
-    true,
+    SIGNING_KEY_ALGORITHM,
+    extractable,
     ['sign']
   );
 }
 
 // Generate random AES-256-GCM key
 export async function generateAESKey(): Promise<CryptoKey> {
-  return await window.crypto.subtle.generateKey(
+  return await crypto.subtle.generateKey(
     {
       name: 'AES-GCM',
       length: 256,
@@ -115,7 +121,7 @@ export async function generateAESKey(): Promise<CryptoKey> {
 
 // Generate random nonce (IV) for AES-GCM
 export function generateNonce(): Uint8Array {
-  return window.crypto.getRandomValues(new Uint8Array(12));
+  return crypto.getRandomValues(new Uint8Array(12));
 }
 
 // Encrypt file using AES-256-GCM
@@ -124,7 +130,7 @@ export async function encryptFile(
   aesKey: CryptoKey,
   nonce: Uint8Array
 ): Promise<ArrayBuffer> {
-  return await window.crypto.subtle.encrypt(
+  return await crypto.subtle.encrypt(
     {
       name: 'AES-GCM',
       iv: nonce as Uint8Array<ArrayBuffer>,
@@ -140,7 +146,7 @@ export async function decryptFile(
   aesKey: CryptoKey,
   nonce: Uint8Array
 ): Promise<ArrayBuffer> {
-  return await window.crypto.subtle.decrypt(
+  return await crypto.subtle.decrypt(
     {
       name: 'AES-GCM',
       iv: nonce as Uint8Array<ArrayBuffer>,
@@ -155,8 +161,8 @@ export async function encryptAESKey(
   aesKey: CryptoKey,
   receiverPublicKey: CryptoKey
 ): Promise<ArrayBuffer> {
-  const rawKey = await window.crypto.subtle.exportKey('raw', aesKey);
-  return await window.crypto.subtle.encrypt(
+  const rawKey = await crypto.subtle.exportKey('raw', aesKey);
+  return await crypto.subtle.encrypt(
     {
       name: 'RSA-OAEP',
     },
@@ -168,16 +174,17 @@ export async function encryptAESKey(
 // Decrypt AES key using receiver's RSA private key
 export async function decryptAESKey(
   encryptedAESKey: ArrayBuffer,
-  privateKey: CryptoKey
+  privateKey: CryptoKey,
+  usages: KeyUsage[] = ['decrypt']
 ): Promise<CryptoKey> {
-  const rawKey = await window.crypto.subtle.decrypt(
+  const rawKey = await crypto.subtle.decrypt(
     {
       name: 'RSA-OAEP',
     },
     privateKey,
     encryptedAESKey
   );
-  return await window.crypto.subtle.importKey(
+  return await crypto.subtle.importKey(
     'raw',
     rawKey,
     {
@@ -185,7 +192,7 @@ export async function decryptAESKey(
       length: 256,
     },
     true,
-    ['decrypt']
+    usages
   );
 }
 
@@ -194,7 +201,7 @@ export async function signData(
   data: ArrayBuffer,
   privateKey: CryptoKey
 ): Promise<ArrayBuffer> {
-  return await window.crypto.subtle.sign(
+  return await crypto.subtle.sign(
     {
       name: 'RSA-PSS',
       saltLength: 32,
@@ -210,7 +217,7 @@ export async function verifySignature(
   data: ArrayBuffer,
   publicKey: CryptoKey
 ): Promise<boolean> {
-  return await window.crypto.subtle.verify(
+  return await crypto.subtle.verify(
     {
       name: 'RSA-PSS',
       saltLength: 32,
@@ -221,9 +228,44 @@ export async function verifySignature(
   );
 }
 
+// Generate random salt for passphrase key derivation
+export function generateSalt(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(16));
+}
+
+// Derive an AES-256-GCM wrapping key from a passphrase with PBKDF2-SHA-256
+export async function derivePassphraseKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt: salt as Uint8Array<ArrayBuffer>,
+      iterations,
+      hash: 'SHA-256',
+    },
+    baseKey,
+    {
+      name: 'AES-GCM',
+      length: 256,
+    },
+    false,
+    ['encrypt', 'decrypt', 'unwrapKey']
+  );
+}
+
 // Hash data for signing
 export async function hashData(data: ArrayBuffer): Promise<ArrayBuffer> {
-  return await window.crypto.subtle.digest('SHA-256', data);
+  return await crypto.subtle.digest('SHA-256', data);
 }
 
 // Utility: ArrayBuffer to Base64
@@ -0,0 +1,137 @@
+// Crypto worker
+// Key generation, signing and chunked encryption and decryption run here,
+// off the main thread. Loaded by cryptoWorker.ts; messages are defined in
+// cryptoWorkerProtocol.ts.
+
+import { exportPrivateKey, exportPublicKey, generateAESKey } from '@/lib/crypto';
+import { getSuite, DEFAULT_SUITE_ID } from '@/lib/cryptoSuites';
+import { generatePqKeyPair } from '@/lib/hybridKem';
+import type { ExportedKeys } from '@/lib/keyStorage';
+import { createEncryptionStream, createDecryptionStream } from '@/lib/streamCrypto';
+import type {
+  CryptoWorkerMessage,
+  CryptoWorkerOperations,
+  CryptoWorkerOperation,
+  CryptoWorkerRequest,
+} from '@/lib/cryptoWorkerProtocol';
+
+interface OpenStream {
+  writer: WritableStreamDefaultWriter<Uint8Array>;
+  digest: Promise<ArrayBuffer>;
+  // Resolves once every output chunk has been posted
+  drained: Promise<void>;
+  processedBytes: number;
+}
+
+const streams = new Map<number, OpenStream>();
+let nextStreamId = 1;
+
+function post(message: CryptoWorkerMessage, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+function getStream(streamId: number): OpenStream {
+  const stream = streams.get(streamId);
+  if (!stream) {
+    throw new Error('Cipher stream is not open');
+  }
+  return stream;
+}
+
+function openStream({ mode, aesKey, nonce, chunkSize }: CryptoWorkerOperations['openStream']['params']) {
+  const cipher = mode === 'encrypt'
+    ? createEncryptionStream(aesKey, nonce, chunkSize)
+    : createDecryptionStream(aesKey, nonce, chunkSize);
+  const streamId = nextStreamId++;
+
+  // Forward output as it is produced; each chunk is a fresh buffer, so it is transferred
+  const reader = cipher.stream.readable.getReader();
+  const drained = (async () => {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      post({ type: 'output', streamId, data: value }, [value.buffer]);
+    }
+  })();
+  drained.catch(() => undefined);
+
+  streams.set(streamId, {
+    writer: cipher.stream.writable.getWriter(),
+    digest: cipher.digest,
+    drained,
+    processedBytes: 0,
+  });
+  return { streamId };
+}
+
+// ML-KEM key generation is plain JavaScript, so it would otherwise block the UI
+async function generateKeys({ keyId }: CryptoWorkerOperations['generateKeys']['params']): Promise<ExportedKeys> {
+  const suite = getSuite(DEFAULT_SUITE_ID);
+  const encryptionKeyPair = await suite.generateEncryptionKeyPair();
+  const signingKeyPair = await suite.generateSigningKeyPair();
+  const pqKeyPair = generatePqKeyPair();
+  return {
+    suite: suite.id,
+    keyId,
+    encryptionPublicKey: await exportPublicKey(encryptionKeyPair.publicKey),
+    encryptionPrivateKey: await exportPrivateKey(encryptionKeyPair.privateKey),
+    pqEncryptionPublicKey: pqKeyPair.publicKey,
+    pqEncryptionPrivateKey: pqKeyPair.privateKey,
+    signingPublicKey: await exportPublicKey(signingKeyPair.publicKey),
+    signingPrivateKey: await exportPrivateKey(signingKeyPair.privateKey),
+  };
+}
+
+async function handle(request: CryptoWorkerRequest): Promise<CryptoWorkerOperations[CryptoWorkerOperation]['result']> {
+  switch (request.operation) {
+    case 'generateContentKey':
+      return await generateAESKey();
+    case 'generateKeys':
+      return await generateKeys(request.params);
+    case 'sign': {
+      const { suite, privateKey, data } = request.params;
+      return await getSuite(suite).sign(data, privateKey);
+    }
+    case 'verify': {
+      const { suite, publicKey, signature, data } = request.params;
+      return await getSuite(suite).verify(signature, data, publicKey);
+    }
+    case 'openStream':
+      return openStream(request.params);
+    case 'writeStream': {
+      const { streamId, data } = request.params;
+      const stream = getStream(streamId);
+      await stream.writer.write(data);
+      stream.processedBytes += data.byteLength;
+      post({ type: 'progress', streamId, bytes: stream.processedBytes });
+      return null;
+    }
+    case 'closeStream': {
+      const { streamId } = request.params;
+      const stream = getStream(streamId);
+      try {
+        await stream.writer.close();
+        await stream.drained;
+        return { digest: await stream.digest };
+      } finally {
+        streams.delete(streamId);
+      }
+    }
+    case 'abortStream': {
+      const { streamId } = request.params;
+      const stream = streams.get(streamId);
+      streams.delete(streamId);
+      await stream?.writer.abort().catch(() => undefined);
+      return null;
+    }
+  }
+}
+
+self.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
+  const request = event.data;
+  try {
+    post({ type: 'result', id: request.id, result: await handle(request) });
+  } catch (err) {
+    post({ type: 'error', id: request.id, message: err instanceof Error ? err.message : 'Crypto operation failed' });
+  }
+};
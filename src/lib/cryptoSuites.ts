@@ -0,0 +1,187 @@
+// Crypto suites
+// Every key bundle and envelope names the suite its keys belong to, so the
+// algorithms can change without breaking files encrypted under older ones.
+//
+// x25519-ed25519: ephemeral X25519 key agreement, HKDF-SHA-256 and AES-256-GCM
+//                 wrap the content key; Ed25519 signatures. Default for new keys.
+// rsa2048:        RSA-OAEP-2048 key wrapping and RSA-PSS-2048 signatures. Legacy,
+//                 kept so keys and files created before suites existed keep working.
+
+import {
+  ENCRYPTION_KEY_ALGORITHM,
+  SIGNING_KEY_ALGORITHM,
+  generateKeyPair,
+  generateSigningKeyPair,
+  importPublicKey,
+  importPrivateKey,
+  importSigningPublicKey,
+  importSigningPrivateKey,
+  encryptAESKey,
+  decryptAESKey,
+  signData,
+  verifySignature,
+  generateNonce,
+  base64ToArrayBuffer,
+  concatenateBuffers,
+} from '@/lib/crypto';
+
+export type SuiteId = 'rsa2048' | 'x25519-ed25519';
+
+export const LEGACY_SUITE_ID: SuiteId = 'rsa2048';
+export const DEFAULT_SUITE_ID: SuiteId = 'x25519-ed25519';
+
+export interface CryptoSuite {
+  id: SuiteId;
+  // Algorithms and usages for unwrapping stored private keys
+  encryptionKeyAlgorithm: AlgorithmIdentifier | RsaHashedImportParams;
+  encryptionPrivateKeyUsages: KeyUsage[];
+  signingKeyAlgorithm: AlgorithmIdentifier | RsaHashedImportParams;
+  generateEncryptionKeyPair(): Promise<CryptoKeyPair>;
+  generateSigningKeyPair(): Promise<CryptoKeyPair>;
+  importEncryptionPublicKey(base64Key: string): Promise<CryptoKey>;
+  importEncryptionPrivateKey(base64Key: string, extractable?: boolean): Promise<CryptoKey>;
+  importSigningPublicKey(base64Key: string): Promise<CryptoKey>;
+  importSigningPrivateKey(base64Key: string, extractable?: boolean): Promise<CryptoKey>;
+  // Encrypt an AES content key to a recipient public key, and back
+  wrapContentKey(aesKey: CryptoKey, publicKey: CryptoKey): Promise<ArrayBuffer>;
+  unwrapContentKey(wrapped: ArrayBuffer, privateKey: CryptoKey, usages?: KeyUsage[]): Promise<CryptoKey>;
+  sign(data: ArrayBuffer, privateKey: CryptoKey): Promise<ArrayBuffer>;
+  verify(signature: ArrayBuffer, data: ArrayBuffer, publicKey: CryptoKey): Promise<boolean>;
+}
+
+const rsaSuite: CryptoSuite = {
+  id: 'rsa2048',
+  encryptionKeyAlgorithm: ENCRYPTION_KEY_ALGORITHM,
+  encryptionPrivateKeyUsages: ['decrypt'],
+  signingKeyAlgorithm: SIGNING_KEY_ALGORITHM,
+  generateEncryptionKeyPair: generateKeyPair,
+  generateSigningKeyPair,
+  importEncryptionPublicKey: importPublicKey,
+  importEncryptionPrivateKey: importPrivateKey,
+  importSigningPublicKey,
+  importSigningPrivateKey,
+  wrapContentKey: encryptAESKey,
+  unwrapContentKey: decryptAESKey,
+  sign: signData,
+  verify: verifySignature,
+};
+
+const X25519_PUBLIC_KEY_LENGTH = 32;
+const X25519_NONCE_LENGTH = 12;
+const X25519_WRAP_INFO = 'vortex-x25519-wrap-v1';
+
+// Derive the AES key that wraps one content key from an X25519 shared secret
+async function deriveX25519WrappingKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  ephemeralPublicKey: ArrayBuffer
+): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'X25519', public: publicKey }, privateKey, 256);
+  const baseKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: ephemeralPublicKey,
+      info: new TextEncoder().encode(X25519_WRAP_INFO),
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+const x25519Ed25519Suite: CryptoSuite = {
+  id: 'x25519-ed25519',
+  encryptionKeyAlgorithm: { name: 'X25519' },
+  encryptionPrivateKeyUsages: ['deriveBits'],
+  signingKeyAlgorithm: { name: 'Ed25519' },
+
+  async generateEncryptionKeyPair() {
+    return await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits']) as CryptoKeyPair;
+  },
+
+  async generateSigningKeyPair() {
+    return await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  },
+
+  async importEncryptionPublicKey(base64Key) {
+    return await crypto.subtle.importKey('spki', base64ToArrayBuffer(base64Key), { name: 'X25519' }, true, []);
+  },
+
+  async importEncryptionPrivateKey(base64Key, extractable = false) {
+    return await crypto.subtle.importKey(
+      'pkcs8',
+      base64ToArrayBuffer(base64Key),
+      { name: 'X25519' },
+      extractable,
+      ['deriveBits']
+    );
+  },
+
+  async importSigningPublicKey(base64Key) {
+    return await crypto.subtle.importKey('spki', base64ToArrayBuffer(base64Key), { name: 'Ed25519' }, true, ['verify']);
+  },
+
+  async importSigningPrivateKey(base64Key, extractable = false) {
+    return await crypto.subtle.importKey(
+      'pkcs8',
+      base64ToArrayBuffer(base64Key),
+      { name: 'Ed25519' },
+      extractable,
+      ['sign']
+    );
+  },
+
+  // Output: ephemeral public key (32) || nonce (12) || AES-GCM(content key)
+  async wrapContentKey(aesKey, publicKey) {
+    const ephemeral = await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits']) as CryptoKeyPair;
+    const ephemeralPublicKey = await crypto.subtle.exportKey('raw', ephemeral.publicKey);
+    const wrappingKey = await deriveX25519WrappingKey(ephemeral.privateKey, publicKey, ephemeralPublicKey);
+    const nonce = generateNonce();
+    const rawKey = await crypto.subtle.exportKey('raw', aesKey);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: nonce as Uint8Array<ArrayBuffer> },
+      wrappingKey,
+      rawKey
+    );
+    return concatenateBuffers(ephemeralPublicKey, nonce.buffer as ArrayBuffer, ciphertext);
+  },
+
+  async unwrapContentKey(wrapped, privateKey, usages = ['decrypt']) {
+    const ephemeralPublicKey = wrapped.slice(0, X25519_PUBLIC_KEY_LENGTH);
+    const nonce = wrapped.slice(X25519_PUBLIC_KEY_LENGTH, X25519_PUBLIC_KEY_LENGTH + X25519_NONCE_LENGTH);
+    const ciphertext = wrapped.slice(X25519_PUBLIC_KEY_LENGTH + X25519_NONCE_LENGTH);
+
+    const publicKey = await crypto.subtle.importKey('raw', ephemeralPublicKey, { name: 'X25519' }, false, []);
+    const wrappingKey = await deriveX25519WrappingKey(privateKey, publicKey, ephemeralPublicKey);
+    const rawKey = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, wrappingKey, ciphertext);
+    return await crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM', length: 256 }, true, usages);
+  },
+
+  async sign(data, privateKey) {
+    return await crypto.subtle.sign({ name: 'Ed25519' }, privateKey, data);
+  },
+
+  async verify(signature, data, publicKey) {
+    return await crypto.subtle.verify({ name: 'Ed25519' }, publicKey, signature, data);
+  },
+};
+
+const SUITES: Record<SuiteId, CryptoSuite> = {
+  'rsa2048': rsaSuite,
+  'x25519-ed25519': x25519Ed25519Suite,
+};
+
+export function isSuiteId(value: unknown): value is SuiteId {
+  return typeof value === 'string' && value in SUITES;
+}
+
+export function getSuite(id: SuiteId): CryptoSuite {
+  const suite = SUITES[id];
+  if (!suite) {
+    throw new Error(`Unsupported crypto suite: ${id}`);
+  }
+  return suite;
+}
@@ -0,0 +1,171 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { generateAESKey, generateNonce } from '@/lib/crypto';
+import {
+  createWorkerDecryptionStream,
+  createWorkerEncryptionStream,
+  generateKeysInWorker,
+} from '@/lib/cryptoWorker';
+import type { CryptoWorkerMessage, CryptoWorkerOperation, CryptoWorkerRequest } from '@/lib/cryptoWorkerProtocol';
+import { pqPublicKeyFromSeed } from '@/lib/hybridKem';
+import { createEncryptionStream, ChunkedCipherStream } from '@/lib/streamCrypto';
+
+const CHUNK = 64;
+
+// Runs crypto.worker.ts in this thread: its `self` is a scope whose messages go to the
+// client's Worker, and messages posted to that Worker go to the scope, one task later
+const operations: CryptoWorkerOperation[] = [];
+const clients: InProcessWorker[] = [];
+const workerScope = {
+  // Vite resolves the worker script against it
+  location: new URL('http://localhost/'),
+  onmessage: null as ((event: MessageEvent<CryptoWorkerRequest>) => void) | null,
+  postMessage(message: CryptoWorkerMessage) {
+    setTimeout(() => clients.forEach((client) => client.onmessage?.({ data: message } as MessageEvent<CryptoWorkerMessage>)));
+  },
+};
+
+class InProcessWorker {
+  onmessage: ((event: MessageEvent<CryptoWorkerMessage>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  constructor() {
+    clients.push(this);
+  }
+
+  postMessage(request: CryptoWorkerRequest) {
+    operations.push(request.operation);
+    setTimeout(() => workerScope.onmessage?.({ data: request } as MessageEvent<CryptoWorkerRequest>));
+  }
+
+  terminate() {
+    clients.splice(clients.indexOf(this), 1);
+  }
+}
+
+beforeAll(async () => {
+  vi.stubGlobal('self', workerScope);
+  vi.stubGlobal('Worker', InProcessWorker);
+  await import('@/lib/crypto.worker');
+});
+
+// Pieces that do not line up with chunk boundaries
+function pieces(input: Uint8Array, pieceSize = 50): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let offset = 0; offset < input.byteLength; offset += pieceSize) {
+        controller.enqueue(input.slice(offset, offset + pieceSize));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const bytes: number[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return new Uint8Array(bytes);
+    bytes.push(...value);
+  }
+}
+
+async function run(cipher: ChunkedCipherStream, input: Uint8Array): Promise<Uint8Array> {
+  return readAll(pieces(input).pipeThrough(cipher.stream));
+}
+
+// Input that never ends, so a stream can only stop by being aborted
+function endless(pieceSize = 50): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      controller.enqueue(crypto.getRandomValues(new Uint8Array(pieceSize)));
+    },
+  });
+}
+
+describe('worker cipher streams', () => {
+  it('produce the same ciphertext and digest as the main-thread streams', async () => {
+    const aesKey = await generateAESKey();
+    const nonce = generateNonce();
+    const input = crypto.getRandomValues(new Uint8Array(1000));
+
+    const inWorker = createWorkerEncryptionStream(aesKey, nonce, CHUNK);
+    const onMainThread = createEncryptionStream(aesKey, nonce, CHUNK);
+    const ciphertext = await run(inWorker, input);
+    expect(ciphertext).toEqual(await run(onMainThread, input));
+    expect(new Uint8Array(await inWorker.digest)).toEqual(new Uint8Array(await onMainThread.digest));
+
+    const decryption = createWorkerDecryptionStream(aesKey, nonce, CHUNK);
+    expect(await run(decryption, ciphertext)).toEqual(input);
+    expect(new Uint8Array(await decryption.digest)).toEqual(new Uint8Array(await inWorker.digest));
+  });
+
+  it('report the input bytes consumed after every write', async () => {
+    const progress: number[] = [];
+    const cipher = createWorkerEncryptionStream(await generateAESKey(), generateNonce(), CHUNK, {
+      onProgress: (bytes) => progress.push(bytes),
+    });
+
+    await run(cipher, crypto.getRandomValues(new Uint8Array(1000)));
+    expect(progress).toEqual(Array.from({ length: 20 }, (_, i) => (i + 1) * 50));
+  });
+
+  it('stop in the worker when aborted mid-stream', async () => {
+    const controller = new AbortController();
+    const reason = new Error('Upload cancelled');
+    const cipher = createWorkerEncryptionStream(await generateAESKey(), generateNonce(), CHUNK, {
+      onProgress: (bytes) => {
+        if (bytes >= 500) controller.abort(reason);
+      },
+      signal: controller.signal,
+    });
+    operations.length = 0;
+
+    await expect(readAll(endless().pipeThrough(cipher.stream))).rejects.toBe(reason);
+    await expect(cipher.digest).rejects.toBe(reason);
+    await vi.waitFor(() => expect(operations).toContain('abortStream'));
+    expect(operations).not.toContain('closeStream');
+  });
+
+  it('stop in the worker when the reader cancels', async () => {
+    const cipher = createWorkerEncryptionStream(await generateAESKey(), generateNonce(), CHUNK);
+    operations.length = 0;
+    const piped = endless().pipeTo(cipher.stream.writable);
+    const reader = cipher.stream.readable.getReader();
+
+    await reader.read();
+    await reader.cancel(new Error('Not needed'));
+    await expect(piped).rejects.toThrow('Not needed');
+    await expect(cipher.digest).rejects.toThrow('Not needed');
+    await vi.waitFor(() => expect(operations).toContain('abortStream'));
+  });
+
+  it('fail on modified ciphertext with the error from the worker', async () => {
+    const aesKey = await generateAESKey();
+    const nonce = generateNonce();
+    const ciphertext = await run(createWorkerEncryptionStream(aesKey, nonce, CHUNK), crypto.getRandomValues(new Uint8Array(300)));
+    ciphertext[100] ^= 1;
+
+    const decryption = createWorkerDecryptionStream(aesKey, nonce, CHUNK);
+    await expect(run(decryption, ciphertext)).rejects.toThrow();
+    await expect(decryption.digest).rejects.toThrow();
+  });
+
+  it('refuse to start once the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('Too late'));
+    const cipher = createWorkerEncryptionStream(await generateAESKey(), generateNonce(), CHUNK, { signal: controller.signal });
+
+    await expect(run(cipher, new Uint8Array(100))).rejects.toThrow('Too late');
+  });
+});
+
+describe('worker key generation', () => {
+  it('generates a complete key version with a matching ML-KEM key', async () => {
+    const keys = await generateKeysInWorker(3);
+
+    expect(keys).toMatchObject({ suite: 'x25519-ed25519', keyId: 3 });
+    expect(pqPublicKeyFromSeed(keys.pqEncryptionPrivateKey!)).toBe(keys.pqEncryptionPublicKey);
+    expect(keys.encryptionPublicKey).not.toBe((await generateKeysInWorker(3)).encryptionPublicKey);
+  });
+});
@@ -0,0 +1,251 @@
+// Crypto worker client
+// Heavy crypto runs in a dedicated worker so large files do not freeze the UI.
+// The cipher streams returned here are drop-in replacements for the ones in
+// streamCrypto.ts, with byte progress and cancellation through an AbortSignal.
+
+import type { SuiteId } from '@/lib/cryptoSuites';
+import type { ExportedKeys } from '@/lib/keyStorage';
+import { CHUNK_SIZE, ChunkedCipherStream } from '@/lib/streamCrypto';
+import type {
+  CipherStreamMode,
+  CryptoWorkerMessage,
+  CryptoWorkerOperation,
+  CryptoWorkerOperations,
+  CryptoWorkerRequest,
+} from '@/lib/cryptoWorkerProtocol';
+
+export interface CipherStreamOptions {
+  // Called with the number of input bytes the worker has processed
+  onProgress?: (bytes: number) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+}
+
+interface StreamListener {
+  onOutput: (data: Uint8Array) => void;
+  onProgress: (bytes: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+const streamListeners = new Map<number, StreamListener>();
+
+function handleMessage(event: MessageEvent<CryptoWorkerMessage>): void {
+  const message = event.data;
+  if (message.type === 'output') {
+    streamListeners.get(message.streamId)?.onOutput(message.data);
+    return;
+  }
+  if (message.type === 'progress') {
+    streamListeners.get(message.streamId)?.onProgress(message.bytes);
+    return;
+  }
+  const request = pendingRequests.get(message.id);
+  pendingRequests.delete(message.id);
+  if (message.type === 'error') {
+    request?.reject(new Error(message.message));
+  } else {
+    request?.resolve(message.result);
+  }
+}
+
+// The worker is started on first use and shared by every caller
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./crypto.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleMessage;
+    // A worker that fails to load or crashes takes every request in flight with it
+    worker.onerror = (event) => {
+      const error = new Error(event.message || 'Crypto worker failed');
+      pendingRequests.forEach(({ reject }) => reject(error));
+      pendingRequests.clear();
+      streamListeners.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+function request<K extends CryptoWorkerOperation>(
+  operation: K,
+  params: CryptoWorkerOperations[K]['params'],
+  transfer: Transferable[] = []
+): Promise<CryptoWorkerOperations[K]['result']> {
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve: resolve as (result: unknown) => void, reject });
+    getWorker().postMessage({ id, operation, params } as CryptoWorkerRequest, transfer);
+  });
+}
+
+// Generate a random AES-256-GCM content key
+export function generateContentKey(): Promise<CryptoKey> {
+  return request('generateContentKey', {});
+}
+
+// Generate a new account key version in the default suite
+export function generateKeysInWorker(keyId: number): Promise<ExportedKeys> {
+  return request('generateKeys', { keyId });
+}
+
+export function signInWorker(suite: SuiteId, privateKey: CryptoKey, data: ArrayBuffer): Promise<ArrayBuffer> {
+  return request('sign', { suite, privateKey, data });
+}
+
+export function verifyInWorker(
+  suite: SuiteId,
+  publicKey: CryptoKey,
+  signature: ArrayBuffer,
+  data: ArrayBuffer
+): Promise<boolean> {
+  return request('verify', { suite, publicKey, signature, data });
+}
+
+function createWorkerCipherStream(
+  mode: CipherStreamMode,
+  aesKey: CryptoKey,
+  nonce: Uint8Array,
+  chunkSize: number,
+  { onProgress, signal }: CipherStreamOptions
+): ChunkedCipherStream {
+  let streamId = 0;
+
+  let resolveDigest: (digest: ArrayBuffer) => void;
+  let rejectDigest: (reason: unknown) => void;
+  const digest = new Promise<ArrayBuffer>((resolve, reject) => {
+    resolveDigest = resolve;
+    rejectDigest = reject;
+  });
+  // Consumers may never await the digest if the stream fails early
+  digest.catch(() => undefined);
+
+  // Output the worker produced that nobody has read yet. The next write waits until the
+  // reader has taken it, so a slow consumer holds back reading the input too.
+  let output!: ReadableStreamDefaultController<Uint8Array>;
+  let input!: WritableStreamDefaultController;
+  let wakeWriter: () => void = () => undefined;
+  let failure: unknown = null;
+
+  let onAbort = () => undefined;
+  const release = () => {
+    streamListeners.delete(streamId);
+    signal?.removeEventListener('abort', onAbort);
+  };
+  const fail = (reason: unknown) => {
+    if (failure) return;
+    failure = reason ?? new Error('Cipher stream was cancelled');
+    release();
+    rejectDigest(failure);
+    wakeWriter();
+    request('abortStream', { streamId }).catch(() => undefined);
+  };
+  const waitForDemand = () => new Promise<void>((resolve) => {
+    if (failure || (output.desiredSize ?? 0) > 0) {
+      resolve();
+    } else {
+      wakeWriter = resolve;
+    }
+  });
+
+  const readable = new ReadableStream<Uint8Array>({
+    start(controller) {
+      output = controller;
+    },
+    pull() {
+      wakeWriter();
+    },
+    cancel(reason) {
+      input.error(reason);
+      fail(reason);
+    },
+  });
+
+  const writable = new WritableStream<Uint8Array>({
+    async start(controller) {
+      input = controller;
+      try {
+        signal?.throwIfAborted();
+        ({ streamId } = await request('openStream', { mode, aesKey, nonce, chunkSize }));
+      } catch (err) {
+        // Nothing is open in the worker yet; only the reader has to hear about it
+        output.error(err);
+        rejectDigest(err);
+        throw err;
+      }
+      streamListeners.set(streamId, {
+        onOutput: (data) => output.enqueue(data),
+        onProgress: (bytes) => onProgress?.(bytes),
+      });
+      onAbort = () => {
+        output.error(signal?.reason);
+        input.error(signal?.reason);
+        fail(signal?.reason);
+      };
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    },
+    async write(chunk) {
+      await waitForDemand();
+      if (failure) {
+        throw failure;
+      }
+      // Copy so the buffer can be transferred without detaching the caller's data
+      const data = chunk.slice();
+      try {
+        await request('writeStream', { streamId, data }, [data.buffer]);
+      } catch (err) {
+        output.error(err);
+        fail(err);
+        throw err;
+      }
+    },
+    async close() {
+      try {
+        const result = await request('closeStream', { streamId });
+        release();
+        output.close();
+        resolveDigest(result.digest);
+      } catch (err) {
+        output.error(err);
+        fail(err);
+        throw err;
+      }
+    },
+    abort(reason) {
+      output.error(reason);
+      fail(reason);
+    },
+  });
+
+  const stream = { readable, writable };
+  return { stream, digest };
+}
+
+// Encrypt a plaintext stream in the worker, as createEncryptionStream does
+export function createWorkerEncryptionStream(
+  aesKey: CryptoKey,
+  nonce: Uint8Array,
+  chunkSize: number = CHUNK_SIZE,
+  options: CipherStreamOptions = {}
+): ChunkedCipherStream {
+  return createWorkerCipherStream('encrypt', aesKey, nonce, chunkSize, options);
+}
+
+// Decrypt and authenticate a ciphertext stream in the worker, as createDecryptionStream does
+export function createWorkerDecryptionStream(
+  aesKey: CryptoKey,
+  nonce: Uint8Array,
+  chunkSize: number = CHUNK_SIZE,
+  options: CipherStreamOptions = {}
+): ChunkedCipherStream {
+  return createWorkerCipherStream('decrypt', aesKey, nonce, chunkSize, options);
+}
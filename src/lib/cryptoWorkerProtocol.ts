@@ -0,0 +1,61 @@
+// Crypto worker message protocol
+// Every request carries an id that the worker echoes in its result or error.
+// Cipher streams are opened once, then fed input piece by piece; the worker posts
+// their output and progress as it is produced, tagged with the stream id.
+
+import type { SuiteId } from '@/lib/cryptoSuites';
+import type { ExportedKeys } from '@/lib/keyStorage';
+
+export type CipherStreamMode = 'encrypt' | 'decrypt';
+
+// Parameters of each operation and the result it resolves to
+export interface CryptoWorkerOperations {
+  generateContentKey: {
+    params: Record<string, never>;
+    result: CryptoKey;
+  };
+  // A new account key version in the default suite, exported for storage and backup
+  generateKeys: {
+    params: { keyId: number };
+    result: ExportedKeys;
+  };
+  sign: {
+    params: { suite: SuiteId; privateKey: CryptoKey; data: ArrayBuffer };
+    result: ArrayBuffer;
+  };
+  verify: {
+    params: { suite: SuiteId; publicKey: CryptoKey; signature: ArrayBuffer; data: ArrayBuffer };
+    result: boolean;
+  };
+  openStream: {
+    params: { mode: CipherStreamMode; aesKey: CryptoKey; nonce: Uint8Array; chunkSize: number };
+    result: { streamId: number };
+  };
+  // Resolves once the input has been consumed; the output follows as 'output' messages
+  writeStream: {
+    params: { streamId: number; data: Uint8Array };
+    result: null;
+  };
+  // Resolves with the chained ciphertext digest after the last output has been posted
+  closeStream: {
+    params: { streamId: number };
+    result: { digest: ArrayBuffer };
+  };
+  abortStream: {
+    params: { streamId: number };
+    result: null;
+  };
+}
+
+export type CryptoWorkerOperation = keyof CryptoWorkerOperations;
+
+export type CryptoWorkerRequest = {
+  [K in CryptoWorkerOperation]: { id: number; operation: K; params: CryptoWorkerOperations[K]['params'] };
+}[CryptoWorkerOperation];
+
+export type CryptoWorkerMessage =
+  | { type: 'result'; id: number; result: CryptoWorkerOperations[CryptoWorkerOperation]['result'] }
+  | { type: 'error'; id: number; message: string }
+  | { type: 'output'; streamId: number; data: Uint8Array }
+  // Input bytes the stream has consumed so far
+  | { type: 'progress'; streamId: number; bytes: number };
@@ -0,0 +1,228 @@
+// Device linking
+// A new device shows an ephemeral ECDH public key as a QR code. A signed-in device
+// answers with its own ephemeral key, and both derive a shared AES key and a short
+// confirmation code. The key bundle is encrypted under the shared key and relayed by
+// the server, which cannot read it. Comparing the confirmation code on both screens
+// detects a server that swapped either ephemeral key.
+//
+// The confirmation code is short, so the new device's key must be fixed before the
+// server sees the responder key; otherwise it could try keys until the codes match.
+// The QR code carries the key itself, and the typed code carries a hash of it.
+
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  concatenateBuffers,
+  generateNonce,
+} from '@/lib/crypto';
+import type { ExportedKeys } from '@/lib/keyStorage';
+
+const PAIRING_QR_PREFIX = 'vortex-pair';
+const PAIRING_VERSION = 1;
+const PAIRING_CURVE = 'P-256';
+const PAIRING_KEY_INFO = 'vortex-pairing-v1:key';
+const PAIRING_CONFIRMATION_INFO = 'vortex-pairing-v1:confirmation';
+const CONFIRMATION_CODE_DIGITS = 6;
+// 80 bits: far beyond what a server can grind through to forge a matching key
+const KEY_COMMITMENT_BYTES = 10;
+
+export interface PairingKeyPair {
+  privateKey: CryptoKey;
+  // Raw uncompressed point, base64
+  publicKey: string;
+}
+
+export interface PairingSecrets {
+  key: CryptoKey;
+  confirmationCode: string;
+}
+
+export interface PairedKeys {
+  userId: string;
+  createdAt: string;
+  keys: ExportedKeys;
+}
+
+interface PairingBundle {
+  version: number;
+  iv: string;
+  ciphertext: string;
+}
+
+// Fresh ephemeral key pair for one pairing attempt; never stored
+export async function generatePairingKeyPair(): Promise<PairingKeyPair> {
+  const keyPair = await window.crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: PAIRING_CURVE },
+    false,
+    ['deriveBits']
+  );
+  const publicKey = await window.crypto.subtle.exportKey('raw', keyPair.publicKey);
+  return { privateKey: keyPair.privateKey, publicKey: arrayBufferToBase64(publicKey) };
+}
+
+// Content encoded in the QR code on the new device
+export function pairingQRPayload(pairingId: string, publicKey: string): string {
+  return `${PAIRING_QR_PREFIX}:${PAIRING_VERSION}:${pairingId}:${publicKey}`;
+}
+
+// Short hash of the new device's public key, hex, included in the typed pairing code
+async function pairingKeyCommitment(publicKey: string): Promise<string> {
+  const digest = await window.crypto.subtle.digest('SHA-256', base64ToArrayBuffer(publicKey));
+  return Array.from(new Uint8Array(digest, 0, KEY_COMMITMENT_BYTES))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Pairing code for typing by hand: the pairing id and a commitment to the public key
+export async function typedPairingCode(pairingId: string, publicKey: string): Promise<string> {
+  return `${pairingId}.${await pairingKeyCommitment(publicKey)}`;
+}
+
+export interface ParsedPairingCode {
+  pairingId: string;
+  // Present for a scanned QR payload
+  publicKey?: string;
+  // Present for a typed code
+  keyCommitment?: string;
+}
+
+// Accept either a scanned QR payload or a pairing code typed by hand.
+// A typed code carries the pairing id and a hash of the public key; the key itself
+// then comes from the server and is checked with checkPairingPublicKey.
+export function parsePairingCode(value: string): ParsedPairingCode {
+  const trimmed = value.trim();
+  if (trimmed.startsWith(`${PAIRING_QR_PREFIX}:`)) {
+    const [, version, pairingId, publicKey] = trimmed.split(':');
+    if (Number(version) !== PAIRING_VERSION || !pairingId || !publicKey) {
+      throw new Error('Not a valid Vortex pairing code');
+    }
+    return { pairingId, publicKey };
+  }
+  const match = /^([A-Za-z0-9_-]+)\.([0-9A-Fa-f]+)$/.exec(trimmed);
+  if (!match || match[2].length !== KEY_COMMITMENT_BYTES * 2) {
+    throw new Error('Not a valid Vortex pairing code - enter the whole code, including the part after the dot');
+  }
+  return { pairingId: match[1], keyCommitment: match[2].toLowerCase() };
+}
+
+// Check a public key relayed by the server against the hash in a typed pairing code
+export async function checkPairingPublicKey(publicKey: string, keyCommitment: string): Promise<void> {
+  if (await pairingKeyCommitment(publicKey) !== keyCommitment) {
+    throw new Error('The server sent a different key than the new device shows - do not link this device');
+  }
+}
+
+// Derive the transfer key and the confirmation code. Both sides pass the keys in
+// initiator/responder order so they hash the same transcript.
+export async function derivePairingSecrets(
+  ownPrivateKey: CryptoKey,
+  pairingId: string,
+  initiatorPublicKey: string,
+  responderPublicKey: string,
+  isInitiator: boolean
+): Promise<PairingSecrets> {
+  const peerPublicKey = await window.crypto.subtle.importKey(
+    'raw',
+    base64ToArrayBuffer(isInitiator ? responderPublicKey : initiatorPublicKey),
+    { name: 'ECDH', namedCurve: PAIRING_CURVE },
+    false,
+    []
+  );
+  const sharedSecret = await window.crypto.subtle.deriveBits(
+    { name: 'ECDH', public: peerPublicKey },
+    ownPrivateKey,
+    256
+  );
+
+  const transcript = await window.crypto.subtle.digest(
+    'SHA-256',
+    concatenateBuffers(
+      new TextEncoder().encode(`${PAIRING_QR_PREFIX}:${PAIRING_VERSION}:${pairingId}`).buffer as ArrayBuffer,
+      base64ToArrayBuffer(initiatorPublicKey),
+      base64ToArrayBuffer(responderPublicKey)
+    )
+  );
+  const baseKey = await window.crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey', 'deriveBits']);
+
+  const key = await window.crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: transcript, info: new TextEncoder().encode(PAIRING_KEY_INFO) },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+
+  const confirmationBits = await window.crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: transcript, info: new TextEncoder().encode(PAIRING_CONFIRMATION_INFO) },
+    baseKey,
+    32
+  );
+  const value = new DataView(confirmationBits).getUint32(0) % 10 ** CONFIRMATION_CODE_DIGITS;
+
+  return { key, confirmationCode: String(value).padStart(CONFIRMATION_CODE_DIGITS, '0') };
+}
+
+// Split the confirmation code in two for easier reading
+export function formatConfirmationCode(code: string): string {
+  return `${code.slice(0, 3)} ${code.slice(3)}`;
+}
+
+function pairingAdditionalData(pairingId: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${PAIRING_KEY_INFO}:${pairingId}`);
+}
+
+// Encrypt the account keys for the new device
+export async function encryptPairingBundle(
+  keys: ExportedKeys,
+  userId: string,
+  secrets: PairingSecrets,
+  pairingId: string
+): Promise<string> {
+  const iv = generateNonce();
+  const contents: PairedKeys = {
+    userId,
+    createdAt: new Date().toISOString(),
+    keys,
+  };
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as Uint8Array<ArrayBuffer>, additionalData: pairingAdditionalData(pairingId) },
+    secrets.key,
+    new TextEncoder().encode(JSON.stringify(contents))
+  );
+
+  const bundle: PairingBundle = {
+    version: PAIRING_VERSION,
+    iv: arrayBufferToBase64(iv.buffer as ArrayBuffer),
+    ciphertext: arrayBufferToBase64(ciphertext),
+  };
+  return JSON.stringify(bundle);
+}
+
+// Decrypt the key bundle relayed from the signed-in device
+export async function decryptPairingBundle(
+  serialized: string,
+  secrets: PairingSecrets,
+  pairingId: string
+): Promise<PairedKeys> {
+  const bundle: PairingBundle = JSON.parse(serialized);
+  if (bundle.version !== PAIRING_VERSION) {
+    throw new Error(`Unsupported pairing bundle version: ${bundle.version}`);
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await window.crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: new Uint8Array(base64ToArrayBuffer(bundle.iv)),
+        additionalData: pairingAdditionalData(pairingId),
+      },
+      secrets.key,
+      base64ToArrayBuffer(bundle.ciphertext)
+    );
+  } catch {
+    throw new Error('Keys from the other device could not be decrypted - start linking again');
+  }
+
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import { generateAESKey } from '@/lib/crypto';
+import {
+  decryptMetadata,
+  encodeEnvelopePrefix,
+  encryptMetadata,
+  envelopeSigningHash,
+  EnvelopeHeader,
+  ENVELOPE_MAGIC,
+  ENVELOPE_VERSION,
+  findRecipient,
+  readEnvelope,
+} from '@/lib/envelope';
+
+const header: EnvelopeHeader = {
+  version: ENVELOPE_VERSION,
+  chunkSize: 1024,
+  nonce: 'AAAAAAAAAAAAAAAA',
+  metadata: 'bWV0YWRhdGE=',
+  sender: { userId: 'sender-1', keyId: 1, suite: 'x25519-ed25519', signingPublicKey: 'c2lnbmluZw==' },
+  recipients: [
+    { userId: 'receiver-1', keyId: 2, suite: 'x25519-ed25519', kem: 'x25519-mlkem768', encryptedKey: 'a2V5MQ==' },
+    { userId: 'receiver-2', keyId: 1, suite: 'rsa2048', encryptedKey: 'a2V5Mg==' },
+  ],
+  signature: 'c2lnbmF0dXJl',
+};
+
+// Deliver the bytes in small pieces, as a network response would
+function streamOf(bytes: Uint8Array, pieceSize = 7): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let offset = 0; offset < bytes.byteLength; offset += pieceSize) {
+        controller.enqueue(bytes.slice(offset, offset + pieceSize));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  let output = new Uint8Array(0);
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return output;
+    const next = new Uint8Array(output.byteLength + value.byteLength);
+    next.set(output, 0);
+    next.set(value, output.byteLength);
+    output = next;
+  }
+}
+
+function envelopeWith(prefix: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(prefix.byteLength + ciphertext.byteLength);
+  bytes.set(prefix, 0);
+  bytes.set(ciphertext, prefix.byteLength);
+  return bytes;
+}
+
+// A prefix around arbitrary header bytes
+function prefixAround(headerBytes: Uint8Array, version = ENVELOPE_VERSION): Uint8Array {
+  const bytes = new Uint8Array(9 + headerBytes.byteLength);
+  bytes.set(ENVELOPE_MAGIC, 0);
+  bytes[4] = version;
+  new DataView(bytes.buffer).setUint32(5, headerBytes.byteLength);
+  bytes.set(headerBytes, 9);
+  return bytes;
+}
+
+describe('envelope prefix', () => {
+  it('round-trips the header and leaves the ciphertext untouched', async () => {
+    const ciphertext = crypto.getRandomValues(new Uint8Array(100));
+    const prefix = encodeEnvelopePrefix(header);
+
+    const read = await readEnvelope(streamOf(envelopeWith(prefix, ciphertext)));
+    expect(read.header).toEqual(header);
+    expect(read.headerLength).toBe(prefix.byteLength);
+    expect(await readAll(read.ciphertext)).toEqual(ciphertext);
+  });
+
+  it('rejects a different magic', async () => {
+    const bytes = encodeEnvelopePrefix(header);
+    bytes[0] ^= 1;
+    await expect(readEnvelope(streamOf(bytes))).rejects.toThrow('Not a Vortex envelope');
+  });
+
+  it('rejects an unsupported version', async () => {
+    const bytes = encodeEnvelopePrefix(header);
+    bytes[4] = 9;
+    await expect(readEnvelope(streamOf(bytes))).rejects.toThrow('Unsupported envelope version: 9');
+  });
+
+  it('rejects a prefix version that differs from the header version', async () => {
+    const bytes = encodeEnvelopePrefix(header);
+    bytes[4] = 1;
+    await expect(readEnvelope(streamOf(bytes))).rejects.toThrow('malformed');
+  });
+
+  it('rejects a truncated header', async () => {
+    const bytes = encodeEnvelopePrefix(header);
+    await expect(readEnvelope(streamOf(bytes.slice(0, bytes.byteLength - 1)))).rejects.toThrow('truncated');
+    await expect(readEnvelope(streamOf(bytes.slice(0, 6)))).rejects.toThrow('truncated');
+  });
+
+  it('rejects an oversized header length', async () => {
+    const bytes = encodeEnvelopePrefix(header);
+    new DataView(bytes.buffer).setUint32(5, 0xffffffff);
+    await expect(readEnvelope(streamOf(bytes))).rejects.toThrow('too large');
+  });
+
+  it('rejects malformed headers', async () => {
+    const encode = (value: unknown) => prefixAround(new TextEncoder().encode(JSON.stringify(value)));
+
+    await expect(readEnvelope(streamOf(prefixAround(new TextEncoder().encode('{not json'))))).rejects.toThrow('malformed');
+    await expect(readEnvelope(streamOf(encode({ ...header, recipients: [] })))).rejects.toThrow('malformed');
+    await expect(readEnvelope(streamOf(encode({ ...header, chunkSize: 0 })))).rejects.toThrow('malformed');
+    await expect(readEnvelope(streamOf(encode({ ...header, signature: undefined })))).rejects.toThrow('malformed');
+    await expect(readEnvelope(streamOf(encode({ ...header, sender: { ...header.sender, suite: 'rot13' } })))).rejects.toThrow('malformed');
+    await expect(readEnvelope(streamOf(encode({
+      ...header,
+      recipients: [{ ...header.recipients[0], kem: 'unknown-kem' }],
+    })))).rejects.toThrow('malformed');
+  });
+});
+
+describe('envelope signing hash', () => {
+  const signingHash = async (...args: Parameters<typeof envelopeSigningHash>) =>
+    new Uint8Array(await envelopeSigningHash(...args));
+  const digest = crypto.getRandomValues(new Uint8Array(32)).buffer as ArrayBuffer;
+  const { signature: _signature, ...fields } = header;
+
+  it('does not depend on the signature or field order', async () => {
+    const reordered = Object.fromEntries(Object.entries(fields).reverse()) as unknown as typeof fields;
+    expect(await signingHash(reordered, digest)).toEqual(await signingHash(fields, digest));
+    expect(await signingHash(header, digest)).toEqual(await signingHash(fields, digest));
+  });
+
+  it('changes with every signed field and the ciphertext digest', async () => {
+    const signed = await signingHash(fields, digest);
+    const variants = [
+      { ...fields, chunkSize: 2048 },
+      { ...fields, nonce: 'BAAAAAAAAAAAAAAA' },
+      { ...fields, metadata: 'b3RoZXI=' },
+      { ...fields, sender: { ...fields.sender, keyId: 2 } },
+      { ...fields, recipients: [fields.recipients[0]] },
+      { ...fields, recipients: [{ ...fields.recipients[0], kem: undefined }, fields.recipients[1]] },
+      { ...fields, recipients: [{ ...fields.recipients[0], encryptedKey: 'b3RoZXI=' }, fields.recipients[1]] },
+    ];
+    for (const variant of variants) {
+      expect(await signingHash(variant, digest)).not.toEqual(signed);
+    }
+    expect(await signingHash(fields, new Uint8Array(32).buffer)).not.toEqual(signed);
+  });
+});
+
+describe('envelope metadata', () => {
+  it('round-trips encrypted metadata', async () => {
+    const key = await generateAESKey();
+    const plaintext = new TextEncoder().encode('{"fileName":"a.txt"}');
+    const metadata = await encryptMetadata(plaintext, key);
+
+    expect(new Uint8Array(await decryptMetadata({ ...header, metadata }, key))).toEqual(plaintext);
+  });
+
+  it('rejects modified metadata or the wrong key', async () => {
+    const key = await generateAESKey();
+    const metadata = await encryptMetadata(new TextEncoder().encode('{"fileName":"a.txt"}'), key);
+    const bytes = Uint8Array.from(atob(metadata), (c) => c.charCodeAt(0));
+    bytes[bytes.byteLength - 1] ^= 1;
+    const tampered = btoa(String.fromCharCode(...bytes));
+
+    await expect(decryptMetadata({ ...header, metadata: tampered }, key)).rejects.toThrow('could not be decrypted');
+    await expect(decryptMetadata({ ...header, metadata }, await generateAESKey())).rejects.toThrow('could not be decrypted');
+  });
+
+  it('reads version 1 metadata as plain bytes', async () => {
+    const metadata = await decryptMetadata({ ...header, version: 1 }, await generateAESKey());
+    expect(new TextDecoder().decode(metadata)).toBe('metadata');
+  });
+});
+
+describe('findRecipient', () => {
+  it('finds the entry for a recipient and refuses anyone else', () => {
+    expect(findRecipient(header, 'receiver-2')).toBe(header.recipients[1]);
+    expect(() => findRecipient(header, 'someone-else')).toThrow('not encrypted for you');
+  });
+});
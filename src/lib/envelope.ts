@@ -0,0 +1,251 @@
+// Vortex Envelope
+// A single self-describing container per transfer:
+//
+//   magic "VRTX" (4) | format version (1) | header length, uint32 BE (4) | header (UTF-8 JSON) | ciphertext chunks
+//
+// The header names the chunk size, base nonce, sender and recipients (each with
+// its key version, suite, hybrid KEM if any and wrapped content key), carries the signed file
+// metadata, and ends with the sender signature over the header fields and the
+// chained ciphertext digest. The same bytes can be stored, exported and verified
+// anywhere without any out-of-band fields.
+//
+// From version 2 the metadata (file name, type, size, modification time) is
+// encrypted under the content key, so the server never sees it.
+
+import {
+  hashData,
+  concatenateBuffers,
+  generateNonce,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+} from '@/lib/crypto';
+import { isSuiteId, SuiteId } from '@/lib/cryptoSuites';
+import { isKemId, KemId } from '@/lib/hybridKem';
+
+export const ENVELOPE_MAGIC = new Uint8Array([0x56, 0x52, 0x54, 0x58]);
+export const ENVELOPE_VERSION = 2;
+const SUPPORTED_VERSIONS = [1, 2];
+const METADATA_NONCE_LENGTH = 12;
+export const ENVELOPE_MEDIA_TYPE = 'application/vnd.vortex.envelope';
+export const ENVELOPE_EXTENSION = '.vortex';
+const PREFIX_LENGTH = ENVELOPE_MAGIC.byteLength + 1 + 4;
+const MAX_HEADER_LENGTH = 1024 * 1024;
+
+export interface EnvelopeRecipient {
+  userId: string;
+  keyId: number;
+  suite: SuiteId;
+  // Set when the content key is wrapped with post-quantum hybrid encryption
+  kem?: KemId;
+  // Content key wrapped to this recipient's key, base64
+  encryptedKey: string;
+}
+
+export interface EnvelopeSender {
+  userId: string;
+  keyId: number;
+  suite: SuiteId;
+  signingPublicKey: string;
+}
+
+// Everything in the header except the signature
+export interface EnvelopeFields {
+  version: number;
+  chunkSize: number;
+  // Base nonce for the chunked AES-GCM stream, base64
+  nonce: string;
+  // Canonical file header (see fileHeader.ts): version 1 plain, version 2 as
+  // nonce || AES-GCM ciphertext under the content key; base64
+  metadata: string;
+  sender: EnvelopeSender;
+  recipients: EnvelopeRecipient[];
+}
+
+export interface EnvelopeHeader extends EnvelopeFields {
+  signature: string;
+}
+
+// Fixed field order, so signer and verifier hash the same bytes
+function encodeEnvelopeFields(fields: EnvelopeFields): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify({
+    version: fields.version,
+    chunkSize: fields.chunkSize,
+    nonce: fields.nonce,
+    metadata: fields.metadata,
+    sender: {
+      userId: fields.sender.userId,
+      keyId: fields.sender.keyId,
+      suite: fields.sender.suite,
+      signingPublicKey: fields.sender.signingPublicKey,
+    },
+    recipients: fields.recipients.map((recipient) => ({
+      userId: recipient.userId,
+      keyId: recipient.keyId,
+      suite: recipient.suite,
+      ...(recipient.kem ? { kem: recipient.kem } : {}),
+      encryptedKey: recipient.encryptedKey,
+    })),
+  }));
+}
+
+// Hash the sender signs: header fields followed by the chained ciphertext digest
+export async function envelopeSigningHash(fields: EnvelopeFields, ciphertextDigest: ArrayBuffer): Promise<ArrayBuffer> {
+  return await hashData(concatenateBuffers(encodeEnvelopeFields(fields).buffer, ciphertextDigest));
+}
+
+// Magic, version, length and header; the ciphertext chunks follow directly
+export function encodeEnvelopePrefix(header: EnvelopeHeader): Uint8Array<ArrayBuffer> {
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const prefix = new Uint8Array(PREFIX_LENGTH + headerBytes.byteLength);
+  prefix.set(ENVELOPE_MAGIC, 0);
+  prefix[ENVELOPE_MAGIC.byteLength] = header.version;
+  new DataView(prefix.buffer).setUint32(ENVELOPE_MAGIC.byteLength + 1, headerBytes.byteLength);
+  prefix.set(headerBytes, PREFIX_LENGTH);
+  return prefix;
+}
+
+function isValidHeader(header: Partial<EnvelopeHeader>): header is EnvelopeHeader {
+  const sender = header.sender;
+  return (
+    SUPPORTED_VERSIONS.includes(header.version as number) &&
+    Number.isSafeInteger(header.chunkSize) && (header.chunkSize as number) > 0 &&
+    typeof header.nonce === 'string' &&
+    typeof header.metadata === 'string' &&
+    typeof header.signature === 'string' &&
+    !!sender &&
+    typeof sender.userId === 'string' &&
+    Number.isSafeInteger(sender.keyId) &&
+    isSuiteId(sender.suite) &&
+    typeof sender.signingPublicKey === 'string' &&
+    Array.isArray(header.recipients) &&
+    header.recipients.length > 0 &&
+    header.recipients.every((recipient) =>
+      typeof recipient.userId === 'string' &&
+      Number.isSafeInteger(recipient.keyId) &&
+      isSuiteId(recipient.suite) &&
+      (recipient.kem === undefined || isKemId(recipient.kem)) &&
+      typeof recipient.encryptedKey === 'string'
+    )
+  );
+}
+
+function parseEnvelopeHeader(bytes: Uint8Array): EnvelopeHeader {
+  let parsed: Partial<EnvelopeHeader>;
+  try {
+    parsed = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+  } catch {
+    throw new Error('Envelope header is malformed');
+  }
+  if (!isValidHeader(parsed)) {
+    throw new Error('Envelope header is malformed');
+  }
+  return parsed;
+}
+
+// Read the prefix of an envelope stream. Returns the parsed header and a stream
+// of the ciphertext chunks that follow it.
+export async function readEnvelope(
+  stream: ReadableStream<Uint8Array>
+): Promise<{ header: EnvelopeHeader; headerLength: number; ciphertext: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader();
+  let buffered = new Uint8Array(0);
+
+  const fill = async (length: number) => {
+    while (buffered.byteLength < length) {
+      const { done, value } = await reader.read();
+      if (done) {
+        throw new Error('Envelope is truncated');
+      }
+      const next = new Uint8Array(buffered.byteLength + value.byteLength);
+      next.set(buffered, 0);
+      next.set(value, buffered.byteLength);
+      buffered = next;
+    }
+  };
+
+  try {
+    await fill(PREFIX_LENGTH);
+    if (ENVELOPE_MAGIC.some((byte, i) => buffered[i] !== byte)) {
+      throw new Error('Not a Vortex envelope');
+    }
+    const version = buffered[ENVELOPE_MAGIC.byteLength];
+    if (!SUPPORTED_VERSIONS.includes(version)) {
+      throw new Error(`Unsupported envelope version: ${version}`);
+    }
+    const headerLength = new DataView(buffered.buffer, buffered.byteOffset).getUint32(ENVELOPE_MAGIC.byteLength + 1);
+    if (headerLength > MAX_HEADER_LENGTH) {
+      throw new Error('Envelope header is too large');
+    }
+
+    await fill(PREFIX_LENGTH + headerLength);
+    const header = parseEnvelopeHeader(buffered.subarray(PREFIX_LENGTH, PREFIX_LENGTH + headerLength));
+    if (header.version !== version) {
+      throw new Error('Envelope header is malformed');
+    }
+    let leftover: Uint8Array | null = buffered.subarray(PREFIX_LENGTH + headerLength);
+
+    const ciphertext = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (leftover) {
+          const chunk = leftover;
+          leftover = null;
+          if (chunk.byteLength > 0) {
+            controller.enqueue(chunk);
+            return;
+          }
+        }
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+
+    return { header, headerLength: PREFIX_LENGTH + headerLength, ciphertext };
+  } catch (err) {
+    reader.cancel().catch(() => undefined);
+    throw err;
+  }
+}
+
+// The recipient entry for a user, or an error if the file was not encrypted to them
+export function findRecipient(header: EnvelopeHeader, userId: string): EnvelopeRecipient {
+  const recipient = header.recipients.find((r) => r.userId === userId);
+  if (!recipient) {
+    throw new Error('This file was not encrypted for you');
+  }
+  return recipient;
+}
+
+// Encrypt the canonical file header under the content key, with its own nonce
+export async function encryptMetadata(fileHeader: Uint8Array<ArrayBuffer>, aesKey: CryptoKey): Promise<string> {
+  const nonce = generateNonce();
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce as Uint8Array<ArrayBuffer> },
+    aesKey,
+    fileHeader
+  );
+  return arrayBufferToBase64(concatenateBuffers(nonce.buffer as ArrayBuffer, ciphertext));
+}
+
+// The canonical file header bytes of an envelope
+export async function decryptMetadata(header: EnvelopeFields, aesKey: CryptoKey): Promise<ArrayBuffer> {
+  const metadata = base64ToArrayBuffer(header.metadata);
+  if (header.version === 1) {
+    return metadata;
+  }
+  try {
+    return await window.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: metadata.slice(0, METADATA_NONCE_LENGTH) },
+      aesKey,
+      metadata.slice(METADATA_NONCE_LENGTH)
+    );
+  } catch {
+    throw new Error('File metadata could not be decrypted');
+  }
+}
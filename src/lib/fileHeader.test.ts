@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFileHeader, encodeFileHeader, FileHeader, FILE_HEADER_VERSION } from '@/lib/fileHeader';
+
+const header: FileHeader = {
+  version: FILE_HEADER_VERSION,
+  senderId: 'sender-1',
+  receiverIds: ['receiver-1', 'receiver-2'],
+  fileName: 'report.pdf',
+  fileSize: 1234,
+  timestamp: '2026-01-02T03:04:05.000Z',
+  senderKeyId: 2,
+  mimeType: 'application/pdf',
+  lastModified: 1700000000000,
+  padding: 'padme',
+  compression: 'gzip',
+  compressedSize: 1000,
+};
+
+function bytesOf(json: string): ArrayBuffer {
+  return new TextEncoder().encode(json).buffer as ArrayBuffer;
+}
+
+describe('file header encoding', () => {
+  it('round-trips through the canonical encoding', () => {
+    expect(decodeFileHeader(encodeFileHeader(header).buffer)).toEqual(header);
+  });
+
+  it('encodes keys in sorted order without whitespace, whatever the input order', () => {
+    const reordered = Object.fromEntries(Object.entries(header).reverse()) as unknown as FileHeader;
+    const encoded = new TextDecoder().decode(encodeFileHeader(reordered));
+
+    expect(encoded).toBe(new TextDecoder().decode(encodeFileHeader(header)));
+    expect(encoded.startsWith('{"compressedSize":1000,"compression":"gzip","fileName":"report.pdf"')).toBe(true);
+    expect(encoded).not.toMatch(/\s/);
+  });
+
+  it('leaves out fields the version does not cover', () => {
+    const encoded = new TextDecoder().decode(encodeFileHeader({ ...header, version: 1, receiverId: 'receiver-1' }));
+
+    expect(JSON.parse(encoded)).toEqual({
+      fileName: 'report.pdf',
+      fileSize: 1234,
+      receiverId: 'receiver-1',
+      senderId: 'sender-1',
+      timestamp: '2026-01-02T03:04:05.000Z',
+      version: 1,
+    });
+  });
+
+  it('rejects headers that are not canonically encoded', () => {
+    const encoded = new TextDecoder().decode(encodeFileHeader(header));
+    const spaced = encoded.replace('"fileName":', '"fileName": ');
+    const reordered = JSON.stringify(Object.fromEntries(Object.entries(JSON.parse(encoded)).reverse()));
+
+    expect(() => decodeFileHeader(bytesOf(spaced))).toThrow('not canonically encoded');
+    expect(() => decodeFileHeader(bytesOf(reordered))).toThrow('not canonically encoded');
+  });
+
+  it('rejects extra fields', () => {
+    const extra = new TextDecoder().decode(encodeFileHeader(header)).replace('{', '{"admin":true,');
+
+    expect(() => decodeFileHeader(bytesOf(extra))).toThrow('not canonically encoded');
+  });
+
+  it('rejects missing or mistyped fields', () => {
+    const withField = (field: string, value: unknown) =>
+      bytesOf(JSON.stringify({ ...JSON.parse(new TextDecoder().decode(encodeFileHeader(header))), [field]: value }));
+
+    expect(() => decodeFileHeader(withField('fileSize', -1))).toThrow('malformed');
+    expect(() => decodeFileHeader(withField('fileSize', '1234'))).toThrow('malformed');
+    expect(() => decodeFileHeader(withField('receiverIds', []))).toThrow('malformed');
+    expect(() => decodeFileHeader(withField('padding', 'random'))).toThrow('malformed');
+    expect(() => decodeFileHeader(withField('compression', 'brotli'))).toThrow('malformed');
+    expect(() => decodeFileHeader(withField('senderKeyId', undefined))).toThrow('malformed');
+  });
+
+  it('rejects unknown versions and invalid UTF-8', () => {
+    expect(() => encodeFileHeader({ ...header, version: 99 })).toThrow('Unsupported file header version');
+    expect(() => decodeFileHeader(bytesOf(JSON.stringify({ ...header, version: 99 })))).toThrow('Unsupported file header version');
+    expect(() => decodeFileHeader(new Uint8Array([0x7b, 0xff, 0x7d]).buffer)).toThrow('malformed');
+  });
+});
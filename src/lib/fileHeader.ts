@@ -0,0 +1,128 @@
+// Signed File Header
+// Transfer metadata is canonically encoded and covered by the sender signature,
+// so the server cannot rename, re-route or re-attribute a file.
+
+import { isSuiteId, SuiteId } from '@/lib/cryptoSuites';
+import { isPaddingScheme, PaddingScheme } from '@/lib/padding';
+import { isCompressionAlgorithm, CompressionAlgorithm } from '@/lib/compression';
+
+// Version 2 adds the key versions used on both sides, version 3 the crypto suite.
+// Version 4 lists every recipient; their key versions and suites are signed in the envelope.
+// Version 5 adds the MIME type and modification time; it is only ever sent encrypted.
+// Version 6 adds the size padding scheme; fileSize stays the real, unpadded size.
+// Version 7 adds the compression algorithm and the compressed size that was padded.
+export const FILE_HEADER_VERSION = 7;
+
+// Fields encoded for each header version
+const HEADER_FIELDS: Record<number, (keyof FileHeader)[]> = {
+  1: ['fileName', 'fileSize', 'receiverId', 'senderId', 'timestamp', 'version'],
+  2: ['fileName', 'fileSize', 'receiverId', 'recipientKeyId', 'senderId', 'senderKeyId', 'timestamp', 'version'],
+  3: ['fileName', 'fileSize', 'receiverId', 'recipientKeyId', 'senderId', 'senderKeyId', 'suite', 'timestamp', 'version'],
+  4: ['fileName', 'fileSize', 'receiverIds', 'senderId', 'senderKeyId', 'timestamp', 'version'],
+  5: ['fileName', 'fileSize', 'lastModified', 'mimeType', 'receiverIds', 'senderId', 'senderKeyId', 'timestamp', 'version'],
+  6: ['fileName', 'fileSize', 'lastModified', 'mimeType', 'padding', 'receiverIds', 'senderId', 'senderKeyId', 'timestamp', 'version'],
+  7: ['compressedSize', 'compression', 'fileName', 'fileSize', 'lastModified', 'mimeType', 'padding', 'receiverIds', 'senderId', 'senderKeyId', 'timestamp', 'version'],
+};
+
+export interface FileHeader {
+  version: number;
+  senderId: string;
+  // Versions 1 to 3: the single recipient
+  receiverId?: string;
+  // Present from version 4: every recipient of the shared ciphertext
+  receiverIds?: string[];
+  fileName: string;
+  fileSize: number;
+  timestamp: string;
+  // Present from version 2
+  senderKeyId?: number;
+  // Versions 2 and 3
+  recipientKeyId?: number;
+  // Version 3: suite the content key was wrapped with
+  suite?: SuiteId;
+  // Present from version 5; lastModified in milliseconds since the epoch
+  mimeType?: string;
+  lastModified?: number;
+  // Present from version 6: how the plaintext was padded before encryption
+  padding?: PaddingScheme;
+  // Present from version 7: compression applied before padding, and the size it produced
+  compression?: CompressionAlgorithm;
+  compressedSize?: number;
+}
+
+// Canonical encoding: UTF-8 JSON with keys in sorted order and no whitespace
+export function encodeFileHeader(header: FileHeader): Uint8Array<ArrayBuffer> {
+  const fields = HEADER_FIELDS[header.version];
+  if (!fields) {
+    throw new Error(`Unsupported file header version: ${header.version}`);
+  }
+  const canonical = Object.fromEntries(fields.map((field) => [field, header[field]]));
+  return new TextEncoder().encode(JSON.stringify(canonical));
+}
+
+// Parse and validate a header; anything that does not re-encode to the same bytes is rejected
+export function decodeFileHeader(bytes: ArrayBuffer): FileHeader {
+  let parsed: Partial<FileHeader>;
+  try {
+    parsed = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+  } catch {
+    throw new Error('File header is malformed');
+  }
+
+  if (!HEADER_FIELDS[parsed.version as number]) {
+    throw new Error(`Unsupported file header version: ${parsed.version}`);
+  }
+  if (
+    typeof parsed.senderId !== 'string' ||
+    typeof parsed.fileName !== 'string' ||
+    typeof parsed.timestamp !== 'string' ||
+    !Number.isSafeInteger(parsed.fileSize) ||
+    parsed.fileSize < 0
+  ) {
+    throw new Error('File header is malformed');
+  }
+  const version = parsed.version as number;
+  if (version < 4 && typeof parsed.receiverId !== 'string') {
+    throw new Error('File header is malformed');
+  }
+  if (
+    version >= 4 &&
+    (!Array.isArray(parsed.receiverIds) ||
+      parsed.receiverIds.length === 0 ||
+      !parsed.receiverIds.every((id) => typeof id === 'string'))
+  ) {
+    throw new Error('File header is malformed');
+  }
+  if (version >= 5 && (typeof parsed.mimeType !== 'string' || !Number.isSafeInteger(parsed.lastModified))) {
+    throw new Error('File header is malformed');
+  }
+  if (version >= 6 && !isPaddingScheme(parsed.padding)) {
+    throw new Error('File header is malformed');
+  }
+  if (
+    version >= 7 &&
+    (!isCompressionAlgorithm(parsed.compression) ||
+      !Number.isSafeInteger(parsed.compressedSize) ||
+      parsed.compressedSize < 0)
+  ) {
+    throw new Error('File header is malformed');
+  }
+  if (version >= 2 && !Number.isSafeInteger(parsed.senderKeyId)) {
+    throw new Error('File header is malformed');
+  }
+  if ((version === 2 || version === 3) && !Number.isSafeInteger(parsed.recipientKeyId)) {
+    throw new Error('File header is malformed');
+  }
+  if (version === 3 && !isSuiteId(parsed.suite)) {
+    throw new Error('File header is malformed');
+  }
+
+  const header = parsed as FileHeader;
+  const reencoded = encodeFileHeader(header);
+  const original = new Uint8Array(bytes);
+  if (reencoded.byteLength !== original.byteLength || reencoded.some((byte, i) => byte !== original[i])) {
+    throw new Error('File header is not canonically encoded');
+  }
+
+  return header;
+}
@@ -0,0 +1,70 @@
+// Encrypted file metadata
+// Envelope files carry their name, type, size and modification time only inside the
+// envelope, encrypted under the content key. The inbox reads them from the small
+// envelope prefix of each file instead of trusting names listed by the server.
+
+import { getFileHeader, getUserId, InboxFile } from '@/lib/api';
+import { base64ToArrayBuffer } from '@/lib/crypto';
+import { SuiteId } from '@/lib/cryptoSuites';
+import { decryptMetadata, findRecipient, EnvelopeHeader, EnvelopeRecipient } from '@/lib/envelope';
+import { decodeFileHeader, FileHeader } from '@/lib/fileHeader';
+import { getGroupDecryptionKey, groupRecipientId } from '@/lib/groups';
+import { unwrapContentKeyWith } from '@/lib/hybridKem';
+import { getDecryptionKey, getKeys, DecryptionKey, StoredKeys } from '@/lib/keyStorage';
+
+export interface ContentKey {
+  // Our entry in the envelope: our own user id, or the group the file was sent to
+  recipientId: string;
+  recipient: EnvelopeRecipient;
+  suite: SuiteId;
+  aesKey: CryptoKey;
+}
+
+// Unwrap the content key of an envelope with our key (or a group key) of the version
+// it was encrypted to
+export async function openContentKey(
+  header: EnvelopeHeader,
+  keys: StoredKeys,
+  groupId: string | null,
+  getGroupKey: (groupId: string, keyEpoch: number) => Promise<DecryptionKey> = getGroupDecryptionKey
+): Promise<ContentKey> {
+  const recipientId = groupId ? groupRecipientId(groupId) : getUserId() ?? '';
+  const recipient = findRecipient(header, recipientId);
+  const decryptionKey = groupId
+    ? await getGroupKey(groupId, recipient.keyId)
+    : getDecryptionKey(keys, recipient.keyId);
+  const { suite } = decryptionKey;
+  if (recipient.suite !== suite) {
+    throw new Error(`File was encrypted with the ${recipient.suite} suite, but key version ${recipient.keyId} uses ${suite}`);
+  }
+
+  const aesKey = await unwrapContentKeyWith(base64ToArrayBuffer(recipient.encryptedKey), decryptionKey, recipient.kem);
+  return { recipientId, recipient, suite, aesKey };
+}
+
+// Returns a reader for the metadata of inbox files. Group keys are unlocked once per
+// key epoch for the lifetime of the reader rather than once per file.
+export function createMetadataReader(groupId: string | null): (file: InboxFile) => Promise<FileHeader> {
+  const groupKeys = new Map<number, Promise<DecryptionKey>>();
+  const getGroupKey = (id: string, keyEpoch: number) => {
+    let key = groupKeys.get(keyEpoch);
+    if (!key) {
+      key = getGroupDecryptionKey(id, keyEpoch);
+      groupKeys.set(keyEpoch, key);
+    }
+    return key;
+  };
+
+  return async (file) => {
+    const keys = await getKeys();
+    if (!keys) {
+      throw new Error('Local keys not found');
+    }
+    const header = await getFileHeader(file.fileId);
+    if (header.sender.userId !== file.senderId) {
+      throw new Error('Envelope sender does not match the sender listed by the server');
+    }
+    const { aesKey } = await openContentKey(header, keys, groupId, getGroupKey);
+    return decodeFileHeader(await decryptMetadata(header, aesKey));
+  };
+}
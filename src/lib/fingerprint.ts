@@ -0,0 +1,71 @@
+// Key Fingerprints and Safety Numbers
+// Lets two users confirm out-of-band that the server handed them the right keys.
+
+import { base64ToArrayBuffer, concatenateBuffers } from '@/lib/crypto';
+import type { PublicKeyBundle } from '@/lib/api';
+
+const FINGERPRINT_VERSION = 1;
+// Iterated hashing makes it expensive to grind for a colliding fingerprint
+const FINGERPRINT_ITERATIONS = 5200;
+const FINGERPRINT_GROUPS = 6;
+const SAFETY_NUMBER_QR_PREFIX = 'vortex-safety-number';
+
+// Fingerprints cover the key material only, not the key version
+export type FingerprintKeys = Pick<PublicKeyBundle, 'encryption' | 'signing'> & Partial<Pick<PublicKeyBundle, 'pqEncryption'>>;
+
+// Digits derived from one user's public keys; the ML-KEM key is only included when the
+// user has one, so fingerprints of older keys stay the same
+export async function computeFingerprint(userId: string, keys: FingerprintKeys): Promise<string> {
+  const encoder = new TextEncoder();
+  const input = concatenateBuffers(
+    new Uint8Array([FINGERPRINT_VERSION]).buffer,
+    encoder.encode(userId).buffer,
+    base64ToArrayBuffer(keys.encryption),
+    keys.signing ? base64ToArrayBuffer(keys.signing) : new ArrayBuffer(0),
+    keys.pqEncryption ? base64ToArrayBuffer(keys.pqEncryption) : new ArrayBuffer(0)
+  );
+
+  let hash = input;
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = await window.crypto.subtle.digest('SHA-512', concatenateBuffers(hash, input));
+  }
+
+  // Each 5-byte group becomes a 5-digit number
+  const bytes = new Uint8Array(hash);
+  let digits = '';
+  for (let group = 0; group < FINGERPRINT_GROUPS; group++) {
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+      value = value * 256 + bytes[group * 5 + i];
+    }
+    digits += String(value % 100000).padStart(5, '0');
+  }
+  return digits;
+}
+
+// Combined number for a pair of users; both sides compute the same digits
+export async function computeSafetyNumber(
+  ownUserId: string,
+  ownKeys: FingerprintKeys,
+  contactUserId: string,
+  contactKeys: FingerprintKeys
+): Promise<string> {
+  const own = await computeFingerprint(ownUserId, ownKeys);
+  const contact = await computeFingerprint(contactUserId, contactKeys);
+  return ownUserId < contactUserId ? own + contact : contact + own;
+}
+
+// Split digits into 5-digit groups for display
+export function formatDigits(digits: string): string[] {
+  return digits.match(/.{1,5}/g) ?? [];
+}
+
+// Content encoded in the QR code shown on the verification screen
+export function safetyNumberQRPayload(safetyNumber: string): string {
+  return `${SAFETY_NUMBER_QR_PREFIX}:${FINGERPRINT_VERSION}:${safetyNumber}`;
+}
+
+// Check a scanned QR payload against our locally computed safety number
+export function matchesScannedSafetyNumber(scanned: string, safetyNumber: string): boolean {
+  return scanned.trim() === safetyNumberQRPayload(safetyNumber);
+}
@@ -0,0 +1,69 @@
+// Group checkpoints
+// The latest group state this account has verified is remembered per group, so the
+// server cannot later serve a shorter or different history: rolling a group back would
+// bring back a group key that a removed member still holds.
+
+import { getUserId } from '@/lib/api';
+
+// One database per account: `vortex-groups:<userId>`
+const DB_NAME = 'vortex-groups';
+const DB_VERSION = 1;
+const STORE_NAME = 'groups';
+
+export interface GroupCheckpoint {
+  groupId: string;
+  epoch: number;
+  // SHA-256 of the signed state at that epoch, base64
+  stateHash: string;
+}
+
+function openDB(): Promise<IDBDatabase> {
+  const accountId = getUserId();
+  if (!accountId) {
+    return Promise.reject(new Error('Session is missing your user id - please sign in again'));
+  }
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(`${DB_NAME}:${accountId}`, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'groupId' });
+      }
+    };
+  });
+}
+
+export async function getGroupCheckpoint(groupId: string): Promise<GroupCheckpoint | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).get(groupId);
+
+    transaction.oncomplete = () => resolve((request.result as GroupCheckpoint) || null);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Move the checkpoint forward; an older epoch never replaces a newer one
+export async function saveGroupCheckpoint(checkpoint: GroupCheckpoint): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(checkpoint.groupId);
+
+    request.onsuccess = () => {
+      const existing = request.result as GroupCheckpoint | undefined;
+      if (!existing || existing.epoch < checkpoint.epoch) {
+        store.put(checkpoint);
+      }
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
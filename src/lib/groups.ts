@@ -0,0 +1,502 @@
+// Team groups
+// A group has its own encryption key pair. Its private key is encrypted under a
+// per-epoch AES key, and that key is wrapped to each member like a file content key.
+// Every membership change is a new group state signed by an admin of the previous
+// state, so members and senders can check the member list and group key without
+// trusting the server. Admin keys are checked against the contact pins like any other
+// contact's, and the latest verified state is remembered so the history cannot be
+// rolled back. Removing a member always starts a new key epoch.
+
+import {
+  exportPublicKey,
+  exportPrivateKey,
+  generateAESKey,
+  generateNonce,
+  hashData,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  concatenateBuffers,
+} from '@/lib/crypto';
+import { getSuite, isSuiteId, DEFAULT_SUITE_ID, SuiteId } from '@/lib/cryptoSuites';
+import {
+  getUserId,
+  getUserPublicKey,
+  getReceiverPublicKey,
+  parsePublicKeyBundle,
+  createGroup as createGroupRequest,
+  getGroups,
+  getGroup,
+  submitGroupChange,
+  GroupDetails,
+  GroupKeyEpoch,
+  PublicKeyBundle,
+  SignedGroupState,
+} from '@/lib/api';
+import { getKeys, getDecryptionKey, DecryptionKey, StoredKeys } from '@/lib/keyStorage';
+import { getVerifiedKeyVersion } from '@/lib/keyRotation';
+import { findRevocation } from '@/lib/revocation';
+import { checkContactKeys, pinContactKeys } from '@/lib/contactStorage';
+import { getGroupCheckpoint, saveGroupCheckpoint } from '@/lib/groupStorage';
+import type { EnvelopeRecipient } from '@/lib/envelope';
+
+const GROUP_STATE_CONTEXT = 'vortex-group-v1';
+const GROUP_RECIPIENT_PREFIX = 'group:';
+const NONCE_LENGTH = 12;
+
+export type GroupRole = 'admin' | 'member';
+
+export interface GroupMember {
+  userId: string;
+  // As looked up by the admin who added them; null for the creator
+  email: string | null;
+  role: GroupRole;
+}
+
+export interface GroupState {
+  context: string;
+  groupId: string;
+  name: string;
+  // Incremented by every change
+  epoch: number;
+  // Incremented whenever the group key pair is replaced
+  keyEpoch: number;
+  suite: SuiteId;
+  encryptionPublicKey: string;
+  members: GroupMember[];
+  // SHA-256 of the previous signed state, base64; null for the first
+  previous: string | null;
+  signer: { userId: string; keyId: number };
+}
+
+// Envelope recipient id for a group, kept apart from user ids
+export function groupRecipientId(groupId: string): string {
+  return `${GROUP_RECIPIENT_PREFIX}${groupId}`;
+}
+
+// The group id of a group recipient id, or null for a user
+export function parseGroupRecipientId(recipientId: string): string | null {
+  return recipientId.startsWith(GROUP_RECIPIENT_PREFIX) ? recipientId.slice(GROUP_RECIPIENT_PREFIX.length) : null;
+}
+
+export function isGroupAdmin(state: GroupState, userId: string | null): boolean {
+  return state.members.some((m) => m.userId === userId && m.role === 'admin');
+}
+
+// Fixed field order, so signer and verifier hash the same bytes
+function encodeGroupState(state: GroupState): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify({
+    context: state.context,
+    groupId: state.groupId,
+    name: state.name,
+    epoch: state.epoch,
+    keyEpoch: state.keyEpoch,
+    suite: state.suite,
+    encryptionPublicKey: state.encryptionPublicKey,
+    members: state.members.map((m) => ({ userId: m.userId, email: m.email, role: m.role })),
+    previous: state.previous,
+    signer: { userId: state.signer.userId, keyId: state.signer.keyId },
+  }));
+}
+
+function decodeGroupState(encoded: string): GroupState {
+  const bytes = new Uint8Array(base64ToArrayBuffer(encoded));
+  let state: GroupState;
+  try {
+    state = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+  } catch {
+    throw new Error('Group state is malformed');
+  }
+  if (
+    state.context !== GROUP_STATE_CONTEXT ||
+    typeof state.groupId !== 'string' ||
+    typeof state.name !== 'string' ||
+    !Number.isSafeInteger(state.epoch) ||
+    !Number.isSafeInteger(state.keyEpoch) ||
+    !isSuiteId(state.suite) ||
+    typeof state.encryptionPublicKey !== 'string' ||
+    !Array.isArray(state.members) ||
+    !state.members.every((m) =>
+      typeof m.userId === 'string' &&
+      (typeof m.email === 'string' || m.email === null) &&
+      (m.role === 'admin' || m.role === 'member')
+    ) ||
+    !state.signer ||
+    typeof state.signer.userId !== 'string' ||
+    !Number.isSafeInteger(state.signer.keyId)
+  ) {
+    throw new Error('Group state is malformed');
+  }
+
+  const reencoded = encodeGroupState(state);
+  if (reencoded.byteLength !== bytes.byteLength || reencoded.some((byte, i) => byte !== bytes[i])) {
+    throw new Error('Group state is not canonically encoded');
+  }
+  return state;
+}
+
+async function signGroupState(state: GroupState, keys: StoredKeys): Promise<SignedGroupState> {
+  const encoded = encodeGroupState(state);
+  const signature = await getSuite(keys.suite).sign(await hashData(encoded.buffer), keys.signingPrivateKey);
+  return { state: arrayBufferToBase64(encoded.buffer), signature: arrayBufferToBase64(signature) };
+}
+
+// A user's current published keys, checked against the keys pinned for them, and
+// whether their owner revoked them. Our own must match the local keys.
+async function getTrustedKeys(
+  userId: string,
+  email: string | null
+): Promise<{ keys: PublicKeyBundle; revoked: boolean }> {
+  const published = await getUserPublicKey(userId);
+  const keys = parsePublicKeyBundle(published.publicKey);
+  const revoked = !!(await findRevocation(userId, keys, published.revocations));
+  if (userId === getUserId()) {
+    const own = requireKeys(await getKeys());
+    if (keys.keyId !== own.keyId || keys.signing !== own.signingPublicKey || keys.encryption !== own.encryptionPublicKey) {
+      throw new Error('The keys published for your account do not match this device');
+    }
+    return { keys, revoked };
+  }
+
+  const keyCheck = await checkContactKeys(userId, email, keys);
+  if (keyCheck.status === 'changed') {
+    throw new Error(`Keys for ${email || userId} changed since you last saw them. Review them before using this group.`);
+  }
+  if (keyCheck.status !== 'match') {
+    await pinContactKeys(userId, email, keys, keyCheck.status === 'rotated');
+  }
+  return { keys, revoked };
+}
+
+// Check the whole history from the first state: each change is signed by an admin of the
+// state before it, and no member leaves without a new key epoch. Returns the current state.
+export async function verifyGroupHistory(groupId: string, history: SignedGroupState[]): Promise<GroupState> {
+  if (history.length === 0) {
+    throw new Error('Group has no history');
+  }
+
+  const signerKeys = new Map<string, { suite: SuiteId; signing: string | null }>();
+  const lookupSigner = async (userId: string, email: string | null, keyId: number) => {
+    const cacheKey = `${userId}:${keyId}`;
+    let version = signerKeys.get(cacheKey);
+    if (!version) {
+      version = await getVerifiedKeyVersion(userId, keyId, (await getTrustedKeys(userId, email)).keys);
+      signerKeys.set(cacheKey, version);
+    }
+    return version;
+  };
+
+  let previous: GroupState | null = null;
+  for (let i = 0; i < history.length; i++) {
+    const state = decodeGroupState(history[i].state);
+    if (state.groupId !== groupId || state.epoch !== i + 1) {
+      throw new Error('Group history is out of order');
+    }
+
+    if (previous) {
+      const previousHash = arrayBufferToBase64(await hashData(base64ToArrayBuffer(history[i - 1].state)));
+      if (state.previous !== previousHash) {
+        throw new Error('Group history is broken');
+      }
+      if (state.keyEpoch === previous.keyEpoch) {
+        const memberRemoved = previous.members.some((m) => !state.members.some((n) => n.userId === m.userId));
+        if (memberRemoved) {
+          throw new Error('A member was removed from the group without a new group key');
+        }
+        if (state.encryptionPublicKey !== previous.encryptionPublicKey || state.suite !== previous.suite) {
+          throw new Error('Group key changed without a new key epoch');
+        }
+      } else if (state.keyEpoch !== previous.keyEpoch + 1) {
+        throw new Error('Group key epochs are out of order');
+      }
+    } else if (state.previous !== null || state.keyEpoch !== 1) {
+      throw new Error('Group history does not start at the beginning');
+    }
+
+    // The first state is signed by its creator, every later one by an admin of the state before it
+    if (!isGroupAdmin(previous ?? state, state.signer.userId)) {
+      throw new Error('Group change was not made by a group admin');
+    }
+    const signerEmail = (previous ?? state).members.find((m) => m.userId === state.signer.userId)?.email ?? null;
+    const signer = await lookupSigner(state.signer.userId, signerEmail, state.signer.keyId);
+    if (!signer.signing) {
+      throw new Error('Group admin has not published a signing key');
+    }
+    const suite = getSuite(signer.suite);
+    const valid = await suite.verify(
+      base64ToArrayBuffer(history[i].signature),
+      await hashData(base64ToArrayBuffer(history[i].state)),
+      await suite.importSigningPublicKey(signer.signing)
+    ).catch(() => false);
+    if (!valid) {
+      throw new Error('Group change signature is invalid');
+    }
+
+    previous = state;
+  }
+  return previous as GroupState;
+}
+
+// Verify a group's history and check that it extends the latest state we verified before
+export async function getVerifiedGroup(groupId: string): Promise<{ state: GroupState; details: GroupDetails }> {
+  const details = await getGroup(groupId);
+  const state = await verifyGroupHistory(groupId, details.history);
+
+  const stateHash = async (epoch: number) =>
+    arrayBufferToBase64(await hashData(base64ToArrayBuffer(details.history[epoch - 1].state)));
+  const checkpoint = await getGroupCheckpoint(groupId);
+  if (checkpoint) {
+    if (state.epoch < checkpoint.epoch) {
+      throw new Error('The server returned an older version of this group than you have already seen');
+    }
+    if (await stateHash(checkpoint.epoch) !== checkpoint.stateHash) {
+      throw new Error('The group history differs from the one you have already seen');
+    }
+  }
+  await saveGroupCheckpoint({ groupId, epoch: state.epoch, stateHash: await stateHash(state.epoch) });
+
+  return { state, details };
+}
+
+// Look up one of our groups by its signed name, to address it like a user
+export async function findGroup(name: string): Promise<GroupState> {
+  const wanted = name.trim().toLowerCase();
+  const match = (await getGroups()).find((g) => g.name.toLowerCase() === wanted);
+  if (!match) {
+    throw new Error(`You are not in a group named "${name.trim()}"`);
+  }
+  const { state } = await getVerifiedGroup(match.groupId);
+  if (state.name.toLowerCase() !== wanted) {
+    throw new Error('Group name listed by the server does not match the signed group name');
+  }
+  if (!state.members.some((m) => m.userId === getUserId())) {
+    throw new Error(`You are not a member of the group "${state.name}"`);
+  }
+  return state;
+}
+
+// The current group key in the shape of a user's key bundle, with the key epoch as its version
+export function groupPublicKeyBundle(state: GroupState): PublicKeyBundle {
+  return {
+    suite: state.suite,
+    encryption: state.encryptionPublicKey,
+    signing: null,
+    pqEncryption: null,
+    keyId: state.keyEpoch,
+    rotation: null,
+  };
+}
+
+function requireKeys(keys: StoredKeys | null): StoredKeys {
+  if (!keys) {
+    throw new Error('Local keys not found');
+  }
+  return keys;
+}
+
+// A member's current encryption key, checked against the keys pinned for them.
+// Group keys are never wrapped to a revoked key. Our own comes from the local keys
+// rather than the directory.
+async function getMemberKeys(
+  userId: string,
+  email: string | null,
+  own: StoredKeys
+): Promise<Pick<PublicKeyBundle, 'suite' | 'keyId' | 'encryption'>> {
+  if (userId === getUserId()) {
+    return { suite: own.suite, keyId: own.keyId, encryption: own.encryptionPublicKey };
+  }
+  const { keys, revoked } = await getTrustedKeys(userId, email);
+  if (revoked) {
+    throw new Error(`${email || userId} has revoked their keys and cannot get the group key until they set up new ones`);
+  }
+  return keys;
+}
+
+// Wrap an epoch key to one member the same way a file content key is wrapped
+async function grantEpochKey(
+  epochKey: CryptoKey,
+  userId: string,
+  email: string | null,
+  own: StoredKeys
+): Promise<EnvelopeRecipient> {
+  const memberKeys = await getMemberKeys(userId, email, own);
+  const suite = getSuite(memberKeys.suite);
+  const wrapped = await suite.wrapContentKey(epochKey, await suite.importEncryptionPublicKey(memberKeys.encryption));
+  return { userId, keyId: memberKeys.keyId, suite: suite.id, encryptedKey: arrayBufferToBase64(wrapped) };
+}
+
+// Generate a group key pair and encrypt it for the given members
+async function createKeyEpoch(
+  keyEpoch: number,
+  members: GroupMember[],
+  own: StoredKeys
+): Promise<{ key: GroupKeyEpoch; encryptionPublicKey: string; suite: SuiteId }> {
+  const suite = getSuite(DEFAULT_SUITE_ID);
+  const keyPair = await suite.generateEncryptionKeyPair();
+  const privateKey = base64ToArrayBuffer(await exportPrivateKey(keyPair.privateKey));
+
+  const epochKey = await generateAESKey();
+  const nonce = generateNonce();
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce as Uint8Array<ArrayBuffer> },
+    epochKey,
+    privateKey
+  );
+
+  const grants: EnvelopeRecipient[] = [];
+  for (const member of members) {
+    grants.push(await grantEpochKey(epochKey, member.userId, member.email, own));
+  }
+
+  return {
+    key: {
+      keyEpoch,
+      encryptedPrivateKey: arrayBufferToBase64(concatenateBuffers(nonce.buffer as ArrayBuffer, ciphertext)),
+      grants,
+    },
+    encryptionPublicKey: await exportPublicKey(keyPair.publicKey),
+    suite: suite.id,
+  };
+}
+
+// Recover our copy of an epoch key
+async function openEpochKey(details: GroupDetails, keyEpoch: number, keys: StoredKeys): Promise<{
+  epoch: GroupKeyEpoch;
+  epochKey: CryptoKey;
+}> {
+  const userId = getUserId();
+  const epoch = details.keys.find((k) => k.keyEpoch === keyEpoch);
+  const grant = epoch?.grants.find((g) => g.userId === userId);
+  if (!epoch || !grant) {
+    throw new Error('You do not hold this group key. You may have been added after this file was sent.');
+  }
+
+  const { suite, privateKey } = getDecryptionKey(keys, grant.keyId);
+  if (grant.suite !== suite) {
+    throw new Error('Group key grant does not match your key version');
+  }
+  const epochKey = await getSuite(suite).unwrapContentKey(base64ToArrayBuffer(grant.encryptedKey), privateKey);
+  return { epoch, epochKey };
+}
+
+// The group private key for one key epoch, for decrypting files sent to the group
+export async function getGroupDecryptionKey(groupId: string, keyEpoch: number): Promise<DecryptionKey> {
+  const keys = requireKeys(await getKeys());
+  const { state, details } = await getVerifiedGroup(groupId);
+  if (!state.members.some((m) => m.userId === getUserId())) {
+    throw new Error('You are no longer a member of this group');
+  }
+
+  // The suite of that epoch comes from the signed history
+  const epochState = details.history
+    .map((entry) => decodeGroupState(entry.state))
+    .find((s) => s.keyEpoch === keyEpoch);
+  if (!epochState) {
+    throw new Error(`Group key epoch ${keyEpoch} does not exist`);
+  }
+
+  const { epoch, epochKey } = await openEpochKey(details, keyEpoch, keys);
+  const encrypted = base64ToArrayBuffer(epoch.encryptedPrivateKey);
+  let privateKey: ArrayBuffer;
+  try {
+    privateKey = await window.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: encrypted.slice(0, NONCE_LENGTH) },
+      epochKey,
+      encrypted.slice(NONCE_LENGTH)
+    );
+  } catch {
+    throw new Error('Group key is corrupted');
+  }
+
+  const suite = getSuite(epochState.suite);
+  return { suite: suite.id, privateKey: await suite.importEncryptionPrivateKey(arrayBufferToBase64(privateKey)) };
+}
+
+// Create a group with ourselves as its only admin
+export async function createGroup(name: string): Promise<string> {
+  const keys = requireKeys(await getKeys());
+  const userId = getUserId();
+  if (!userId) {
+    throw new Error('Session is missing your user id - please sign in again');
+  }
+
+  const groupId = window.crypto.randomUUID();
+  const members: GroupMember[] = [{ userId, email: null, role: 'admin' }];
+  const { key, encryptionPublicKey, suite } = await createKeyEpoch(1, members, keys);
+  const state: GroupState = {
+    context: GROUP_STATE_CONTEXT,
+    groupId,
+    name: name.trim(),
+    epoch: 1,
+    keyEpoch: 1,
+    suite,
+    encryptionPublicKey,
+    members,
+    previous: null,
+    signer: { userId, keyId: keys.keyId },
+  };
+
+  await createGroupRequest({ update: await signGroupState(state, keys), key });
+  return groupId;
+}
+
+// Next state after `current`, signed by us as an admin of it
+async function nextState(
+  details: GroupDetails,
+  current: GroupState,
+  keys: StoredKeys,
+  changes: Partial<Pick<GroupState, 'members' | 'keyEpoch' | 'suite' | 'encryptionPublicKey'>>
+): Promise<SignedGroupState> {
+  const userId = getUserId();
+  if (!isGroupAdmin(current, userId)) {
+    throw new Error('Only group admins can change the members');
+  }
+  const state: GroupState = {
+    ...current,
+    ...changes,
+    epoch: current.epoch + 1,
+    previous: arrayBufferToBase64(await hashData(base64ToArrayBuffer(details.history[details.history.length - 1].state))),
+    signer: { userId: userId as string, keyId: keys.keyId },
+  };
+  return await signGroupState(state, keys);
+}
+
+// Add a member by email and grant them the current group key
+export async function addGroupMember(groupId: string, email: string, role: GroupRole): Promise<void> {
+  const keys = requireKeys(await getKeys());
+  const { state, details } = await getVerifiedGroup(groupId);
+
+  const { userId } = await getReceiverPublicKey(email);
+  if (state.members.some((m) => m.userId === userId)) {
+    throw new Error(`${email} is already in this group`);
+  }
+
+  const { epochKey } = await openEpochKey(details, state.keyEpoch, keys);
+  const grant = await grantEpochKey(epochKey, userId, email, keys);
+  const update = await nextState(details, state, keys, {
+    members: [...state.members, { userId, email, role }],
+  });
+  await submitGroupChange(groupId, { update, grants: [grant] });
+}
+
+// Remove a member and rekey, so they cannot read anything sent to the group afterwards
+export async function removeGroupMember(groupId: string, userId: string): Promise<void> {
+  const keys = requireKeys(await getKeys());
+  const { state, details } = await getVerifiedGroup(groupId);
+
+  const members = state.members.filter((m) => m.userId !== userId);
+  if (members.length === state.members.length) {
+    throw new Error('Not a member of this group');
+  }
+  if (!members.some((m) => m.role === 'admin')) {
+    throw new Error('A group needs at least one admin');
+  }
+
+  const { key, encryptionPublicKey, suite } = await createKeyEpoch(state.keyEpoch + 1, members, keys);
+  const update = await nextState(details, state, keys, {
+    members,
+    keyEpoch: key.keyEpoch,
+    suite,
+    encryptionPublicKey,
+  });
+  await submitGroupChange(groupId, { update, key });
+}
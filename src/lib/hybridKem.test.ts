@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { PublicKeyBundle } from '@/lib/api';
+import { base64ToArrayBuffer, exportPublicKey, generateAESKey } from '@/lib/crypto';
+import { getSuite } from '@/lib/cryptoSuites';
+import {
+  generatePqKeyPair,
+  HYBRID_KEM_ID,
+  pqPublicKeyFromSeed,
+  supportsHybridKem,
+  unwrapContentKeyWith,
+  wrapContentKeyTo,
+} from '@/lib/hybridKem';
+import type { DecryptionKey } from '@/lib/keyStorage';
+
+const suite = getSuite('x25519-ed25519');
+
+async function recipientKeys(): Promise<{ bundle: PublicKeyBundle; key: DecryptionKey }> {
+  const pair = await suite.generateEncryptionKeyPair();
+  const pq = generatePqKeyPair();
+  return {
+    bundle: {
+      suite: suite.id,
+      encryption: await exportPublicKey(pair.publicKey),
+      signing: null,
+      pqEncryption: pq.publicKey,
+      keyId: 1,
+      rotation: null,
+    },
+    key: { suite: suite.id, privateKey: pair.privateKey, pqPrivateKey: new Uint8Array(base64ToArrayBuffer(pq.privateKey)) },
+  };
+}
+
+async function rawKey(key: CryptoKey): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.exportKey('raw', key));
+}
+
+describe('hybrid key wrapping', () => {
+  it('round-trips a content key', async () => {
+    const { bundle, key } = await recipientKeys();
+    const aesKey = await generateAESKey();
+
+    const wrapped = await wrapContentKeyTo(aesKey, bundle, HYBRID_KEM_ID);
+    expect(wrapped.byteLength).toBe(32 + 1088 + 12 + 32 + 16);
+    expect(await rawKey(await unwrapContentKeyWith(wrapped, key, HYBRID_KEM_ID))).toEqual(await rawKey(aesKey));
+  });
+
+  it('round-trips with the classical suite alone when no KEM is named', async () => {
+    const { bundle, key } = await recipientKeys();
+    const aesKey = await generateAESKey();
+
+    const wrapped = await wrapContentKeyTo(aesKey, bundle, null);
+    expect(await rawKey(await unwrapContentKeyWith(wrapped, key, undefined))).toEqual(await rawKey(aesKey));
+  });
+
+  it.each([
+    ['ephemeral X25519 key', 0],
+    ['ML-KEM ciphertext', 32 + 500],
+    ['nonce', 32 + 1088 + 3],
+    ['wrapped key', 32 + 1088 + 12 + 5],
+  ])('rejects a modified %s', async (_part, offset) => {
+    const { bundle, key } = await recipientKeys();
+    const wrapped = new Uint8Array(await wrapContentKeyTo(await generateAESKey(), bundle, HYBRID_KEM_ID));
+
+    wrapped[offset] ^= 1;
+    await expect(unwrapContentKeyWith(wrapped.buffer, key, HYBRID_KEM_ID)).rejects.toThrow();
+  });
+
+  it('needs both the X25519 key and the ML-KEM seed of the recipient', async () => {
+    const { bundle, key } = await recipientKeys();
+    const other = await recipientKeys();
+    const wrapped = await wrapContentKeyTo(await generateAESKey(), bundle, HYBRID_KEM_ID);
+
+    await expect(unwrapContentKeyWith(wrapped, { ...key, privateKey: other.key.privateKey }, HYBRID_KEM_ID)).rejects.toThrow();
+    await expect(unwrapContentKeyWith(wrapped, { ...key, pqPrivateKey: other.key.pqPrivateKey }, HYBRID_KEM_ID)).rejects.toThrow();
+    await expect(unwrapContentKeyWith(wrapped, { ...key, pqPrivateKey: undefined }, HYBRID_KEM_ID))
+      .rejects.toThrow('post-quantum keys that are not available');
+  });
+
+  it('is only used with X25519 keys that have an ML-KEM key', async () => {
+    const { bundle } = await recipientKeys();
+
+    expect(supportsHybridKem(bundle)).toBe(true);
+    expect(supportsHybridKem({ ...bundle, pqEncryption: null })).toBe(false);
+    expect(supportsHybridKem({ ...bundle, suite: 'rsa2048' })).toBe(false);
+    await expect(wrapContentKeyTo(await generateAESKey(), { ...bundle, pqEncryption: null }, HYBRID_KEM_ID))
+      .rejects.toThrow('do not support post-quantum encryption');
+  });
+
+  it('expands a stored seed to the published encapsulation key', () => {
+    const pq = generatePqKeyPair();
+    expect(pqPublicKeyFromSeed(pq.privateKey)).toBe(pq.publicKey);
+    expect(pqPublicKeyFromSeed(generatePqKeyPair().privateKey)).not.toBe(pq.publicKey);
+  });
+});
@@ -0,0 +1,157 @@
+// Hybrid post-quantum key wrapping
+// Wraps a content key under both an ephemeral X25519 agreement and ML-KEM-768
+// (FIPS 203). The wrapping key is derived from both shared secrets, so a file stays
+// confidential as long as either one holds: X25519 covers a flaw in the much newer
+// ML-KEM, ML-KEM covers a future quantum computer breaking X25519.
+//
+// Recipients publish their ML-KEM encapsulation key beside the X25519 key in their
+// key bundle. WebCrypto has no ML-KEM, so the decapsulation key is stored as its
+// 64-byte seed and only exists as bytes while the keys are unlocked.
+
+import { ml_kem768 } from '@noble/post-quantum/ml-kem.js';
+import { arrayBufferToBase64, base64ToArrayBuffer, concatenateBuffers, generateNonce } from '@/lib/crypto';
+import { getSuite } from '@/lib/cryptoSuites';
+import type { PublicKeyBundle } from '@/lib/api';
+import type { DecryptionKey } from '@/lib/keyStorage';
+
+export type KemId = 'x25519-mlkem768';
+
+export const HYBRID_KEM_ID: KemId = 'x25519-mlkem768';
+
+// Only X25519 keys can be combined with ML-KEM
+const HYBRID_CLASSICAL_SUITE = 'x25519-ed25519';
+const X25519_PUBLIC_KEY_LENGTH = 32;
+const MLKEM_CIPHERTEXT_LENGTH = 1088;
+const NONCE_LENGTH = 12;
+const HYBRID_WRAP_INFO = 'vortex-x25519-mlkem768-wrap-v1';
+
+export interface PqKeyPair {
+  // ML-KEM-768 encapsulation key, base64
+  publicKey: string;
+  // Seed the decapsulation key is expanded from, base64
+  privateKey: string;
+}
+
+// Copy bytes into a buffer of their own; library outputs may be views into a larger one
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+  return new Uint8Array(bytes).buffer;
+}
+
+export function isKemId(value: unknown): value is KemId {
+  return value === HYBRID_KEM_ID;
+}
+
+export function generatePqKeyPair(): PqKeyPair {
+  const seed = crypto.getRandomValues(new Uint8Array(64));
+  const { publicKey } = ml_kem768.keygen(seed);
+  return {
+    publicKey: arrayBufferToBase64(toBuffer(publicKey)),
+    privateKey: arrayBufferToBase64(seed.buffer),
+  };
+}
+
+// The encapsulation key a stored seed expands to, base64
+export function pqPublicKeyFromSeed(privateKey: string): string {
+  const { publicKey } = ml_kem768.keygen(new Uint8Array(base64ToArrayBuffer(privateKey)));
+  return arrayBufferToBase64(toBuffer(publicKey));
+}
+
+// Whether content keys can be wrapped to these published keys in hybrid mode
+export function supportsHybridKem(bundle: Pick<PublicKeyBundle, 'suite' | 'pqEncryption'>): boolean {
+  return bundle.suite === HYBRID_CLASSICAL_SUITE && !!bundle.pqEncryption;
+}
+
+// Both shared secrets go into HKDF; both ciphertexts are bound as the salt
+async function deriveHybridWrappingKey(
+  x25519Secret: ArrayBuffer,
+  mlkemSecret: Uint8Array,
+  ephemeralPublicKey: ArrayBuffer,
+  mlkemCiphertext: Uint8Array
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    concatenateBuffers(x25519Secret, toBuffer(mlkemSecret)),
+    'HKDF',
+    false,
+    ['deriveKey']
+  );
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: concatenateBuffers(ephemeralPublicKey, toBuffer(mlkemCiphertext)),
+      info: new TextEncoder().encode(HYBRID_WRAP_INFO),
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Output: ephemeral X25519 public key (32) || ML-KEM ciphertext (1088) || nonce (12) || AES-GCM(content key)
+async function wrapHybrid(aesKey: CryptoKey, keys: PublicKeyBundle): Promise<ArrayBuffer> {
+  if (!supportsHybridKem(keys)) {
+    throw new Error('Recipient keys do not support post-quantum encryption');
+  }
+  const publicKey = await getSuite(keys.suite).importEncryptionPublicKey(keys.encryption);
+  const ephemeral = await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits']) as CryptoKeyPair;
+  const ephemeralPublicKey = await crypto.subtle.exportKey('raw', ephemeral.publicKey);
+  const x25519Secret = await crypto.subtle.deriveBits({ name: 'X25519', public: publicKey }, ephemeral.privateKey, 256);
+  const { cipherText, sharedSecret } = ml_kem768.encapsulate(new Uint8Array(base64ToArrayBuffer(keys.pqEncryption!)));
+
+  const wrappingKey = await deriveHybridWrappingKey(x25519Secret, sharedSecret, ephemeralPublicKey, cipherText);
+  sharedSecret.fill(0);
+  const nonce = generateNonce();
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce as Uint8Array<ArrayBuffer> },
+    wrappingKey,
+    await crypto.subtle.exportKey('raw', aesKey)
+  );
+  return concatenateBuffers(ephemeralPublicKey, toBuffer(cipherText), nonce.buffer as ArrayBuffer, ciphertext);
+}
+
+async function unwrapHybrid(wrapped: ArrayBuffer, key: DecryptionKey, usages: KeyUsage[]): Promise<CryptoKey> {
+  if (!key.pqPrivateKey) {
+    throw new Error('This file was encrypted with post-quantum keys that are not available on this device');
+  }
+  const mlkemEnd = X25519_PUBLIC_KEY_LENGTH + MLKEM_CIPHERTEXT_LENGTH;
+  const ephemeralPublicKey = wrapped.slice(0, X25519_PUBLIC_KEY_LENGTH);
+  const mlkemCiphertext = new Uint8Array(wrapped.slice(X25519_PUBLIC_KEY_LENGTH, mlkemEnd));
+  const nonce = wrapped.slice(mlkemEnd, mlkemEnd + NONCE_LENGTH);
+  const ciphertext = wrapped.slice(mlkemEnd + NONCE_LENGTH);
+
+  const publicKey = await crypto.subtle.importKey('raw', ephemeralPublicKey, { name: 'X25519' }, false, []);
+  const x25519Secret = await crypto.subtle.deriveBits({ name: 'X25519', public: publicKey }, key.privateKey, 256);
+  const { secretKey } = ml_kem768.keygen(key.pqPrivateKey.slice());
+  const mlkemSecret = ml_kem768.decapsulate(mlkemCiphertext, secretKey);
+  secretKey.fill(0);
+
+  const wrappingKey = await deriveHybridWrappingKey(x25519Secret, mlkemSecret, ephemeralPublicKey, mlkemCiphertext);
+  mlkemSecret.fill(0);
+  const rawKey = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, wrappingKey, ciphertext);
+  return await crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM', length: 256 }, true, usages);
+}
+
+// Wrap a content key to a recipient's published keys: hybrid when a KEM is given,
+// otherwise with the recipient suite alone
+export async function wrapContentKeyTo(aesKey: CryptoKey, keys: PublicKeyBundle, kem: KemId | null): Promise<ArrayBuffer> {
+  if (kem === HYBRID_KEM_ID) {
+    return await wrapHybrid(aesKey, keys);
+  }
+  const suite = getSuite(keys.suite);
+  return await suite.wrapContentKey(aesKey, await suite.importEncryptionPublicKey(keys.encryption));
+}
+
+// Unwrap a content key with our key of the version it was wrapped to
+export async function unwrapContentKeyWith(
+  wrapped: ArrayBuffer,
+  key: DecryptionKey,
+  kem: KemId | undefined,
+  usages: KeyUsage[] = ['decrypt']
+): Promise<CryptoKey> {
+  if (kem === HYBRID_KEM_ID) {
+    return await unwrapHybrid(wrapped, key, usages);
+  }
+  return await getSuite(key.suite).unwrapContentKey(wrapped, key.privateKey, usages);
+}
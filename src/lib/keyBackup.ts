@@ -0,0 +1,162 @@
+// Encrypted key backup files (.vortexkey)
+// All four keys are encrypted under a backup password so they can be restored on another device.
+
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  derivePassphraseKey,
+  generateNonce,
+  generateSalt,
+  generateAESKey,
+} from '@/lib/crypto';
+import { getSuite, LEGACY_SUITE_ID } from '@/lib/cryptoSuites';
+import { getUserPublicKey, parsePublicKeyBundle, INITIAL_KEY_ID } from '@/lib/api';
+import { pqPublicKeyFromSeed } from '@/lib/hybridKem';
+import type { ExportedKeys } from '@/lib/keyStorage';
+
+export const KEY_BACKUP_EXTENSION = '.vortexkey';
+const KEY_BACKUP_FORMAT = 'vortexkey';
+const KEY_BACKUP_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000;
+
+interface KeyBackupFile {
+  format: string;
+  version: number;
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string;
+  };
+  iv: string;
+  ciphertext: string;
+}
+
+interface KeyBackupContents {
+  userId: string;
+  createdAt: string;
+  keys: ExportedKeys;
+}
+
+// The format and version are bound as additional data so they cannot be altered
+function backupAdditionalData(version: number): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${KEY_BACKUP_FORMAT}:${version}`);
+}
+
+// Encrypt keys into a .vortexkey file
+export async function createKeyBackup(keys: ExportedKeys, userId: string, password: string): Promise<Blob> {
+  const salt = generateSalt();
+  const iv = generateNonce();
+  const key = await derivePassphraseKey(password, salt, PBKDF2_ITERATIONS);
+
+  const contents: KeyBackupContents = {
+    userId,
+    createdAt: new Date().toISOString(),
+    keys,
+  };
+  const ciphertext = await window.crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: iv as Uint8Array<ArrayBuffer>,
+      additionalData: backupAdditionalData(KEY_BACKUP_VERSION),
+    },
+    key,
+    new TextEncoder().encode(JSON.stringify(contents))
+  );
+
+  const file: KeyBackupFile = {
+    format: KEY_BACKUP_FORMAT,
+    version: KEY_BACKUP_VERSION,
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: arrayBufferToBase64(salt.buffer as ArrayBuffer),
+    },
+    iv: arrayBufferToBase64(iv.buffer as ArrayBuffer),
+    ciphertext: arrayBufferToBase64(ciphertext),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+// Decrypt a .vortexkey file
+export async function readKeyBackup(backup: Blob, password: string): Promise<KeyBackupContents> {
+  let file: KeyBackupFile;
+  try {
+    file = JSON.parse(await backup.text());
+  } catch {
+    throw new Error('Not a valid key backup file');
+  }
+
+  if (file.format !== KEY_BACKUP_FORMAT) {
+    throw new Error('Not a valid key backup file');
+  }
+  if (file.version !== KEY_BACKUP_VERSION) {
+    throw new Error(`Unsupported key backup version: ${file.version}`);
+  }
+
+  const key = await derivePassphraseKey(
+    password,
+    new Uint8Array(base64ToArrayBuffer(file.kdf.salt)),
+    file.kdf.iterations
+  );
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await window.crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: new Uint8Array(base64ToArrayBuffer(file.iv)),
+        additionalData: backupAdditionalData(file.version),
+      },
+      key,
+      base64ToArrayBuffer(file.ciphertext)
+    );
+  } catch {
+    throw new Error('Incorrect backup password or corrupted file');
+  }
+
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+// Make sure each private key belongs to its public key
+async function checkKeyPairs(keys: ExportedKeys): Promise<void> {
+  const suite = getSuite(keys.suite ?? LEGACY_SUITE_ID);
+  const aesKey = await generateAESKey();
+  const wrapped = await suite.wrapContentKey(aesKey, await suite.importEncryptionPublicKey(keys.encryptionPublicKey));
+  await suite.unwrapContentKey(wrapped, await suite.importEncryptionPrivateKey(keys.encryptionPrivateKey)).catch(() => {
+    throw new Error('Backup encryption keys do not match each other');
+  });
+
+  const challenge = generateNonce().buffer as ArrayBuffer;
+  const signature = await suite.sign(challenge, await suite.importSigningPrivateKey(keys.signingPrivateKey));
+  const valid = await suite.verify(signature, challenge, await suite.importSigningPublicKey(keys.signingPublicKey));
+  if (!valid) {
+    throw new Error('Backup signing keys do not match each other');
+  }
+
+  if (keys.pqEncryptionPrivateKey && pqPublicKeyFromSeed(keys.pqEncryptionPrivateKey) !== keys.pqEncryptionPublicKey) {
+    throw new Error('Backup post-quantum keys do not match each other');
+  }
+}
+
+// Check restored keys against each other and against what the server publishes for the account
+export async function verifyRestoredKeys(contents: KeyBackupContents, userId: string): Promise<void> {
+  if (contents.userId !== userId) {
+    throw new Error('This backup belongs to a different account');
+  }
+
+  await checkKeyPairs(contents.keys);
+
+  const { publicKey } = await getUserPublicKey(userId);
+  const published = parsePublicKeyBundle(publicKey);
+  if (
+    published.encryption !== contents.keys.encryptionPublicKey ||
+    published.signing !== contents.keys.signingPublicKey ||
+    published.pqEncryption !== (contents.keys.pqEncryptionPublicKey ?? null) ||
+    published.keyId !== (contents.keys.keyId ?? INITIAL_KEY_ID) ||
+    published.suite !== (contents.keys.suite ?? LEGACY_SUITE_ID)
+  ) {
+    throw new Error('Backup keys do not match the keys published for your account');
+  }
+}
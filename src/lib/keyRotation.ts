@@ -0,0 +1,183 @@
+// Key rotation
+// A new key version is published together with a signature by the previous
+// version's signing key, so contacts can follow the rotation without trusting
+// the server. Old encryption keys are retired locally, not deleted.
+// New versions always use the default suite and carry an ML-KEM key, so rotating also
+// moves RSA accounts over and enables post-quantum hybrid encryption for older accounts.
+//
+// A revoked key version vouches for nothing: a rotation it signed is refused, since
+// whoever stole the key could have made it. After a revocation the account publishes
+// new keys without a rotation signature instead, and contacts see a key change that
+// they have to accept and verify again.
+
+import { hashData, arrayBufferToBase64, base64ToArrayBuffer } from '@/lib/crypto';
+import { getSuite } from '@/lib/cryptoSuites';
+import {
+  getUserPublicKey,
+  parsePublicKeyBundle,
+  serializePublicKeyBundle,
+  rotatePublicKey,
+  PublicKeyBundle,
+  SignedRevocation,
+} from '@/lib/api';
+import { exportKeysForBackup, generateAccountKeys, getKeys, storeRotatedKeys, ExportedKeys } from '@/lib/keyStorage';
+import { findRevocation } from '@/lib/revocation';
+
+const ROTATION_CONTEXT = 'vortex-key-rotation-v1';
+
+// Bytes covered by the rotation signature: the account, both versions and the new public keys.
+// The ML-KEM key is only present for bundles that have one, so earlier signatures still verify.
+function rotationSignedData(userId: string, previousKeyId: number, bundle: PublicKeyBundle): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify({
+    context: ROTATION_CONTEXT,
+    userId,
+    previousKeyId,
+    keyId: bundle.keyId,
+    suite: bundle.suite,
+    encryption: bundle.encryption,
+    signing: bundle.signing,
+    ...(bundle.pqEncryption ? { pqEncryption: bundle.pqEncryption } : {}),
+  }));
+}
+
+// Check that `next` was published by whoever held the signing key of `previous`
+export async function verifyKeyRotation(
+  userId: string,
+  previous: Pick<PublicKeyBundle, 'suite' | 'keyId' | 'signing'>,
+  next: PublicKeyBundle
+): Promise<boolean> {
+  if (!next.rotation || !previous.signing) return false;
+  if (next.rotation.previousKeyId !== previous.keyId || next.keyId <= previous.keyId) return false;
+
+  const suite = getSuite(previous.suite);
+  const hash = await hashData(rotationSignedData(userId, previous.keyId, next).buffer);
+  return await suite.verify(
+    base64ToArrayBuffer(next.rotation.signature),
+    hash,
+    await suite.importSigningPublicKey(previous.signing)
+  ).catch(() => false);
+}
+
+// Fetch an earlier key version of a user and check that an unbroken chain of
+// rotation signatures, none made by a revoked version, leads from it to the current version
+export async function getVerifiedKeyVersion(
+  userId: string,
+  keyId: number,
+  current: PublicKeyBundle
+): Promise<PublicKeyBundle> {
+  if (keyId === current.keyId) {
+    return current;
+  }
+  if (keyId > current.keyId) {
+    throw new Error(`Key version ${keyId} is newer than the published version`);
+  }
+
+  // Every lookup returns all of the user's revocations
+  const versions: PublicKeyBundle[] = [];
+  let revocations: SignedRevocation[] = [];
+  for (let id = keyId; id < current.keyId; id++) {
+    const published = await getUserPublicKey(userId, id);
+    const bundle = parsePublicKeyBundle(published.publicKey);
+    if (bundle.keyId !== id) {
+      throw new Error(`Server returned the wrong key version for ${id}`);
+    }
+    versions.push(bundle);
+    revocations = published.revocations ?? revocations;
+  }
+  versions.push(current);
+
+  for (let i = 1; i < versions.length; i++) {
+    if (await findRevocation(userId, versions[i - 1], revocations)) {
+      throw new Error(`Key version ${versions[i - 1].keyId} was revoked, so the version after it is not vouched for`);
+    }
+    if (!(await verifyKeyRotation(userId, versions[i - 1], versions[i]))) {
+      throw new Error(`Key version ${versions[i].keyId} is not signed by the previous version`);
+    }
+  }
+  return versions[0];
+}
+
+export interface RotationResult {
+  // The new keys, so callers can refresh backups that hold a copy of them
+  keys: ExportedKeys;
+  // The current version was revoked, so the new one is published without a rotation
+  // signature and contacts have to accept and verify it again
+  rekeyed: boolean;
+  // Set when publishing failed and the server could not be asked whether it took the new
+  // version anyway; the keys are kept and the version is published again with `republishKeyVersion`
+  unconfirmed: PublicKeyBundle | null;
+}
+
+// Publish a key version and confirm the server holds it. A failed request still counts
+// if the directory already lists the version. Resolves false when that cannot be told;
+// throws when the directory shows the version was not taken.
+async function publishKeyVersion(userId: string, bundle: PublicKeyBundle): Promise<boolean> {
+  try {
+    await rotatePublicKey(serializePublicKeyBundle(bundle));
+    return true;
+  } catch (err) {
+    const current = await getUserPublicKey(userId)
+      .then((response) => parsePublicKeyBundle(response.publicKey))
+      .catch(() => null);
+    if (!current) {
+      return false;
+    }
+    if (current.keyId !== bundle.keyId || current.encryption !== bundle.encryption) {
+      throw err;
+    }
+    return true;
+  }
+}
+
+// Retry publishing a rotation the server did not confirm. Resolves true once it is confirmed.
+export async function republishKeyVersion(userId: string, bundle: PublicKeyBundle): Promise<boolean> {
+  const session = await getKeys();
+  if (!session || session.keyId !== bundle.keyId || session.encryptionPublicKey !== bundle.encryption) {
+    throw new Error('These keys are no longer the current keys on this device');
+  }
+  return publishKeyVersion(userId, bundle);
+}
+
+// Generate a new key version, store it locally with the old encryption key retired
+// and publish it signed by the current signing key, or unsigned if that key is revoked.
+export async function rotateAccountKeys(userId: string, passphrase: string): Promise<RotationResult> {
+  const session = await getKeys();
+  if (!session) {
+    throw new Error('Keys are locked');
+  }
+
+  // Fails early on a wrong passphrase, before anything is published
+  await exportKeysForBackup(passphrase);
+
+  const directoryEntry = await getUserPublicKey(userId);
+  const published = parsePublicKeyBundle(directoryEntry.publicKey);
+  if (published.keyId !== session.keyId || published.encryption !== session.encryptionPublicKey) {
+    throw new Error('The keys published for your account do not match this device - sync this device before rotating');
+  }
+
+  const next = await generateAccountKeys(session.keyId + 1);
+  const bundle: PublicKeyBundle = {
+    suite: next.suite!,
+    encryption: next.encryptionPublicKey,
+    signing: next.signingPublicKey,
+    pqEncryption: next.pqEncryptionPublicKey!,
+    keyId: next.keyId!,
+    rotation: null,
+  };
+  const rekeyed = !!(await findRevocation(userId, published, directoryEntry.revocations));
+  if (!rekeyed) {
+    const hash = await hashData(rotationSignedData(userId, session.keyId, bundle).buffer);
+    const signature = await getSuite(session.suite).sign(hash, session.signingPrivateKey);
+    bundle.rotation = { previousKeyId: session.keyId, signature: arrayBufferToBase64(signature) };
+  }
+
+  // Stored before publishing; a failed publish restores the previous keys. When the
+  // request failed but the server may still have taken it, the new keys are kept:
+  // dropping keys the account might advertise would make every later file unreadable.
+  let confirmed = false;
+  await storeRotatedKeys(next, passphrase, async () => {
+    confirmed = await publishKeyVersion(userId, bundle);
+  });
+
+  return { keys: await exportKeysForBackup(passphrase), rekeyed, unconfirmed: confirmed ? null : bundle };
+}
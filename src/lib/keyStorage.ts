@@ -1,24 +1,178 @@
 // Secure browser-based key storage
-// Keys are stored in IndexedDB for persistence
+// Keys are stored in IndexedDB for persistence.
+// Private keys are only persisted wrapped under a passphrase-derived key, next to the
+// public keys. Unlocking decrypts them and imports them as non-extractable CryptoKey
+// objects that live in memory until the session is locked, so script running in an
+// unlocked session can use them but never read them back. The ML-KEM seeds have no
+// CryptoKey form and stay plain bytes in memory.
+// Keys that do not have a passphrase yet are wrapped under a non-extractable device key
+// stored beside them instead, so they survive a reload before the passphrase is chosen;
+// until then they are only as safe as the browser profile.
+
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  derivePassphraseKey,
+  exportPublicKey,
+  generateNonce,
+  generateSalt,
+  importPublicKey,
+  importSigningPublicKey,
+} from '@/lib/crypto';
+import { getSuite, LEGACY_SUITE_ID, SuiteId } from '@/lib/cryptoSuites';
+import { INITIAL_KEY_ID } from '@/lib/api';
+import { generateKeysInWorker } from '@/lib/cryptoWorker';
 
 const DB_NAME = 'vortex-keys';
 const DB_VERSION = 1;
 const STORE_NAME = 'keys';
 
-interface StoredKeys {
+const KEY_BUNDLE_ENTRY = 'keyBundle';
+// Version 3 adds key ids and retired encryption keys, version 4 the crypto suite,
+// version 5 the optional ML-KEM key, version 6 stored the private keys as CryptoKey objects
+// beside the wrapped copy, and version 7 keeps only the wrapped copy
+const KEY_BUNDLE_VERSION = 7;
+// Oldest version with the current wrapped layout
+const WRAPPED_BACKUP_VERSION = 6;
+// Entries written by earlier layouts, migrated on first read or unlock
+const LEGACY_WRAPPED_KEYS_ENTRY = 'wrappedPrivateKeys';
+const LEGACY_ENTRIES = ['encryptionPublicKey', 'encryptionPrivateKey', 'signingPublicKey', 'signingPrivateKey'];
+
+const WRAPPING_VERSION = 2;
+const PBKDF2_ITERATIONS = 600000;
+
+// Keys available to the app while unlocked. Public keys are the published SPKI
+// base64 strings; private keys are non-extractable CryptoKey objects, except the
+// ML-KEM seed, which WebCrypto cannot hold. Keys created before post-quantum
+// support have no ML-KEM key.
+// Encryption keys from earlier key versions are kept so older files still decrypt.
+export interface StoredKeys {
+  suite: SuiteId;
+  keyId: number;
   encryptionPublicKey: string;
+  encryptionPrivateKey: CryptoKey;
+  pqEncryptionPublicKey: string | null;
+  pqEncryptionPrivateKey: Uint8Array | null;
+  signingPublicKey: string;
+  signingPrivateKey: CryptoKey;
+  previousEncryptionKeys: Map<number, DecryptionKey>;
+}
+
+// A private encryption key together with the suite it belongs to,
+// and the ML-KEM seed of the same key version if it has one
+export interface DecryptionKey {
+  suite: SuiteId;
+  privateKey: CryptoKey;
+  pqPrivateKey?: Uint8Array;
+}
+
+// Encryption private keys of an earlier key version, PKCS#8 base64 (ML-KEM: seed, base64)
+export interface RetiredKey {
+  suite?: SuiteId;
+  keyId: number;
   encryptionPrivateKey: string;
+  pqEncryptionPrivateKey?: string;
+}
+
+// All four keys as base64 (SPKI / PKCS#8). Only used for new keys before they
+// are stored, for migrating earlier layouts, and for backups.
+// Keys exported before versioning have no keyId and count as the initial version;
+// keys without a suite id are RSA keys.
+export interface ExportedKeys {
+  suite?: SuiteId;
+  keyId?: number;
+  encryptionPublicKey: string;
+  encryptionPrivateKey: string;
+  pqEncryptionPublicKey?: string;
+  pqEncryptionPrivateKey?: string;
   signingPublicKey: string;
   signingPrivateKey: string;
+  retiredKeys?: RetiredKey[];
+}
+
+interface WrappedKey {
+  iv: string;
+  ciphertext: string;
+}
+
+// ML-KEM seeds by key version, base64
+type PqSeeds = Record<number, string>;
+
+// Exported keys wrapped under the passphrase
+interface PassphraseWrap {
+  version: number;
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string;
+  };
+  backup: WrappedKey;
+}
+
+// Exported keys wrapped under a device key until the user picks a passphrase
+interface PendingWrap {
+  wrappingKey: CryptoKey;
+  backup: WrappedKey;
+}
+
+// Persisted layout: public keys as CryptoKey objects (structured clone), private keys
+// only inside the wrapped copy. Exactly one of `wrapped` and `pending` is set.
+// Version 6 bundles also hold the private keys as non-extractable CryptoKey objects;
+// those fields are ignored and dropped on the next unlock.
+interface KeyBundle {
+  version: number;
+  suite: SuiteId;
+  keyId: number;
+  encryptionPublicKey: CryptoKey;
+  pqEncryptionPublicKey?: string;
+  signingPublicKey: CryptoKey;
+  wrapped: PassphraseWrap | null;
+  pending: PendingWrap | null;
+}
+
+interface LegacyWrappedPrivateKeys {
+  version: number;
+  kdf: PassphraseWrap['kdf'];
+  encryptionPrivateKey: WrappedKey;
+  pqEncryptionPrivateKey?: WrappedKey;
+  signingPrivateKey: WrappedKey;
 }
 
+// Layout before version 6: public keys as CryptoKey objects, each private key wrapped
+// under the passphrase. Converted to the current layout on the next unlock.
+interface LegacyKeyBundle {
+  version: number;
+  suite: SuiteId;
+  keyId: number;
+  encryptionPublicKey: CryptoKey;
+  pqEncryptionPublicKey?: string;
+  signingPublicKey: CryptoKey;
+  wrapped: LegacyWrappedPrivateKeys;
+  retired: {
+    suite: SuiteId;
+    keyId: number;
+    encryptionPrivateKey: WrappedKey;
+    pqEncryptionPrivateKey?: WrappedKey;
+  }[];
+}
+
+// missing: no keys on this device
+// unprotected: keys exist but have no passphrase yet (legacy plaintext layout or freshly stored)
+// locked: wrapped keys exist and the session is locked
+// unlocked: keys are available in memory
+export type KeyStatus = 'missing' | 'unprotected' | 'locked' | 'unlocked';
+
+// Non-extractable keys for the current session
+let sessionKeys: StoredKeys | null = null;
+
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
-    
+
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve(request.result);
-    
+
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
@@ -28,65 +182,421 @@ function openDB(): Promise<IDBDatabase> {
   });
 }
 
-export async function storeKeys(keys: StoredKeys): Promise<void> {
+// Read raw entries from the key store
+async function readEntries(names: string[]): Promise<Record<string, unknown>> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const transaction = db.transaction(STORE_NAME, 'readonly');
     const store = transaction.objectStore(STORE_NAME);
-    
-    store.put(keys.encryptionPublicKey, 'encryptionPublicKey');
-    store.put(keys.encryptionPrivateKey, 'encryptionPrivateKey');
-    store.put(keys.signingPublicKey, 'signingPublicKey');
-    store.put(keys.signingPrivateKey, 'signingPrivateKey');
-    
-    transaction.oncomplete = () => resolve();
+    const requests = names.map((name) => store.get(name));
+
+    transaction.oncomplete = () => {
+      const entries: Record<string, unknown> = {};
+      names.forEach((name, i) => {
+        entries[name] = requests[i].result;
+      });
+      resolve(entries);
+    };
     transaction.onerror = () => reject(transaction.error);
   });
 }
 
-export async function getKeys(): Promise<StoredKeys | null> {
+// Replace everything in the store with a single key bundle
+async function writeKeyBundle(bundle: KeyBundle): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    
-    const keys: Partial<StoredKeys> = {};
-    
-    const encPubRequest = store.get('encryptionPublicKey');
-    const encPrivRequest = store.get('encryptionPrivateKey');
-    const sigPubRequest = store.get('signingPublicKey');
-    const sigPrivRequest = store.get('signingPrivateKey');
-    
-    transaction.oncomplete = () => {
-      if (encPubRequest.result && encPrivRequest.result && sigPubRequest.result && sigPrivRequest.result) {
-        resolve({
-          encryptionPublicKey: encPubRequest.result,
-          encryptionPrivateKey: encPrivRequest.result,
-          signingPublicKey: sigPubRequest.result,
-          signingPrivateKey: sigPrivRequest.result,
-        });
-      } else {
-        resolve(null);
-      }
-    };
-    
+
+    store.clear();
+    store.put(bundle, KEY_BUNDLE_ENTRY);
+
+    transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
 }
 
+// Keys left in the original plaintext string layout
+async function readPlaintextKeys(): Promise<ExportedKeys | null> {
+  const entries = await readEntries(LEGACY_ENTRIES);
+  if (entries.encryptionPublicKey && entries.encryptionPrivateKey && entries.signingPublicKey && entries.signingPrivateKey) {
+    return entries as unknown as ExportedKeys;
+  }
+  return null;
+}
+
+// Read the stored key bundle in whichever layout it was written
+async function readStoredBundle(): Promise<KeyBundle | LegacyKeyBundle | null> {
+  const entries = await readEntries([
+    KEY_BUNDLE_ENTRY,
+    LEGACY_WRAPPED_KEYS_ENTRY,
+    'encryptionPublicKey',
+    'signingPublicKey',
+  ]);
+
+  const stored = entries[KEY_BUNDLE_ENTRY] as KeyBundle | LegacyKeyBundle | undefined;
+  if (stored) {
+    if (isCurrentBundle(stored)) {
+      return stored;
+    }
+    // Bundles written before key versioning hold RSA keys of the initial version and nothing retired
+    const bundle = { suite: LEGACY_SUITE_ID, keyId: INITIAL_KEY_ID, retired: [], ...stored };
+    bundle.retired = bundle.retired.map((retired) => ({ ...retired, suite: retired.suite ?? LEGACY_SUITE_ID }));
+    return bundle;
+  }
+
+  // The string-based wrapped layout, from before key bundles
+  if (entries[LEGACY_WRAPPED_KEYS_ENTRY] && entries.encryptionPublicKey && entries.signingPublicKey) {
+    return {
+      version: 2,
+      suite: LEGACY_SUITE_ID,
+      keyId: INITIAL_KEY_ID,
+      retired: [],
+      encryptionPublicKey: await importPublicKey(entries.encryptionPublicKey as string),
+      signingPublicKey: await importSigningPublicKey(entries.signingPublicKey as string),
+      wrapped: entries[LEGACY_WRAPPED_KEYS_ENTRY] as LegacyWrappedPrivateKeys,
+    };
+  }
+
+  return null;
+}
+
+function isCurrentBundle(bundle: KeyBundle | LegacyKeyBundle): bundle is KeyBundle {
+  return bundle.version >= WRAPPED_BACKUP_VERSION;
+}
+
+// Additional data binds each wrapped entry to its name so they cannot be swapped
+function wrapParams(iv: Uint8Array, name: string): AesGcmParams {
+  return {
+    name: 'AES-GCM',
+    iv: iv as Uint8Array<ArrayBuffer>,
+    additionalData: new TextEncoder().encode(name),
+  };
+}
+
+async function wrapEntry(plaintext: BufferSource, wrappingKey: CryptoKey, name: string): Promise<WrappedKey> {
+  const iv = generateNonce();
+  const ciphertext = await crypto.subtle.encrypt(wrapParams(iv, name), wrappingKey, plaintext);
+  return {
+    iv: arrayBufferToBase64(iv.buffer as ArrayBuffer),
+    ciphertext: arrayBufferToBase64(ciphertext),
+  };
+}
+
+async function unwrapEntry(wrappedKey: WrappedKey, wrappingKey: CryptoKey, name: string): Promise<ArrayBuffer> {
+  return await crypto.subtle.decrypt(
+    wrapParams(new Uint8Array(base64ToArrayBuffer(wrappedKey.iv)), name),
+    wrappingKey,
+    base64ToArrayBuffer(wrappedKey.ciphertext)
+  );
+}
+
+async function wrapJSON(value: unknown, wrappingKey: CryptoKey, name: string): Promise<WrappedKey> {
+  return await wrapEntry(new TextEncoder().encode(JSON.stringify(value)), wrappingKey, name);
+}
+
+async function unwrapJSON<T>(wrappedKey: WrappedKey, wrappingKey: CryptoKey, name: string): Promise<T> {
+  return JSON.parse(new TextDecoder().decode(await unwrapEntry(wrappedKey, wrappingKey, name)));
+}
+
+async function deriveWrappingKey(kdf: PassphraseWrap['kdf'], passphrase: string): Promise<CryptoKey> {
+  return await derivePassphraseKey(passphrase, new Uint8Array(base64ToArrayBuffer(kdf.salt)), kdf.iterations);
+}
+
+function retiredKeyName(keyId: number): string {
+  return `retiredEncryptionPrivateKey:${keyId}`;
+}
+
+function retiredPqKeyName(keyId: number): string {
+  return `retiredPqEncryptionPrivateKey:${keyId}`;
+}
+
+// Decrypt all keys of the layout before version 6 back to base64
+async function decryptLegacyBundle(bundle: LegacyKeyBundle, passphrase: string): Promise<ExportedKeys> {
+  const wrappingKey = await deriveWrappingKey(bundle.wrapped.kdf, passphrase);
+  const decrypt = async (wrappedKey: WrappedKey, name: string) =>
+    arrayBufferToBase64(await unwrapEntry(wrappedKey, wrappingKey, name));
+
+  try {
+    const retiredKeys: RetiredKey[] = [];
+    for (const retired of bundle.retired) {
+      retiredKeys.push({
+        suite: retired.suite,
+        keyId: retired.keyId,
+        encryptionPrivateKey: await decrypt(retired.encryptionPrivateKey, retiredKeyName(retired.keyId)),
+        ...(retired.pqEncryptionPrivateKey ? {
+          pqEncryptionPrivateKey: await decrypt(retired.pqEncryptionPrivateKey, retiredPqKeyName(retired.keyId)),
+        } : {}),
+      });
+    }
+
+    return {
+      suite: bundle.suite,
+      keyId: bundle.keyId,
+      encryptionPublicKey: await exportPublicKey(bundle.encryptionPublicKey),
+      encryptionPrivateKey: await decrypt(bundle.wrapped.encryptionPrivateKey, 'encryptionPrivateKey'),
+      ...(bundle.pqEncryptionPublicKey && bundle.wrapped.pqEncryptionPrivateKey ? {
+        pqEncryptionPublicKey: bundle.pqEncryptionPublicKey,
+        pqEncryptionPrivateKey: await decrypt(bundle.wrapped.pqEncryptionPrivateKey, 'pqEncryptionPrivateKey'),
+      } : {}),
+      signingPublicKey: await exportPublicKey(bundle.signingPublicKey),
+      signingPrivateKey: await decrypt(bundle.wrapped.signingPrivateKey, 'signingPrivateKey'),
+      retiredKeys,
+    };
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+}
+
+function pqSeedsOf(keys: ExportedKeys): PqSeeds {
+  const seeds: PqSeeds = {};
+  for (const retired of keys.retiredKeys ?? []) {
+    if (retired.pqEncryptionPrivateKey) {
+      seeds[retired.keyId] = retired.pqEncryptionPrivateKey;
+    }
+  }
+  if (keys.pqEncryptionPrivateKey) {
+    seeds[keys.keyId ?? INITIAL_KEY_ID] = keys.pqEncryptionPrivateKey;
+  }
+  return seeds;
+}
+
+function pqSeed(seeds: PqSeeds, keyId: number): Uint8Array | undefined {
+  return seeds[keyId] ? new Uint8Array(base64ToArrayBuffer(seeds[keyId])) : undefined;
+}
+
+// Import the public keys as CryptoKey objects; the private keys go into the wrapped copy
+async function buildKeyBundle(
+  keys: ExportedKeys,
+  protection: Pick<KeyBundle, 'wrapped' | 'pending'>
+): Promise<KeyBundle> {
+  const suiteId = keys.suite ?? LEGACY_SUITE_ID;
+  const suite = getSuite(suiteId);
+  return {
+    version: KEY_BUNDLE_VERSION,
+    suite: suiteId,
+    keyId: keys.keyId ?? INITIAL_KEY_ID,
+    encryptionPublicKey: await suite.importEncryptionPublicKey(keys.encryptionPublicKey),
+    pqEncryptionPublicKey: keys.pqEncryptionPublicKey,
+    signingPublicKey: await suite.importSigningPublicKey(keys.signingPublicKey),
+    ...protection,
+  };
+}
+
+// Session keys from a stored bundle and its unwrapped keys, private keys imported non-extractable
+async function openSession(bundle: KeyBundle, keys: ExportedKeys): Promise<StoredKeys> {
+  const seeds = pqSeedsOf(keys);
+  const previousEncryptionKeys = new Map<number, DecryptionKey>();
+  for (const retired of keys.retiredKeys ?? []) {
+    const retiredSuite = retired.suite ?? LEGACY_SUITE_ID;
+    previousEncryptionKeys.set(retired.keyId, {
+      suite: retiredSuite,
+      privateKey: await getSuite(retiredSuite).importEncryptionPrivateKey(retired.encryptionPrivateKey),
+      pqPrivateKey: pqSeed(seeds, retired.keyId),
+    });
+  }
+
+  const suite = getSuite(bundle.suite);
+  return {
+    suite: bundle.suite,
+    keyId: bundle.keyId,
+    encryptionPublicKey: await exportPublicKey(bundle.encryptionPublicKey),
+    encryptionPrivateKey: await suite.importEncryptionPrivateKey(keys.encryptionPrivateKey),
+    pqEncryptionPublicKey: bundle.pqEncryptionPublicKey ?? null,
+    pqEncryptionPrivateKey: pqSeed(seeds, bundle.keyId) ?? null,
+    signingPublicKey: await exportPublicKey(bundle.signingPublicKey),
+    signingPrivateKey: await suite.importSigningPrivateKey(keys.signingPrivateKey),
+    previousEncryptionKeys,
+  };
+}
+
+// Decrypt the wrapped copy of every key
+async function unwrapBackup(wrapped: PassphraseWrap, passphrase: string): Promise<ExportedKeys> {
+  const wrappingKey = await deriveWrappingKey(wrapped.kdf, passphrase);
+  try {
+    return await unwrapJSON<ExportedKeys>(wrapped.backup, wrappingKey, 'backup');
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+}
+
+// Generate a new key version in the default suite, with an ML-KEM key, in the crypto worker.
+// The keys are exported once so they can be stored, backed up and put into the
+// recovery bundle; only non-extractable copies are kept after that.
+export function generateAccountKeys(keyId: number): Promise<ExportedKeys> {
+  return generateKeysInWorker(keyId);
+}
+
+// Persist keys and protect the backup copy with the passphrase; any older layout is replaced.
+// The session is unlocked afterwards.
+export async function storeKeys(keys: ExportedKeys, passphrase: string): Promise<void> {
+  const salt = generateSalt();
+  const wrappingKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const bundle = await buildKeyBundle(keys, {
+    wrapped: {
+      version: WRAPPING_VERSION,
+      kdf: {
+        name: 'PBKDF2',
+        hash: 'SHA-256',
+        iterations: PBKDF2_ITERATIONS,
+        salt: arrayBufferToBase64(salt.buffer as ArrayBuffer),
+      },
+      backup: await wrapJSON(keys, wrappingKey, 'backup'),
+    },
+    pending: null,
+  });
+
+  await writeKeyBundle(bundle);
+  sessionKeys = await openSession(bundle, keys);
+}
+
+// Persist new, restored or linked keys before the user has picked a passphrase, so a
+// reload does not lose them. The key status is 'unprotected' until protectKeys runs.
+export async function storeUnprotectedKeys(keys: ExportedKeys): Promise<void> {
+  const wrappingKey = await crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  await writeKeyBundle(await buildKeyBundle(keys, {
+    wrapped: null,
+    pending: { wrappingKey, backup: await wrapJSON(keys, wrappingKey, 'pendingBackup') },
+  }));
+  sessionKeys = null;
+}
+
+// Protect keys that do not have a passphrase yet (new keys or the original plaintext layout)
+export async function protectKeys(passphrase: string): Promise<void> {
+  const stored = await readStoredBundle();
+  let keys: ExportedKeys | null = null;
+  if (stored && isCurrentBundle(stored) && stored.pending) {
+    keys = await unwrapJSON<ExportedKeys>(stored.pending.backup, stored.pending.wrappingKey, 'pendingBackup');
+  } else if (!stored) {
+    keys = await readPlaintextKeys();
+  }
+  if (!keys) {
+    throw new Error('No unprotected keys found');
+  }
+  await storeKeys(keys, passphrase);
+}
+
+// Open a session with the stored keys: unwrap them and import the private keys
+// non-extractable. Bundles in an earlier layout are converted to the current one on the way.
+export async function unlockKeys(passphrase: string): Promise<void> {
+  const stored = await readStoredBundle();
+  if (!stored || (isCurrentBundle(stored) && !stored.wrapped)) {
+    throw new Error('Local keys not found');
+  }
+
+  if (!isCurrentBundle(stored)) {
+    await storeKeys(await decryptLegacyBundle(stored, passphrase), passphrase);
+    return;
+  }
+
+  const keys = await unwrapBackup(stored.wrapped!, passphrase);
+  if (stored.version !== KEY_BUNDLE_VERSION) {
+    // Rewritten without the private keys an earlier version kept beside the wrapped copy
+    await storeKeys(keys, passphrase);
+    return;
+  }
+  sessionKeys = await openSession(stored, keys);
+}
+
+// Export all keys for a backup. This is the only path that turns private keys
+// back into bytes, and it requires the passphrase even while unlocked.
+export async function exportKeysForBackup(passphrase: string): Promise<ExportedKeys> {
+  const stored = await readStoredBundle();
+  if (!stored) {
+    throw new Error('Local keys not found');
+  }
+  if (!isCurrentBundle(stored)) {
+    return await decryptLegacyBundle(stored, passphrase);
+  }
+  if (!stored.wrapped) {
+    throw new Error('Set a passphrase before exporting your keys');
+  }
+  return await unwrapBackup(stored.wrapped, passphrase);
+}
+
+// Replace the current keys with a new version, then publish it. The current encryption
+// key is retired rather than deleted so files encrypted to it still decrypt. The new keys
+// are stored before `publish` runs, so the account never advertises keys this device
+// does not hold; if publishing fails the previous keys are restored.
+export async function storeRotatedKeys(
+  next: ExportedKeys,
+  passphrase: string,
+  publish: () => Promise<void>
+): Promise<void> {
+  const current = await exportKeysForBackup(passphrase);
+  const currentKeyId = current.keyId ?? INITIAL_KEY_ID;
+  if ((next.keyId ?? INITIAL_KEY_ID) <= currentKeyId) {
+    throw new Error('Rotated keys must have a newer key id');
+  }
+
+  await storeKeys({
+    ...next,
+    retiredKeys: [
+      ...(current.retiredKeys ?? []),
+      {
+        suite: current.suite,
+        keyId: currentKeyId,
+        encryptionPrivateKey: current.encryptionPrivateKey,
+        pqEncryptionPrivateKey: current.pqEncryptionPrivateKey,
+      },
+    ],
+  }, passphrase);
+
+  try {
+    await publish();
+  } catch (err) {
+    await storeKeys(current, passphrase);
+    throw err;
+  }
+}
+
+// Private key for a file encrypted to the given key version (current version when not recorded)
+export function getDecryptionKey(keys: StoredKeys, keyId?: number): DecryptionKey {
+  if (keyId === undefined || keyId === keys.keyId) {
+    return { suite: keys.suite, privateKey: keys.encryptionPrivateKey, pqPrivateKey: keys.pqEncryptionPrivateKey ?? undefined };
+  }
+  const previous = keys.previousEncryptionKeys.get(keyId);
+  if (!previous) {
+    throw new Error(`This file was encrypted to key version ${keyId}, which is not available on this device`);
+  }
+  return previous;
+}
+
+// Forget the unwrapped keys; they stay on disk wrapped
+export function lockKeys(): void {
+  sessionKeys = null;
+}
+
+export async function getKeyStatus(): Promise<KeyStatus> {
+  if (sessionKeys) return 'unlocked';
+  const stored = await readStoredBundle();
+  if (stored) return isCurrentBundle(stored) && stored.pending ? 'unprotected' : 'locked';
+  if (await readPlaintextKeys()) return 'unprotected';
+  return 'missing';
+}
+
+// Keys for the current session, or null while locked
+export async function getKeys(): Promise<StoredKeys | null> {
+  return sessionKeys;
+}
+
 export async function clearKeys(): Promise<void> {
+  sessionKeys = null;
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
     store.clear();
-    
+
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
 }
 
 export async function hasKeys(): Promise<boolean> {
-  const keys = await getKeys();
-  return keys !== null;
+  return (await getKeyStatus()) !== 'missing';
 }
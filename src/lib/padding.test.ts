@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { createPaddingStream, createUnpaddingStream, isPaddingScheme, paddedLength } from '@/lib/padding';
+
+async function run(input: Uint8Array, ...transforms: TransformStream<Uint8Array, Uint8Array>[]): Promise<Uint8Array> {
+  let stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let offset = 0; offset < input.byteLength; offset += 100) {
+        controller.enqueue(input.slice(offset, offset + 100));
+      }
+      controller.close();
+    },
+  });
+  for (const transform of transforms) {
+    stream = stream.pipeThrough(transform);
+  }
+  const reader = stream.getReader();
+  const bytes: number[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return new Uint8Array(bytes);
+    bytes.push(...value);
+  }
+}
+
+describe('paddedLength', () => {
+  it('pads to Padmé sizes', () => {
+    expect(paddedLength(9, 'padme')).toBe(10);
+    expect(paddedLength(1000, 'padme')).toBe(1024);
+    expect(paddedLength(1025, 'padme')).toBe(1088);
+    expect(paddedLength(5_000_000_000, 'padme')).toBe(5_033_164_800);
+  });
+
+  it('pads to the next power of two', () => {
+    expect(paddedLength(1000, 'pow2')).toBe(1024);
+    expect(paddedLength(1024, 'pow2')).toBe(1024);
+    expect(paddedLength(1025, 'pow2')).toBe(2048);
+    expect(paddedLength(5_000_000_000, 'pow2')).toBe(2 ** 33);
+  });
+
+  it('leaves lengths alone without a scheme or below two bytes', () => {
+    expect(paddedLength(1000, 'none')).toBe(1000);
+    expect(paddedLength(0, 'padme')).toBe(0);
+    expect(paddedLength(1, 'pow2')).toBe(1);
+  });
+
+  it('never shrinks and keeps Padmé overhead within 12%', () => {
+    for (let length = 2; length < 100_000; length = Math.ceil(length * 1.37) + 1) {
+      const padme = paddedLength(length, 'padme');
+      expect(padme).toBeGreaterThanOrEqual(length);
+      expect(padme).toBeLessThanOrEqual(length * 1.12);
+      expect(paddedLength(length, 'pow2')).toBeGreaterThanOrEqual(padme);
+    }
+  });
+
+  it('recognizes only known schemes', () => {
+    expect(isPaddingScheme('padme')).toBe(true);
+    expect(isPaddingScheme('random')).toBe(false);
+    expect(isPaddingScheme(undefined)).toBe(false);
+  });
+});
+
+describe('padding streams', () => {
+  it('round-trips through padding and unpadding', async () => {
+    const input = crypto.getRandomValues(new Uint8Array(1000));
+    const padded = await run(input, createPaddingStream(paddedLength(1000, 'padme') - 1000));
+
+    expect(padded.byteLength).toBe(1024);
+    expect(padded.subarray(0, 1000)).toEqual(input);
+    expect(padded.subarray(1000).every((byte) => byte === 0)).toBe(true);
+    expect(await run(padded, createUnpaddingStream(1000))).toEqual(input);
+  });
+
+  it('drops everything past the signed length', async () => {
+    const input = crypto.getRandomValues(new Uint8Array(500));
+    const extended = new Uint8Array(700);
+    extended.set(input, 0);
+    extended.fill(0xff, 500);
+
+    expect(await run(extended, createUnpaddingStream(500))).toEqual(input);
+  });
+});
@@ -0,0 +1,60 @@
+// Size padding
+// The plaintext is padded with zero bytes before encryption so the ciphertext length
+// only reveals a size bucket. The real length is kept in the encrypted, signed file
+// header, and the receiver strips the padding as it decrypts.
+//
+// padme: Padmé (PURBs, Nikitin et al.) - at most ~12% overhead, leaks O(log log L) bits
+// pow2:  next power of two - at most 100% overhead, leaks O(log L) bits
+
+import { DEFAULT_PADDING } from '@/config/padding';
+
+export type PaddingScheme = 'none' | 'padme' | 'pow2';
+
+// Zero bytes are appended in blocks of at most this size
+const PADDING_BLOCK_SIZE = 1024 * 1024;
+
+export function isPaddingScheme(value: unknown): value is PaddingScheme {
+  return value === 'none' || value === 'padme' || value === 'pow2';
+}
+
+// Organization default for the per-send toggle
+export const DEFAULT_PADDING_SCHEME: PaddingScheme = isPaddingScheme(DEFAULT_PADDING) ? DEFAULT_PADDING : 'none';
+
+// Length after padding; the arithmetic avoids 32-bit bit operations so large files work
+export function paddedLength(length: number, scheme: PaddingScheme): number {
+  if (scheme === 'none' || length < 2) {
+    return length;
+  }
+  if (scheme === 'pow2') {
+    return 2 ** Math.ceil(Math.log2(length));
+  }
+  const exponent = Math.floor(Math.log2(length));
+  const sizeBits = Math.floor(Math.log2(exponent)) + 1;
+  const step = 2 ** (exponent - sizeBits);
+  return Math.ceil(length / step) * step;
+}
+
+// Pass the input through, then append `padding` zero bytes
+export function createPaddingStream(padding: number): TransformStream<Uint8Array, Uint8Array> {
+  return new TransformStream<Uint8Array, Uint8Array>({
+    flush(controller) {
+      for (let remaining = padding; remaining > 0; remaining -= PADDING_BLOCK_SIZE) {
+        controller.enqueue(new Uint8Array(Math.min(remaining, PADDING_BLOCK_SIZE)));
+      }
+    },
+  });
+}
+
+// Pass the first `length` bytes through and drop the padding after them
+export function createUnpaddingStream(length: number): TransformStream<Uint8Array, Uint8Array> {
+  let passed = 0;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      const take = Math.min(chunk.byteLength, length - passed);
+      if (take > 0) {
+        controller.enqueue(take === chunk.byteLength ? chunk : chunk.subarray(0, take));
+        passed += take;
+      }
+    },
+  });
+}
@@ -0,0 +1,29 @@
+// QR code helpers
+// Generation via the qrcode package; scanning via the browser's BarcodeDetector
+
+import QRCode from 'qrcode';
+
+// Minimal typing for the Shape Detection API, which TypeScript's DOM lib does not include yet
+export interface DetectedBarcode {
+  rawValue: string;
+}
+
+export interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetectorInstance;
+  }
+}
+
+// Render text as a QR code image data URL
+export async function createQRCodeDataURL(text: string): Promise<string> {
+  return await QRCode.toDataURL(text, { errorCorrectionLevel: 'M', margin: 1, width: 256 });
+}
+
+// Whether this browser can scan QR codes from the camera
+export function canScanQRCodes(): boolean {
+  return !!window.BarcodeDetector && !!navigator.mediaDevices?.getUserMedia;
+}
@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getUserId,
+  getUserPublicKey,
+  postReceipt,
+  serializePublicKeyBundle,
+  SignedReceipt,
+} from '@/lib/api';
+import { checkContactKeys, pinContactKeys, PinnedContact } from '@/lib/contactStorage';
+import { arrayBufferToBase64 } from '@/lib/crypto';
+import { getSuite } from '@/lib/cryptoSuites';
+import type { EnvelopeHeader } from '@/lib/envelope';
+import { getVerifiedGroup, groupRecipientId, GroupState } from '@/lib/groups';
+import type { StoredKeys } from '@/lib/keyStorage';
+import { createReceiptVerifier, sendDeliveryReceipt } from '@/lib/receipts';
+import { createTestKeys, publicKeyBundleOf } from '@/test/helpers';
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  getUserId: vi.fn(),
+  getUserPublicKey: vi.fn(),
+  postReceipt: vi.fn(),
+}));
+
+vi.mock('@/lib/contactStorage', () => ({
+  checkContactKeys: vi.fn(),
+  pinContactKeys: vi.fn(),
+}));
+
+vi.mock('@/lib/groups', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/groups')>()),
+  getVerifiedGroup: vi.fn(),
+}));
+
+vi.mock('@/lib/cryptoWorker', async () => (await import('@/test/helpers')).mainThreadCryptoWorker);
+
+const FILE_ID = 'file-1';
+const GROUP = groupRecipientId('group-1');
+
+let accounts: Record<string, StoredKeys>;
+let pins: Map<string, PinnedContact>;
+let envelope: EnvelopeHeader;
+const contentHash = crypto.getRandomValues(new Uint8Array(32)).buffer as ArrayBuffer;
+
+// Sign a receipt as `signerId` and return what was posted for the sender
+async function receiptFrom(signerId: string, recipientId: string, hash = contentHash): Promise<SignedReceipt> {
+  vi.mocked(getUserId).mockReturnValue(signerId);
+  await sendDeliveryReceipt(FILE_ID, recipientId, hash, accounts[signerId]);
+  vi.mocked(getUserId).mockReturnValue('sender-1');
+  return vi.mocked(postReceipt).mock.lastCall![1];
+}
+
+function reencode(signed: SignedReceipt, edit: (receipt: Record<string, unknown>) => Record<string, unknown>): SignedReceipt {
+  return { ...signed, receipt: btoa(JSON.stringify(edit(JSON.parse(atob(signed.receipt))))) };
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  accounts = {
+    'sender-1': await createTestKeys(),
+    'receiver-1': await createTestKeys(),
+    'receiver-2': await createTestKeys(),
+  };
+  pins = new Map();
+  vi.mocked(checkContactKeys).mockImplementation(async (userId, _email, keys) => {
+    const pinned = pins.get(userId);
+    if (!pinned) return { status: 'new' };
+    return pinned.signingPublicKey === keys.signing ? { status: 'match', pinned } : { status: 'changed', pinned };
+  });
+  vi.mocked(getUserPublicKey).mockImplementation(async (userId) => ({
+    userId,
+    publicKey: serializePublicKeyBundle(publicKeyBundleOf(accounts[userId])),
+  }));
+  vi.mocked(getVerifiedGroup).mockResolvedValue({
+    state: { members: [{ userId: 'receiver-2' }] } as GroupState,
+  } as Awaited<ReturnType<typeof getVerifiedGroup>>);
+
+  const sender = accounts['sender-1'];
+  const signature = await getSuite(sender.suite).sign(contentHash, sender.signingPrivateKey);
+  envelope = {
+    version: 2,
+    chunkSize: 1024,
+    nonce: '',
+    metadata: '',
+    sender: { userId: 'sender-1', keyId: 1, suite: sender.suite, signingPublicKey: sender.signingPublicKey },
+    recipients: [
+      { userId: 'receiver-1', keyId: 1, suite: sender.suite, encryptedKey: '' },
+      { userId: GROUP, keyId: 1, suite: sender.suite, encryptedKey: '' },
+    ],
+    signature: arrayBufferToBase64(signature),
+  };
+});
+
+describe('delivery receipts', () => {
+  it('verify for the recipient that signed them', async () => {
+    const signed = await receiptFrom('receiver-1', 'receiver-1');
+
+    const receipt = await createReceiptVerifier()(FILE_ID, 'receiver-1', signed, envelope);
+    expect(receipt).toMatchObject({
+      fileId: FILE_ID,
+      recipientId: 'receiver-1',
+      contentHash: arrayBufferToBase64(contentHash),
+      signer: { userId: 'receiver-1', keyId: 1 },
+    });
+    expect(pinContactKeys).toHaveBeenCalledWith('receiver-1', null, expect.objectContaining({ keyId: 1 }), false);
+    expect(checkContactKeys).not.toHaveBeenCalledWith('sender-1', null, expect.anything());
+  });
+
+  it('reject receipts from a signer whose published keys differ from their pin', async () => {
+    const signed = await receiptFrom('receiver-1', 'receiver-1');
+    pins.set('receiver-1', {
+      userId: 'receiver-1',
+      email: 'receiver@example.com',
+      encryptionPublicKey: accounts['receiver-1'].encryptionPublicKey,
+      signingPublicKey: (await createTestKeys()).signingPublicKey,
+      keyId: 1,
+      suite: accounts['receiver-1'].suite,
+      pinnedAt: '2026-01-01T00:00:00.000Z',
+      verifiedAt: null,
+    });
+
+    await expect(createReceiptVerifier()(FILE_ID, 'receiver-1', signed, envelope))
+      .rejects.toThrow('Keys for receiver@example.com changed since you last saw them');
+    expect(pinContactKeys).not.toHaveBeenCalled();
+  });
+
+  it('count only for the file and recipient row they name', async () => {
+    const signed = await receiptFrom('receiver-1', 'receiver-1');
+    const verify = createReceiptVerifier();
+
+    await expect(verify('file-2', 'receiver-1', signed, envelope)).rejects.toThrow('different file');
+    await expect(verify(FILE_ID, GROUP, signed, envelope)).rejects.toThrow('different recipient');
+  });
+
+  it('reject receipts for content other than what was sent', async () => {
+    const signed = await receiptFrom('receiver-1', 'receiver-1', new Uint8Array(32).buffer);
+
+    await expect(createReceiptVerifier()(FILE_ID, 'receiver-1', signed, envelope)).rejects.toThrow('does not match the file');
+  });
+
+  it('reject receipts signed by someone other than the recipient', async () => {
+    const signed = await receiptFrom('receiver-2', 'receiver-1');
+
+    await expect(createReceiptVerifier()(FILE_ID, 'receiver-1', signed, envelope)).rejects.toThrow('not signed by the recipient');
+  });
+
+  it('reject modified receipts', async () => {
+    const signed = await receiptFrom('receiver-1', 'receiver-1');
+    const later = reencode(signed, (receipt) => ({ ...receipt, verifiedAt: '2030-01-01T00:00:00.000Z' }));
+
+    await expect(createReceiptVerifier()(FILE_ID, 'receiver-1', later, envelope)).rejects.toThrow('signature is invalid');
+  });
+
+  it('reject malformed or non-canonical receipts', async () => {
+    const signed = await receiptFrom('receiver-1', 'receiver-1');
+    const verify = createReceiptVerifier();
+
+    await expect(verify(FILE_ID, 'receiver-1', { ...signed, receipt: btoa('{not json') }, envelope)).rejects.toThrow('malformed');
+    await expect(verify(FILE_ID, 'receiver-1', reencode(signed, (r) => ({ ...r, context: 'other' })), envelope)).rejects.toThrow('malformed');
+    await expect(verify(FILE_ID, 'receiver-1', reencode(signed, (r) => ({ ...r, signer: { userId: 'receiver-1' } })), envelope))
+      .rejects.toThrow('malformed');
+    await expect(verify(FILE_ID, 'receiver-1', reencode(signed, (r) => Object.fromEntries(Object.entries(r).reverse())), envelope))
+      .rejects.toThrow('not canonically encoded');
+  });
+
+  it('verify for a group only when a member signed them', async () => {
+    const fromMember = await receiptFrom('receiver-2', GROUP);
+    const fromOutsider = await receiptFrom('receiver-1', GROUP);
+    const verify = createReceiptVerifier();
+
+    await expect(verify(FILE_ID, GROUP, fromMember, envelope)).resolves.toMatchObject({ recipientId: GROUP });
+    await expect(verify(FILE_ID, GROUP, fromOutsider, envelope)).rejects.toThrow('not signed by a member of the group');
+    expect(getVerifiedGroup).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,199 @@
+// Signed delivery receipts
+// Once a file verifies and decrypts, the receiver signs a receipt over the file id and
+// the hash the sender signed: the envelope fields and the chained ciphertext digest.
+// The sender checks the receipt signature against the receiver's published keys, and
+// their own envelope signature against the receipt's hash, so a receipt only counts
+// for exactly the content that was sent. Receivers' keys are checked against the
+// contact pins like any other use of their keys.
+
+import { getUserId, getUserPublicKey, parsePublicKeyBundle, postReceipt, PublicKeyBundle, SignedReceipt } from '@/lib/api';
+import { checkContactKeys, pinContactKeys } from '@/lib/contactStorage';
+import { arrayBufferToBase64, base64ToArrayBuffer, hashData } from '@/lib/crypto';
+import { getSuite } from '@/lib/cryptoSuites';
+import { signInWorker, verifyInWorker } from '@/lib/cryptoWorker';
+import type { EnvelopeHeader } from '@/lib/envelope';
+import { getVerifiedGroup, parseGroupRecipientId, GroupState } from '@/lib/groups';
+import { getVerifiedKeyVersion } from '@/lib/keyRotation';
+import type { StoredKeys } from '@/lib/keyStorage';
+
+const RECEIPT_CONTEXT = 'vortex-receipt-v1';
+
+export interface DeliveryReceipt {
+  context: string;
+  fileId: string;
+  // Envelope recipient the file was opened as: the receiver, or the group it was sent to
+  recipientId: string;
+  // Hash covered by the sender's envelope signature, base64
+  contentHash: string;
+  // Who verified the file, and the key version that signs this receipt
+  signer: { userId: string; keyId: number };
+  verifiedAt: string;
+}
+
+// Fixed field order, so signer and verifier hash the same bytes
+function encodeReceipt(receipt: DeliveryReceipt): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify({
+    context: receipt.context,
+    fileId: receipt.fileId,
+    recipientId: receipt.recipientId,
+    contentHash: receipt.contentHash,
+    signer: { userId: receipt.signer.userId, keyId: receipt.signer.keyId },
+    verifiedAt: receipt.verifiedAt,
+  }));
+}
+
+function decodeReceipt(encoded: string): DeliveryReceipt {
+  const bytes = new Uint8Array(base64ToArrayBuffer(encoded));
+  let receipt: DeliveryReceipt;
+  try {
+    receipt = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+  } catch {
+    throw new Error('Receipt is malformed');
+  }
+  if (
+    receipt.context !== RECEIPT_CONTEXT ||
+    typeof receipt.fileId !== 'string' ||
+    typeof receipt.recipientId !== 'string' ||
+    typeof receipt.contentHash !== 'string' ||
+    !receipt.signer ||
+    typeof receipt.signer.userId !== 'string' ||
+    !Number.isSafeInteger(receipt.signer.keyId) ||
+    typeof receipt.verifiedAt !== 'string'
+  ) {
+    throw new Error('Receipt is malformed');
+  }
+
+  const reencoded = encodeReceipt(receipt);
+  if (reencoded.byteLength !== bytes.byteLength || reencoded.some((byte, i) => byte !== bytes[i])) {
+    throw new Error('Receipt is not canonically encoded');
+  }
+  return receipt;
+}
+
+// Sign a receipt for a file that verified and decrypted, and post it for the sender.
+// Only envelope files get receipts; older formats have nothing the sender can check them against.
+export async function sendDeliveryReceipt(
+  fileId: string,
+  recipientId: string,
+  contentHash: ArrayBuffer,
+  keys: StoredKeys
+): Promise<void> {
+  const userId = getUserId();
+  if (!userId) {
+    throw new Error('Session is missing your user id - please sign in again');
+  }
+
+  const encoded = encodeReceipt({
+    context: RECEIPT_CONTEXT,
+    fileId,
+    recipientId,
+    contentHash: arrayBufferToBase64(contentHash),
+    signer: { userId, keyId: keys.keyId },
+    verifiedAt: new Date().toISOString(),
+  });
+  const signature = await signInWorker(keys.suite, keys.signingPrivateKey, await hashData(encoded.buffer));
+  await postReceipt(fileId, {
+    receipt: arrayBufferToBase64(encoded.buffer),
+    signature: arrayBufferToBase64(signature),
+  });
+}
+
+// Returns a checker for receipts on files we sent. A receipt only counts for the recipient
+// it is listed under; for a group, the signer must be a member of the verified group.
+// Key versions and groups are looked up once for the lifetime of the checker. A signer
+// whose published keys no longer match their pin is refused until the change is reviewed.
+// Resolves with the receipt once it verifies; throws if it does not.
+export function createReceiptVerifier(): (
+  fileId: string,
+  recipientId: string,
+  signed: SignedReceipt,
+  envelope: EnvelopeHeader
+) => Promise<DeliveryReceipt> {
+  // Published keys per user; our own are checked against the envelope instead of a pin
+  const published = new Map<string, Promise<PublicKeyBundle>>();
+  const lookupKeys = (userId: string) => {
+    let keys = published.get(userId);
+    if (!keys) {
+      keys = getUserPublicKey(userId).then(async ({ publicKey }) => {
+        const bundle = parsePublicKeyBundle(publicKey);
+        if (userId === getUserId()) return bundle;
+
+        const keyCheck = await checkContactKeys(userId, null, bundle);
+        if (keyCheck.status === 'changed') {
+          throw new Error(`Keys for ${keyCheck.pinned.email || userId} changed since you last saw them. Review them before trusting their receipts.`);
+        }
+        if (keyCheck.status !== 'match') {
+          await pinContactKeys(userId, null, bundle, keyCheck.status === 'rotated');
+        }
+        return bundle;
+      });
+      published.set(userId, keys);
+    }
+    return keys;
+  };
+
+  const keyVersions = new Map<string, Promise<PublicKeyBundle>>();
+  const lookupKeyVersion = (userId: string, keyId: number) => {
+    const cacheKey = `${userId}:${keyId}`;
+    let version = keyVersions.get(cacheKey);
+    if (!version) {
+      version = lookupKeys(userId).then((keys) => getVerifiedKeyVersion(userId, keyId, keys));
+      keyVersions.set(cacheKey, version);
+    }
+    return version;
+  };
+
+  const groups = new Map<string, Promise<GroupState>>();
+  const lookupGroup = (groupId: string) => {
+    let group = groups.get(groupId);
+    if (!group) {
+      group = getVerifiedGroup(groupId).then(({ state }) => state);
+      groups.set(groupId, group);
+    }
+    return group;
+  };
+
+  const verifyWith = async (bundle: PublicKeyBundle, signature: string, data: ArrayBuffer) => {
+    if (!bundle.signing) return false;
+    const publicKey = await getSuite(bundle.suite).importSigningPublicKey(bundle.signing);
+    return await verifyInWorker(bundle.suite, publicKey, base64ToArrayBuffer(signature), data).catch(() => false);
+  };
+
+  return async (fileId, recipientId, signed, envelope) => {
+    const receipt = decodeReceipt(signed.receipt);
+    if (receipt.fileId !== fileId) {
+      throw new Error('Receipt is for a different file');
+    }
+    if (receipt.recipientId !== recipientId) {
+      throw new Error('Receipt is for a different recipient');
+    }
+    if (!envelope.recipients.some((r) => r.userId === receipt.recipientId)) {
+      throw new Error('Receipt names someone who is not a recipient of this file');
+    }
+    // Any member may sign for a group
+    const groupId = parseGroupRecipientId(receipt.recipientId);
+    if (groupId) {
+      const group = await lookupGroup(groupId);
+      if (!group.members.some((member) => member.userId === receipt.signer.userId)) {
+        throw new Error('Receipt was not signed by a member of the group');
+      }
+    } else if (receipt.signer.userId !== receipt.recipientId) {
+      throw new Error('Receipt was not signed by the recipient');
+    }
+
+    // Our own signature on the file must cover the hash the receiver verified
+    const sender = await lookupKeyVersion(envelope.sender.userId, envelope.sender.keyId);
+    if (envelope.sender.userId !== getUserId() || sender.signing !== envelope.sender.signingPublicKey) {
+      throw new Error('File was not signed with your published key');
+    }
+    if (!(await verifyWith(sender, envelope.signature, base64ToArrayBuffer(receipt.contentHash)))) {
+      throw new Error('Receipt does not match the file that was sent');
+    }
+
+    const signer = await lookupKeyVersion(receipt.signer.userId, receipt.signer.keyId);
+    if (!(await verifyWith(signer, signed.signature, await hashData(base64ToArrayBuffer(signed.receipt))))) {
+      throw new Error('Receipt signature is invalid');
+    }
+    return receipt;
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { ExportedKeys } from '@/lib/keyStorage';
+import {
+  createRecoveryBundle,
+  generateRecoveryPhrase,
+  isValidRecoveryPhrase,
+  normalizeRecoveryPhrase,
+  openRecoveryBundle,
+} from '@/lib/recoveryPhrase';
+
+const keys: ExportedKeys = {
+  suite: 'x25519-ed25519',
+  keyId: 1,
+  encryptionPublicKey: 'ZW5jLXB1Yg==',
+  encryptionPrivateKey: 'ZW5jLXByaXY=',
+  pqEncryptionPublicKey: 'cHEtcHVi',
+  pqEncryptionPrivateKey: 'cHEtcHJpdg==',
+  signingPublicKey: 'c2lnLXB1Yg==',
+  signingPrivateKey: 'c2lnLXByaXY=',
+};
+
+describe('recovery phrase', () => {
+  it('generates valid 24-word phrases', () => {
+    const phrase = generateRecoveryPhrase();
+    expect(phrase.split(' ')).toHaveLength(24);
+    expect(isValidRecoveryPhrase(phrase)).toBe(true);
+    expect(generateRecoveryPhrase()).not.toBe(phrase);
+  });
+
+  it('accepts pasted phrases with odd case and spacing', () => {
+    const phrase = generateRecoveryPhrase();
+    const pasted = `  ${phrase.toUpperCase().split(' ').join(' \n\t')}  `;
+    expect(normalizeRecoveryPhrase(pasted)).toBe(phrase);
+    expect(isValidRecoveryPhrase(pasted)).toBe(true);
+  });
+
+  it('rejects wrong word counts, unknown words and bad checksums', () => {
+    // BIP39 vector for all-zero 256-bit entropy, and the same words with a wrong checksum word
+    const zeros = `${'abandon '.repeat(23)}art`;
+    expect(isValidRecoveryPhrase(zeros)).toBe(true);
+    expect(isValidRecoveryPhrase('abandon '.repeat(24))).toBe(false);
+
+    const words = generateRecoveryPhrase().split(' ');
+    expect(isValidRecoveryPhrase(words.slice(0, 12).join(' '))).toBe(false);
+    expect(isValidRecoveryPhrase([...words.slice(0, 23), 'notaword'].join(' '))).toBe(false);
+  });
+});
+
+describe('recovery bundle', () => {
+  it('round-trips the account keys', async () => {
+    const phrase = generateRecoveryPhrase();
+    const bundle = await createRecoveryBundle(keys, 'user-1', phrase);
+
+    const recovered = await openRecoveryBundle(bundle, 'user-1', phrase.toUpperCase());
+    expect(recovered.userId).toBe('user-1');
+    expect(recovered.keys).toEqual(keys);
+  });
+
+  it('refuses another phrase or another account', async () => {
+    const phrase = generateRecoveryPhrase();
+    const bundle = await createRecoveryBundle(keys, 'user-1', phrase);
+
+    await expect(openRecoveryBundle(bundle, 'user-1', generateRecoveryPhrase())).rejects.toThrow('does not match');
+    await expect(openRecoveryBundle(bundle, 'user-2', phrase)).rejects.toThrow('does not match');
+  });
+
+  it('refuses a modified bundle', async () => {
+    const phrase = generateRecoveryPhrase();
+    const bundle = JSON.parse(await createRecoveryBundle(keys, 'user-1', phrase));
+    const ciphertext = Uint8Array.from(atob(bundle.ciphertext), (c) => c.charCodeAt(0));
+    ciphertext[0] ^= 1;
+    const tampered = JSON.stringify({ ...bundle, ciphertext: btoa(String.fromCharCode(...ciphertext)) });
+
+    await expect(openRecoveryBundle(tampered, 'user-1', phrase)).rejects.toThrow('does not match');
+  });
+
+  it('refuses invalid phrases and unknown bundle versions', async () => {
+    const phrase = generateRecoveryPhrase();
+    const bundle = JSON.parse(await createRecoveryBundle(keys, 'user-1', phrase));
+
+    await expect(openRecoveryBundle(JSON.stringify(bundle), 'user-1', 'not a phrase')).rejects.toThrow('not valid');
+    await expect(openRecoveryBundle(JSON.stringify({ ...bundle, version: 2 }), 'user-1', phrase))
+      .rejects.toThrow('Unsupported recovery bundle version: 2');
+  });
+});
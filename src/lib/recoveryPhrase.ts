@@ -0,0 +1,127 @@
+// Mnemonic recovery phrase
+// A BIP39 24-word phrase (256 bits of entropy) derives a key that wraps the account keys.
+// The wrapped bundle is kept on the server; only the phrase can open it.
+
+import { generateMnemonic, mnemonicToEntropy, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english.js';
+import { arrayBufferToBase64, base64ToArrayBuffer, generateNonce } from '@/lib/crypto';
+import type { ExportedKeys } from '@/lib/keyStorage';
+
+const RECOVERY_PHRASE_STRENGTH = 256;
+const RECOVERY_BUNDLE_VERSION = 1;
+const RECOVERY_HKDF_SALT = 'vortex-recovery-phrase';
+const RECOVERY_HKDF_INFO = 'vortex-key-recovery-v1';
+
+interface RecoveryBundle {
+  version: number;
+  iv: string;
+  ciphertext: string;
+}
+
+export interface RecoveredKeys {
+  userId: string;
+  createdAt: string;
+  keys: ExportedKeys;
+}
+
+// Generate a new 24-word phrase
+export function generateRecoveryPhrase(): string {
+  return generateMnemonic(wordlist, RECOVERY_PHRASE_STRENGTH);
+}
+
+// Lowercase and collapse whitespace so pasted phrases still match
+export function normalizeRecoveryPhrase(phrase: string): string {
+  return phrase.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+// Check word count, words and checksum
+export function isValidRecoveryPhrase(phrase: string): boolean {
+  const normalized = normalizeRecoveryPhrase(phrase);
+  return normalized.split(' ').length === 24 && validateMnemonic(normalized, wordlist);
+}
+
+// The phrase entropy is already uniformly random, so HKDF is enough to turn it into a key
+async function deriveRecoveryKey(phrase: string): Promise<CryptoKey> {
+  const entropy = mnemonicToEntropy(normalizeRecoveryPhrase(phrase), wordlist);
+  const baseKey = await window.crypto.subtle.importKey(
+    'raw',
+    entropy as Uint8Array<ArrayBuffer>,
+    'HKDF',
+    false,
+    ['deriveKey']
+  );
+  return await window.crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new TextEncoder().encode(RECOVERY_HKDF_SALT),
+      info: new TextEncoder().encode(RECOVERY_HKDF_INFO),
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// The account id is bound as additional data so a bundle cannot be moved to another account
+function recoveryAdditionalData(userId: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${RECOVERY_HKDF_INFO}:${userId}`);
+}
+
+// Encrypt the account keys under the phrase; returns the serialized bundle
+export async function createRecoveryBundle(keys: ExportedKeys, userId: string, phrase: string): Promise<string> {
+  const key = await deriveRecoveryKey(phrase);
+  const iv = generateNonce();
+  const contents: RecoveredKeys = {
+    userId,
+    createdAt: new Date().toISOString(),
+    keys,
+  };
+  const ciphertext = await window.crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: iv as Uint8Array<ArrayBuffer>,
+      additionalData: recoveryAdditionalData(userId),
+    },
+    key,
+    new TextEncoder().encode(JSON.stringify(contents))
+  );
+
+  const bundle: RecoveryBundle = {
+    version: RECOVERY_BUNDLE_VERSION,
+    iv: arrayBufferToBase64(iv.buffer as ArrayBuffer),
+    ciphertext: arrayBufferToBase64(ciphertext),
+  };
+  return JSON.stringify(bundle);
+}
+
+// Re-create the account keys from the phrase and the stored bundle
+export async function openRecoveryBundle(serialized: string, userId: string, phrase: string): Promise<RecoveredKeys> {
+  if (!isValidRecoveryPhrase(phrase)) {
+    throw new Error('Recovery phrase is not valid - check each word');
+  }
+
+  const bundle: RecoveryBundle = JSON.parse(serialized);
+  if (bundle.version !== RECOVERY_BUNDLE_VERSION) {
+    throw new Error(`Unsupported recovery bundle version: ${bundle.version}`);
+  }
+
+  const key = await deriveRecoveryKey(phrase);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await window.crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: new Uint8Array(base64ToArrayBuffer(bundle.iv)),
+        additionalData: recoveryAdditionalData(userId),
+      },
+      key,
+      base64ToArrayBuffer(bundle.ciphertext)
+    );
+  } catch {
+    throw new Error('Recovery phrase does not match this account');
+  }
+
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
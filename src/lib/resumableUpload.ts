@@ -0,0 +1,243 @@
+// Resumable Chunked Upload
+// The file is encrypted as it streams and sent to the server in numbered parts.
+// Completed parts are tracked so an interrupted upload picks up where it stopped.
+// Resuming encrypts the file again under the same key and nonce, so every part's
+// plaintext is checked against the digest recorded the first time, before it is encrypted.
+
+import { uploadPart, getUploadStatus } from '@/lib/api';
+import { markPartCompleted, recordPartDigest, PendingUpload } from '@/lib/uploadStorage';
+import { arrayBufferToBase64, base64ToArrayBuffer, hashData } from '@/lib/crypto';
+import { encryptedSize, AUTH_TAG_LENGTH, CHUNK_SIZE } from '@/lib/streamCrypto';
+import { createWorkerEncryptionStream } from '@/lib/cryptoWorker';
+import { createPaddingStream } from '@/lib/padding';
+import { createCompressionStream } from '@/lib/compression';
+
+// Ciphertext bytes per uploaded part: a whole number of encrypted chunks
+export const PART_SIZE = 8 * (CHUNK_SIZE + AUTH_TAG_LENGTH);
+
+const MAX_PART_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export interface UploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+// Check that a reselected file looks like the one the pending upload was started with.
+// Only a quick check to catch the wrong file; the part digests catch changed contents.
+export function matchesPendingUpload(upload: PendingUpload, file: File): boolean {
+  return (
+    file.name === upload.fileName &&
+    file.size === upload.fileSize &&
+    file.lastModified === upload.fileLastModified
+  );
+}
+
+// Plaintext bytes that are encrypted: the file after compression and padding
+export function uploadPlaintextSize(upload: PendingUpload): number {
+  return upload.paddedSize ?? upload.compressedSize ?? upload.fileSize;
+}
+
+// Plaintext bytes encrypted into one part: a part holds whole encrypted chunks
+function partPlaintextSize(upload: PendingUpload): number {
+  const { chunkSize } = upload.envelope;
+  return (upload.partSize / (chunkSize + AUTH_TAG_LENGTH)) * chunkSize;
+}
+
+// Hold back each part's plaintext until its digest matches the one recorded when the part
+// was first encrypted. Parts without one were never encrypted; their digest is stored
+// before they pass on to encryption.
+function createPartCheckStream(upload: PendingUpload): TransformStream<Uint8Array, Uint8Array> {
+  const partBytes = partPlaintextSize(upload);
+  let buffered: Uint8Array[] = [];
+  let bufferedBytes = 0;
+  let partNumber = 1;
+
+  const release = async (controller: TransformStreamDefaultController<Uint8Array>) => {
+    const plaintext = await new Blob(buffered).arrayBuffer();
+    const digest = arrayBufferToBase64(await hashData(plaintext));
+    const recorded = upload.partDigests[partNumber - 1];
+    if (recorded === undefined) {
+      await recordPartDigest(upload.uploadId, partNumber, digest);
+      upload.partDigests[partNumber - 1] = digest;
+    } else if (recorded !== digest) {
+      throw new Error('The file changed since the upload started. Discard it and send the file again.');
+    }
+    controller.enqueue(new Uint8Array(plaintext));
+    buffered = [];
+    bufferedBytes = 0;
+    partNumber++;
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      let offset = 0;
+      while (offset < chunk.byteLength) {
+        const take = Math.min(partBytes - bufferedBytes, chunk.byteLength - offset);
+        buffered.push(chunk.subarray(offset, offset + take));
+        bufferedBytes += take;
+        offset += take;
+        if (bufferedBytes === partBytes) {
+          await release(controller);
+        }
+      }
+    },
+    async flush(controller) {
+      if (bufferedBytes > 0) {
+        await release(controller);
+      }
+    },
+  });
+}
+
+// Resuming compresses the file again; stop before encrypting anything if it produces
+// more or fewer bytes than the first time, so no chunk is encrypted at a position or
+// with a final flag it did not have before
+export function createCompressedSizeCheckStream(expectedSize: number): TransformStream<Uint8Array, Uint8Array> {
+  let produced = 0;
+  const mismatch = () => new Error('The file compressed differently than when the upload started. Discard it and send the file again.');
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      produced += chunk.byteLength;
+      if (produced > expectedSize) {
+        throw mismatch();
+      }
+      controller.enqueue(chunk);
+    },
+    flush() {
+      if (produced !== expectedSize) {
+        throw mismatch();
+      }
+    },
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Resolve once the browser reports a network connection
+function waitForOnline(): Promise<void> {
+  if (navigator.onLine) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    window.addEventListener('online', () => resolve(), { once: true });
+  });
+}
+
+// Upload one part, retrying with exponential backoff across network drops
+async function uploadPartWithRetry(uploadId: string, partNumber: number, data: Blob): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await waitForOnline();
+      await uploadPart(uploadId, partNumber, data);
+      return;
+    } catch (err) {
+      if (attempt >= MAX_PART_ATTEMPTS) {
+        throw err;
+      }
+      await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+}
+
+export interface PartUploadOptions {
+  // Parts the server already has; they are counted but not sent again
+  received?: Set<number>;
+  // Called once a part is on the server
+  onPartUploaded?: (partNumber: number) => Promise<void>;
+  // Called with the ciphertext bytes uploaded or skipped so far
+  onProgress?: (uploadedBytes: number) => void;
+  signal?: AbortSignal;
+}
+
+// Cut a ciphertext stream into parts of `partSize` bytes and upload them in order.
+// Only one part is held in memory at a time; reading waits while a part uploads.
+export async function uploadParts(
+  uploadId: string,
+  ciphertext: ReadableStream<Uint8Array>,
+  partSize: number,
+  { received, onPartUploaded, onProgress, signal }: PartUploadOptions = {}
+): Promise<void> {
+  const reader = ciphertext.getReader();
+  let part: Uint8Array[] = [];
+  let partBytes = 0;
+  let partNumber = 1;
+  let uploadedBytes = 0;
+
+  const flushPart = async () => {
+    const data = new Blob(part);
+    signal?.throwIfAborted();
+    if (!received?.has(partNumber)) {
+      await uploadPartWithRetry(uploadId, partNumber, data);
+      await onPartUploaded?.(partNumber);
+    }
+    uploadedBytes += data.size;
+    onProgress?.(uploadedBytes);
+    part = [];
+    partBytes = 0;
+    partNumber++;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      let offset = 0;
+      while (offset < value.byteLength) {
+        const take = Math.min(partSize - partBytes, value.byteLength - offset);
+        part.push(value.subarray(offset, offset + take));
+        partBytes += take;
+        offset += take;
+        if (partBytes === partSize) {
+          await flushPart();
+        }
+      }
+    }
+    if (partBytes > 0) {
+      await flushPart();
+    }
+  } catch (err) {
+    reader.cancel().catch(() => undefined);
+    throw err;
+  }
+}
+
+// Encrypt the file and upload every part the server does not have yet.
+// Parts already received are re-encrypted (to rebuild the digest) but not re-sent.
+// Returns the chained ciphertext digest that the sender signs. Aborting the signal stops
+// the upload; the parts sent so far stay on the server for a later resume.
+export async function runResumableUpload(
+  upload: PendingUpload,
+  file: File,
+  aesKey: CryptoKey,
+  onProgress?: (progress: UploadProgress) => void,
+  signal?: AbortSignal
+): Promise<ArrayBuffer> {
+  // The server is the source of truth for which parts arrived
+  const { receivedParts } = await getUploadStatus(upload.uploadId);
+  const received = new Set(receivedParts);
+
+  const { nonce: nonceBase64, chunkSize } = upload.envelope;
+  const nonce = new Uint8Array(base64ToArrayBuffer(nonceBase64));
+  const encryption = createWorkerEncryptionStream(aesKey, nonce, chunkSize, { signal });
+  const compressedSize = upload.compressedSize ?? upload.fileSize;
+  const paddedSize = uploadPlaintextSize(upload);
+  const ciphertext = file.stream()
+    .pipeThrough(createCompressionStream(upload.compression ?? 'none'))
+    .pipeThrough(createCompressedSizeCheckStream(compressedSize))
+    .pipeThrough(createPaddingStream(paddedSize - compressedSize))
+    .pipeThrough(createPartCheckStream(upload))
+    .pipeThrough(encryption.stream);
+  const totalBytes = encryptedSize(paddedSize, chunkSize);
+
+  await uploadParts(upload.uploadId, ciphertext, upload.partSize, {
+    received,
+    onPartUploaded: (partNumber) => markPartCompleted(upload.uploadId, partNumber),
+    onProgress: (uploadedBytes) => onProgress?.({ uploadedBytes, totalBytes }),
+    signal,
+  });
+  return await encryption.digest;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { PublicKeyBundle, SignedRevocation } from '@/lib/api';
+import type { StoredKeys } from '@/lib/keyStorage';
+import {
+  createRevocationCertificate,
+  findRevocation,
+  getVerifiedRevocations,
+  isSignedAfterRevocation,
+  readRevocationFile,
+  revocationFile,
+} from '@/lib/revocation';
+import { createTestKeys, publicKeyBundleOf } from '@/test/helpers';
+
+vi.mock('@/lib/cryptoWorker', async () => (await import('@/test/helpers')).mainThreadCryptoWorker);
+
+async function signingKeys(keyId = 1): Promise<{ keys: StoredKeys; bundle: PublicKeyBundle }> {
+  const keys = await createTestKeys(keyId);
+  return { keys, bundle: publicKeyBundleOf(keys) };
+}
+
+function reencode(revocation: SignedRevocation, edit: (certificate: Record<string, unknown>) => Record<string, unknown>): SignedRevocation {
+  const certificate = JSON.parse(atob(revocation.certificate));
+  return { ...revocation, certificate: btoa(JSON.stringify(edit(certificate))) };
+}
+
+describe('revocation certificates', () => {
+  it('verify against the key version they revoke', async () => {
+    const { keys, bundle } = await signingKeys();
+    const revocation = await createRevocationCertificate('user-1', keys, 'compromised');
+
+    const found = await findRevocation('user-1', bundle, [revocation]);
+    expect(found).toMatchObject({ keyId: 1, reason: 'compromised' });
+    expect(await findRevocation('user-1', bundle, [{ ...revocation, publishedAt: '2026-05-01T00:00:00.000Z' }]))
+      .toEqual({ keyId: 1, reason: 'compromised', revokedAt: '2026-05-01T00:00:00.000Z' });
+  });
+
+  it('round-trip through a certificate file', async () => {
+    const { keys } = await signingKeys();
+    const revocation = await createRevocationCertificate('user-1', keys, 'unspecified');
+
+    const read = await readRevocationFile(revocationFile(revocation));
+    expect(read.revocation).toEqual(revocation);
+    expect(read.certificate).toMatchObject({ userId: 'user-1', keyId: 1, suite: keys.suite, reason: 'unspecified' });
+  });
+
+  it('revoke nothing once modified', async () => {
+    const { keys, bundle } = await signingKeys();
+    const revocation = await createRevocationCertificate('user-1', keys, 'compromised');
+
+    const changedReason = reencode(revocation, (certificate) => ({ ...certificate, reason: 'unspecified' }));
+    const signature = Uint8Array.from(atob(revocation.signature), (c) => c.charCodeAt(0));
+    signature[0] ^= 1;
+    const changedSignature = { ...revocation, signature: btoa(String.fromCharCode(...signature)) };
+
+    expect(await findRevocation('user-1', bundle, [changedReason])).toBeNull();
+    expect(await findRevocation('user-1', bundle, [changedSignature])).toBeNull();
+  });
+
+  it('revoke nothing for another user or key version', async () => {
+    const { keys, bundle } = await signingKeys();
+    const other = await signingKeys(2);
+    const revocation = await createRevocationCertificate('user-1', keys, 'compromised');
+
+    expect(await findRevocation('user-2', bundle, [revocation])).toBeNull();
+    expect(await findRevocation('user-1', other.bundle, [revocation])).toBeNull();
+    expect(await findRevocation('user-1', { ...bundle, signing: other.bundle.signing }, [revocation])).toBeNull();
+    expect(await findRevocation('user-1', { ...bundle, signing: null }, [revocation])).toBeNull();
+  });
+
+  it('must be signed by the key they revoke', async () => {
+    const { bundle } = await signingKeys();
+    const other = await signingKeys();
+    // Names the published key but is signed by another one
+    const forged = await createRevocationCertificate('user-1', { ...other.keys, signingPublicKey: bundle.signing! }, 'compromised');
+
+    expect(await findRevocation('user-1', bundle, [forged])).toBeNull();
+  });
+
+  it('reject malformed or non-canonical certificate files', async () => {
+    const { keys } = await signingKeys();
+    const revocation = await createRevocationCertificate('user-1', keys, 'compromised');
+    const fileOf = (value: unknown) => new Blob([JSON.stringify(value)]);
+
+    await expect(readRevocationFile(new Blob(['not json']))).rejects.toThrow('Not a valid revocation certificate file');
+    await expect(readRevocationFile(fileOf({ certificate: revocation.certificate }))).rejects.toThrow('Not a valid revocation certificate file');
+    await expect(readRevocationFile(fileOf(reencode(revocation, (c) => ({ ...c, reason: 'bored' })))))
+      .rejects.toThrow('malformed');
+    await expect(readRevocationFile(fileOf(reencode(revocation, (c) => Object.fromEntries(Object.entries(c).reverse())))))
+      .rejects.toThrow('not canonically encoded');
+  });
+
+  it('are collected per key version, skipping those that do not verify', async () => {
+    const first = await signingKeys(1);
+    const second = await signingKeys(2);
+    const revocations = [
+      await createRevocationCertificate('user-1', first.keys, 'compromised'),
+      { certificate: btoa('garbage'), signature: '' },
+      reencode(await createRevocationCertificate('user-1', second.keys, 'compromised'), (c) => ({ ...c, reason: 'unspecified' })),
+    ];
+    const versions = new Map([[1, first.bundle], [2, second.bundle]]);
+
+    const verified = await getVerifiedRevocations('user-1', revocations, async (keyId) => versions.get(keyId)!);
+    expect(verified.map((revocation) => revocation.keyId)).toEqual([1]);
+  });
+});
+
+describe('isSignedAfterRevocation', () => {
+  const revocation = { keyId: 1, reason: 'compromised' as const, revokedAt: '2026-05-01T00:00:00.000Z' };
+
+  it('flags signatures made at or after the revocation', () => {
+    expect(isSignedAfterRevocation(revocation, '2026-04-30T23:59:59.999Z')).toBe(false);
+    expect(isSignedAfterRevocation(revocation, '2026-05-01T00:00:00.000Z')).toBe(true);
+    expect(isSignedAfterRevocation(null, '2026-05-02T00:00:00.000Z')).toBe(false);
+  });
+});
@@ -0,0 +1,199 @@
+// Key revocation certificates
+// A certificate declares one key version dead. It is signed by that version's own
+// signing key, so it can be generated ahead of time and kept offline, then published
+// from any signed-in device after the keys are lost or stolen. Certificates that do not
+// verify against the key they name are ignored: only the key holder can revoke a key.
+//
+// A certificate generated in advance cannot know when it will be needed, so the
+// revocation takes effect when it is published. The server records that time.
+
+import type { PublicKeyBundle, SignedRevocation } from '@/lib/api';
+import { arrayBufferToBase64, base64ToArrayBuffer, hashData } from '@/lib/crypto';
+import { getSuite, isSuiteId, SuiteId } from '@/lib/cryptoSuites';
+import { signInWorker, verifyInWorker } from '@/lib/cryptoWorker';
+import type { StoredKeys } from '@/lib/keyStorage';
+
+export const REVOCATION_EXTENSION = '.vortexrevoke';
+const REVOCATION_CONTEXT = 'vortex-revocation-v1';
+
+export type RevocationReason = 'compromised' | 'unspecified';
+
+export interface RevocationCertificate {
+  context: string;
+  userId: string;
+  keyId: number;
+  suite: SuiteId;
+  // The signing key being revoked, which also signs the certificate
+  signingPublicKey: string;
+  reason: RevocationReason;
+  createdAt: string;
+}
+
+// A verified revocation of one key version
+export interface KeyRevocation {
+  keyId: number;
+  reason: RevocationReason;
+  revokedAt: string;
+}
+
+// Fixed field order, so signer and verifier hash the same bytes
+function encodeCertificate(certificate: RevocationCertificate): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify({
+    context: certificate.context,
+    userId: certificate.userId,
+    keyId: certificate.keyId,
+    suite: certificate.suite,
+    signingPublicKey: certificate.signingPublicKey,
+    reason: certificate.reason,
+    createdAt: certificate.createdAt,
+  }));
+}
+
+function decodeCertificate(encoded: string): RevocationCertificate {
+  const bytes = new Uint8Array(base64ToArrayBuffer(encoded));
+  let certificate: RevocationCertificate;
+  try {
+    certificate = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+  } catch {
+    throw new Error('Revocation certificate is malformed');
+  }
+  if (
+    certificate.context !== REVOCATION_CONTEXT ||
+    typeof certificate.userId !== 'string' ||
+    !Number.isSafeInteger(certificate.keyId) ||
+    !isSuiteId(certificate.suite) ||
+    typeof certificate.signingPublicKey !== 'string' ||
+    (certificate.reason !== 'compromised' && certificate.reason !== 'unspecified') ||
+    typeof certificate.createdAt !== 'string'
+  ) {
+    throw new Error('Revocation certificate is malformed');
+  }
+
+  const reencoded = encodeCertificate(certificate);
+  if (reencoded.byteLength !== bytes.byteLength || reencoded.some((byte, i) => byte !== bytes[i])) {
+    throw new Error('Revocation certificate is not canonically encoded');
+  }
+  return certificate;
+}
+
+// Sign a certificate revoking our current key version
+export async function createRevocationCertificate(
+  userId: string,
+  keys: StoredKeys,
+  reason: RevocationReason
+): Promise<SignedRevocation> {
+  const encoded = encodeCertificate({
+    context: REVOCATION_CONTEXT,
+    userId,
+    keyId: keys.keyId,
+    suite: keys.suite,
+    signingPublicKey: keys.signingPublicKey,
+    reason,
+    createdAt: new Date().toISOString(),
+  });
+  const signature = await signInWorker(keys.suite, keys.signingPrivateKey, await hashData(encoded.buffer));
+  return {
+    certificate: arrayBufferToBase64(encoded.buffer),
+    signature: arrayBufferToBase64(signature),
+  };
+}
+
+// Certificate as a file to keep offline; it holds no secrets, but anyone who has it can revoke the key
+export function revocationFile(revocation: SignedRevocation): Blob {
+  const { certificate, signature } = revocation;
+  return new Blob([JSON.stringify({ certificate, signature }, null, 2)], { type: 'application/json' });
+}
+
+export async function readRevocationFile(file: Blob): Promise<{ revocation: SignedRevocation; certificate: RevocationCertificate }> {
+  let revocation: SignedRevocation;
+  try {
+    const parsed = JSON.parse(await file.text());
+    revocation = { certificate: parsed.certificate, signature: parsed.signature };
+  } catch {
+    throw new Error('Not a valid revocation certificate file');
+  }
+  if (typeof revocation.certificate !== 'string' || typeof revocation.signature !== 'string') {
+    throw new Error('Not a valid revocation certificate file');
+  }
+  return { revocation, certificate: decodeCertificate(revocation.certificate) };
+}
+
+// Check a certificate against the published key version it names.
+// Returns null if it does not verify, so it revokes nothing.
+async function verifyRevocation(
+  revocation: SignedRevocation,
+  userId: string,
+  bundle: Pick<PublicKeyBundle, 'suite' | 'keyId' | 'signing'>
+): Promise<KeyRevocation | null> {
+  let certificate: RevocationCertificate;
+  try {
+    certificate = decodeCertificate(revocation.certificate);
+  } catch {
+    return null;
+  }
+  if (
+    !bundle.signing ||
+    certificate.userId !== userId ||
+    certificate.keyId !== bundle.keyId ||
+    certificate.suite !== bundle.suite ||
+    certificate.signingPublicKey !== bundle.signing
+  ) {
+    return null;
+  }
+
+  const publicKey = await getSuite(bundle.suite).importSigningPublicKey(bundle.signing);
+  const valid = await verifyInWorker(
+    bundle.suite,
+    publicKey,
+    base64ToArrayBuffer(revocation.signature),
+    await hashData(base64ToArrayBuffer(revocation.certificate))
+  ).catch(() => false);
+  if (!valid) {
+    return null;
+  }
+  return {
+    keyId: certificate.keyId,
+    reason: certificate.reason,
+    revokedAt: revocation.publishedAt ?? certificate.createdAt,
+  };
+}
+
+// Revocation of the given key version, if one of the certificates verifies against it
+export async function findRevocation(
+  userId: string,
+  bundle: Pick<PublicKeyBundle, 'suite' | 'keyId' | 'signing'>,
+  revocations: SignedRevocation[] = []
+): Promise<KeyRevocation | null> {
+  for (const revocation of revocations) {
+    const verified = await verifyRevocation(revocation, userId, bundle);
+    if (verified) return verified;
+  }
+  return null;
+}
+
+// Every revocation of a user that verifies. lookupKeyVersion returns a published key
+// version, checked against the rotation chain by the caller.
+export async function getVerifiedRevocations(
+  userId: string,
+  revocations: SignedRevocation[],
+  lookupKeyVersion: (keyId: number) => Promise<PublicKeyBundle>
+): Promise<KeyRevocation[]> {
+  const verified: KeyRevocation[] = [];
+  for (const revocation of revocations) {
+    let keyId: number;
+    try {
+      keyId = decodeCertificate(revocation.certificate).keyId;
+    } catch {
+      continue;
+    }
+    const bundle = await lookupKeyVersion(keyId).catch(() => null);
+    const result = bundle && await verifyRevocation(revocation, userId, bundle);
+    if (result) verified.push(result);
+  }
+  return verified;
+}
+
+// Whether something signed at `signedAt` with a revoked key comes after the revocation
+export function isSignedAfterRevocation(revocation: KeyRevocation | null, signedAt: string): boolean {
+  return !!revocation && new Date(signedAt).getTime() >= new Date(revocation.revokedAt).getTime();
+}
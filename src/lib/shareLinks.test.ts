@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createShare, downloadShare, initUpload, ShareInfo, uploadPart } from '@/lib/api';
+import { createShareLink, openShare, readLinkSecret, saveShare, SHARE_ROUTE } from '@/lib/shareLinks';
+import { encryptedSize } from '@/lib/streamCrypto';
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  initUpload: vi.fn(),
+  uploadPart: vi.fn(),
+  createShare: vi.fn(),
+  downloadShare: vi.fn(),
+}));
+
+vi.mock('@/lib/cryptoWorker', async () => (await import('@/test/helpers')).mainThreadCryptoWorker);
+
+// What the server keeps: the uploaded parts and the share created from them
+let parts: Map<number, Blob>;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  parts = new Map();
+  vi.mocked(initUpload).mockResolvedValue({ uploadId: 'upload-1' });
+  vi.mocked(uploadPart).mockImplementation(async (_uploadId, partNumber, data) => {
+    parts.set(partNumber, data);
+  });
+  vi.mocked(createShare).mockResolvedValue({ shareId: 'share-1' });
+  vi.mocked(downloadShare).mockImplementation(async () => {
+    const ordered = [...parts.keys()].sort((a, b) => a - b).map((partNumber) => parts.get(partNumber)!);
+    return new Blob(ordered).stream();
+  });
+});
+
+// Share a file and return the link with the public parameters the server would serve
+async function share(file: File, passphrase: string): Promise<{ link: URL; info: ShareInfo }> {
+  const link = new URL(await createShareLink(file, { passphrase, expiresAt: null, maxDownloads: 3 }));
+  const { share: fields, uploadId, maxDownloads } = vi.mocked(createShare).mock.lastCall![0];
+  expect(uploadId).toBe('upload-1');
+  return {
+    link,
+    info: {
+      ...fields,
+      shareId: 'share-1',
+      expiresAt: null,
+      downloadsRemaining: maxDownloads,
+      encryptedSize: vi.mocked(initUpload).mock.lastCall![0].totalSize,
+    },
+  };
+}
+
+async function save(info: ShareInfo, secret: Uint8Array, passphrase: string): Promise<Uint8Array> {
+  const saved: Uint8Array[] = [];
+  const sink = new WritableStream<Uint8Array>({ write: (chunk) => { saved.push(chunk); } });
+  await saveShare(info, await openShare(info, secret, passphrase), sink, () => undefined, new AbortController().signal);
+  return new Uint8Array(await new Blob(saved).arrayBuffer());
+}
+
+describe('share links', () => {
+  it('round-trip a file through a link without a passphrase', async () => {
+    const content = crypto.getRandomValues(new Uint8Array(3000));
+    const file = new File([content], 'photo.jpg', { type: 'image/jpeg', lastModified: 1_700_000_000_000 });
+
+    const { link, info } = await share(file, '');
+    expect(link.pathname).toBe(`${SHARE_ROUTE}/share-1`);
+    expect(info.passphraseIterations).toBeNull();
+    expect(info.encryptedSize).toBe(encryptedSize(3000, info.chunkSize));
+    expect(initUpload).toHaveBeenCalledWith(expect.objectContaining({ receiverIds: [] }));
+
+    const secret = readLinkSecret(link.hash);
+    const opened = await openShare(info, secret, '');
+    expect(opened.metadata).toEqual({
+      fileName: 'photo.jpg',
+      mimeType: 'image/jpeg',
+      fileSize: 3000,
+      lastModified: 1_700_000_000_000,
+      compression: 'none',
+    });
+    expect(await save(info, secret, '')).toEqual(content);
+  });
+
+  it('round-trip a compressed file only with the passphrase', async () => {
+    const content = new TextEncoder().encode('share me '.repeat(500));
+    const file = new File([content], 'notes.txt', { type: 'text/plain' });
+
+    const { link, info } = await share(file, 'correct horse');
+    expect(info.passphraseIterations).toBeGreaterThan(0);
+    expect(info.encryptedSize).toBeLessThan(encryptedSize(content.byteLength, info.chunkSize));
+
+    const secret = readLinkSecret(link.hash);
+    await expect(openShare(info, secret, 'wrong horse')).rejects.toThrow('Incorrect passphrase');
+    expect((await openShare(info, secret, 'correct horse')).metadata.compression).toBe('gzip');
+    expect(await save(info, secret, 'correct horse')).toEqual(content);
+  });
+
+  it('open only with the secret of their own link', async () => {
+    const file = new File(['hello'], 'hello.txt');
+    const { info } = await share(file, '');
+    const other = await share(file, '');
+
+    await expect(openShare(info, readLinkSecret(other.link.hash), '')).rejects.toThrow('This link is damaged');
+  });
+});
+
+describe('readLinkSecret', () => {
+  // Encodes to '+/v7...' in base64
+  const secret = new Uint8Array(32).fill(0xfb);
+  // base64url: no padding, '-' and '_' in place of '+' and '/'
+  const encoded = btoa(String.fromCharCode(...secret)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+  it('reads the secret with or without the leading #', () => {
+    expect(encoded.slice(0, 4)).toBe('-_v7');
+    expect(readLinkSecret(`#${encoded}`)).toEqual(secret);
+    expect(readLinkSecret(encoded)).toEqual(secret);
+  });
+
+  it('rejects a missing, cut off or damaged secret', () => {
+    const incomplete = 'This link is incomplete - the key after the # is missing or damaged';
+    expect(() => readLinkSecret('')).toThrow(incomplete);
+    expect(() => readLinkSecret('#')).toThrow(incomplete);
+    expect(() => readLinkSecret(`#${encoded.slice(0, 20)}`)).toThrow(incomplete);
+    expect(() => readLinkSecret('#not*base64url!')).toThrow(incomplete);
+  });
+});
@@ -0,0 +1,283 @@
+// Share links
+// Files can be shared with people who have no account. The content key is derived from
+// a random secret carried in the fragment of the link (the part after #), which browsers
+// never send to the server, and optionally from a passphrase given to the recipient
+// separately. The server holds only ciphertext and enforces expiry and the download
+// limit; whoever has the full link (and the passphrase) can open the file.
+
+import {
+  createShare,
+  downloadShare,
+  initUpload,
+  ShareFields,
+  ShareInfo,
+} from '@/lib/api';
+import { arrayBufferToBase64, base64ToArrayBuffer, generateNonce, generateSalt } from '@/lib/crypto';
+import { createWorkerDecryptionStream, createWorkerEncryptionStream } from '@/lib/cryptoWorker';
+import { encryptedSize, CHUNK_SIZE } from '@/lib/streamCrypto';
+import { encryptMetadata } from '@/lib/envelope';
+import {
+  createCompressionStream,
+  createDecompressionStream,
+  isCompressible,
+  isCompressionAlgorithm,
+  measureCompressedSize,
+  CompressionAlgorithm,
+  COMPRESSION_ALGORITHM,
+} from '@/lib/compression';
+import { createCompressedSizeCheckStream, uploadParts, PART_SIZE } from '@/lib/resumableUpload';
+import { createProgressStream } from '@/lib/streamDownload';
+
+// App route of the public page that opens share links
+export const SHARE_ROUTE = '/s';
+
+const SHARE_VERSION = 1;
+const SHARE_KEY_INFO = 'vortex-share-v1';
+const LINK_SECRET_LENGTH = 32;
+const METADATA_NONCE_LENGTH = 12;
+const PBKDF2_ITERATIONS = 600000;
+
+// File details, encrypted under the content key
+export interface ShareMetadata {
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  lastModified: number;
+  compression: CompressionAlgorithm;
+}
+
+export interface ShareOptions {
+  // Empty for a link that opens without a passphrase
+  passphrase: string;
+  expiresAt: string | null;
+  maxDownloads: number | null;
+}
+
+// A share whose key has been derived and whose metadata decrypted
+export interface OpenedShare {
+  aesKey: CryptoKey;
+  metadata: ShareMetadata;
+}
+
+// Canonical encoding: keys in sorted order and no whitespace
+function encodeShareMetadata(metadata: ShareMetadata): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify({
+    compression: metadata.compression,
+    fileName: metadata.fileName,
+    fileSize: metadata.fileSize,
+    lastModified: metadata.lastModified,
+    mimeType: metadata.mimeType,
+  }));
+}
+
+function decodeShareMetadata(bytes: ArrayBuffer): ShareMetadata {
+  let parsed: Partial<ShareMetadata>;
+  try {
+    parsed = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+  } catch {
+    throw new Error('Shared file details are malformed');
+  }
+  if (
+    typeof parsed.fileName !== 'string' ||
+    typeof parsed.mimeType !== 'string' ||
+    !Number.isSafeInteger(parsed.fileSize) ||
+    (parsed.fileSize as number) < 0 ||
+    !Number.isSafeInteger(parsed.lastModified) ||
+    !isCompressionAlgorithm(parsed.compression)
+  ) {
+    throw new Error('Shared file details are malformed');
+  }
+  return parsed as ShareMetadata;
+}
+
+// The fragment uses base64url so the secret needs no escaping in a URL
+function toBase64Url(bytes: Uint8Array): string {
+  return arrayBufferToBase64(new Uint8Array(bytes).buffer).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return new Uint8Array(base64ToArrayBuffer(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')));
+}
+
+// HKDF over the link secret, followed by PBKDF2 output of the passphrase when there is one,
+// so the server needs both the link and the passphrase to decrypt
+async function deriveShareKey(
+  secret: Uint8Array,
+  salt: Uint8Array,
+  passphrase: string,
+  iterations: number | null
+): Promise<CryptoKey> {
+  let passphraseBits = new ArrayBuffer(0);
+  if (iterations !== null) {
+    const passphraseKey = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    );
+    passphraseBits = await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', salt: salt as Uint8Array<ArrayBuffer>, iterations, hash: 'SHA-256' },
+      passphraseKey,
+      256
+    );
+  }
+
+  const keyMaterial = new Uint8Array(secret.byteLength + passphraseBits.byteLength);
+  keyMaterial.set(secret, 0);
+  keyMaterial.set(new Uint8Array(passphraseBits), secret.byteLength);
+  const baseKey = await crypto.subtle.importKey('raw', keyMaterial, 'HKDF', false, ['deriveKey']);
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: salt as Uint8Array<ArrayBuffer>,
+      info: new TextEncoder().encode(SHARE_KEY_INFO),
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Encrypt and upload a file in parts, and return its share link.
+// onProgress receives the file bytes encrypted so far.
+export async function createShareLink(
+  file: File,
+  options: ShareOptions,
+  onProgress?: (bytes: number) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const secret = crypto.getRandomValues(new Uint8Array(LINK_SECRET_LENGTH));
+  const salt = generateSalt();
+  const nonce = generateNonce();
+  const passphraseIterations = options.passphrase ? PBKDF2_ITERATIONS : null;
+  const aesKey = await deriveShareKey(secret, salt, options.passphrase, passphraseIterations);
+
+  // The upload size has to be known up front, so the compressed size is measured first
+  let compression: CompressionAlgorithm = 'none';
+  let compressedSize = file.size;
+  if (isCompressible(file)) {
+    const measured = await measureCompressedSize(file, COMPRESSION_ALGORITHM, signal);
+    if (measured < file.size) {
+      compression = COMPRESSION_ALGORITHM;
+      compressedSize = measured;
+    }
+  }
+
+  const { uploadId } = await initUpload({
+    receiverIds: [],
+    totalSize: encryptedSize(compressedSize, CHUNK_SIZE),
+    partSize: PART_SIZE,
+  });
+  const encryption = createWorkerEncryptionStream(aesKey, nonce, CHUNK_SIZE, { signal });
+  await uploadParts(
+    uploadId,
+    file.stream()
+      .pipeThrough(createProgressStream((bytes) => onProgress?.(bytes)))
+      .pipeThrough(createCompressionStream(compression))
+      .pipeThrough(createCompressedSizeCheckStream(compressedSize))
+      .pipeThrough(encryption.stream),
+    PART_SIZE,
+    { signal }
+  );
+  await encryption.digest;
+
+  const share: ShareFields = {
+    version: SHARE_VERSION,
+    chunkSize: CHUNK_SIZE,
+    nonce: arrayBufferToBase64(nonce.buffer as ArrayBuffer),
+    salt: arrayBufferToBase64(salt.buffer as ArrayBuffer),
+    passphraseIterations,
+    metadata: await encryptMetadata(encodeShareMetadata({
+      fileName: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      fileSize: file.size,
+      lastModified: file.lastModified,
+      compression,
+    }), aesKey),
+  };
+  signal?.throwIfAborted();
+  const { shareId } = await createShare({
+    share,
+    uploadId,
+    expiresAt: options.expiresAt,
+    maxDownloads: options.maxDownloads,
+  });
+
+  return `${window.location.origin}${SHARE_ROUTE}/${encodeURIComponent(shareId)}#${toBase64Url(secret)}`;
+}
+
+// The link secret from the fragment of a share link (location.hash)
+export function readLinkSecret(hash: string): Uint8Array {
+  const secret = hash.replace(/^#/, '');
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(secret);
+  } catch {
+    bytes = new Uint8Array(0);
+  }
+  if (bytes.byteLength !== LINK_SECRET_LENGTH) {
+    throw new Error('This link is incomplete - the key after the # is missing or damaged');
+  }
+  return bytes;
+}
+
+// Derive the content key and decrypt the file details
+export async function openShare(info: ShareInfo, secret: Uint8Array, passphrase: string): Promise<OpenedShare> {
+  if (info.version !== SHARE_VERSION) {
+    throw new Error(`Unsupported share link version: ${info.version}`);
+  }
+  const aesKey = await deriveShareKey(
+    secret,
+    new Uint8Array(base64ToArrayBuffer(info.salt)),
+    passphrase,
+    info.passphraseIterations
+  );
+
+  const metadata = base64ToArrayBuffer(info.metadata);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: metadata.slice(0, METADATA_NONCE_LENGTH) },
+      aesKey,
+      metadata.slice(METADATA_NONCE_LENGTH)
+    );
+  } catch {
+    throw new Error(info.passphraseIterations !== null
+      ? 'Incorrect passphrase, or the link is damaged'
+      : 'This link is damaged - check that it was copied completely');
+  }
+  return { aesKey, metadata: decodeShareMetadata(plaintext) };
+}
+
+// Stream download -> decrypt (in the crypto worker) -> decompress -> sink.
+// Every chunk is authenticated, and the final chunk is marked, so a modified or
+// truncated file fails instead of being saved. onProgress receives ciphertext bytes.
+export async function saveShare(
+  info: ShareInfo,
+  { aesKey, metadata }: OpenedShare,
+  sink: WritableStream<Uint8Array>,
+  onProgress: (bytes: number) => void,
+  signal: AbortSignal
+): Promise<void> {
+  const decryption = createWorkerDecryptionStream(
+    aesKey,
+    new Uint8Array(base64ToArrayBuffer(info.nonce)),
+    info.chunkSize,
+    { onProgress, signal }
+  );
+  let outputSize = 0;
+  await (await downloadShare(info.shareId))
+    .pipeThrough(decryption.stream)
+    .pipeThrough(createDecompressionStream(metadata.compression))
+    .pipeThrough(createProgressStream((bytes) => { outputSize = bytes; }))
+    .pipeTo(sink, { preventClose: true, signal });
+  await decryption.digest;
+
+  if (outputSize !== metadata.fileSize) {
+    throw new Error('The shared file does not have the size it was shared with');
+  }
+}
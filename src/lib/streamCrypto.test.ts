@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { generateAESKey, generateNonce } from '@/lib/crypto';
+import {
+  AUTH_TAG_LENGTH,
+  ChunkedCipherStream,
+  createDecryptionStream,
+  createEncryptionStream,
+  encryptedSize,
+} from '@/lib/streamCrypto';
+
+const CHUNK = 64;
+
+// Feed the input in pieces that do not line up with chunk boundaries
+async function run(cipher: ChunkedCipherStream, input: Uint8Array, pieceSize = 50): Promise<Uint8Array> {
+  const source = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let offset = 0; offset < input.byteLength; offset += pieceSize) {
+        controller.enqueue(input.slice(offset, offset + pieceSize));
+      }
+      controller.close();
+    },
+  });
+  const reader = source.pipeThrough(cipher.stream).getReader();
+  const parts: Uint8Array[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.byteLength;
+  }
+  return output;
+}
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let offset = 0; offset < length; offset += 65536) {
+    crypto.getRandomValues(bytes.subarray(offset, Math.min(offset + 65536, length)));
+  }
+  return bytes;
+}
+
+describe('chunked stream encryption', () => {
+  it.each([0, 1, CHUNK - 1, CHUNK, CHUNK + 1, 3 * CHUNK, 5 * CHUNK + 7])(
+    'round-trips %i bytes with matching digests',
+    async (length) => {
+      const key = await generateAESKey();
+      const nonce = generateNonce();
+      const plaintext = randomBytes(length);
+
+      const encryption = createEncryptionStream(key, nonce, CHUNK);
+      const ciphertext = await run(encryption, plaintext);
+      expect(ciphertext.byteLength).toBe(encryptedSize(length, CHUNK));
+
+      const decryption = createDecryptionStream(key, nonce, CHUNK);
+      expect(await run(decryption, ciphertext)).toEqual(plaintext);
+      expect(new Uint8Array(await decryption.digest)).toEqual(new Uint8Array(await encryption.digest));
+    }
+  );
+
+  it('rejects a modified chunk', async () => {
+    const key = await generateAESKey();
+    const nonce = generateNonce();
+    const ciphertext = await run(createEncryptionStream(key, nonce, CHUNK), randomBytes(3 * CHUNK));
+
+    ciphertext[CHUNK + AUTH_TAG_LENGTH + 5] ^= 1;
+    await expect(run(createDecryptionStream(key, nonce, CHUNK), ciphertext)).rejects.toThrow('Chunk 1 failed authentication');
+  });
+
+  it('rejects a stream truncated at a chunk boundary', async () => {
+    const key = await generateAESKey();
+    const nonce = generateNonce();
+    const ciphertext = await run(createEncryptionStream(key, nonce, CHUNK), randomBytes(3 * CHUNK));
+
+    const truncated = ciphertext.slice(0, 2 * (CHUNK + AUTH_TAG_LENGTH));
+    await expect(run(createDecryptionStream(key, nonce, CHUNK), truncated)).rejects.toThrow('failed authentication');
+  });
+
+  it('rejects reordered chunks', async () => {
+    const key = await generateAESKey();
+    const nonce = generateNonce();
+    const ciphertext = await run(createEncryptionStream(key, nonce, CHUNK), randomBytes(3 * CHUNK));
+
+    const block = CHUNK + AUTH_TAG_LENGTH;
+    const reordered = new Uint8Array(ciphertext);
+    reordered.set(ciphertext.subarray(block, 2 * block), 0);
+    reordered.set(ciphertext.subarray(0, block), block);
+    await expect(run(createDecryptionStream(key, nonce, CHUNK), reordered)).rejects.toThrow('Chunk 0 failed authentication');
+  });
+
+  it('rejects a different nonce or key', async () => {
+    const key = await generateAESKey();
+    const nonce = generateNonce();
+    const ciphertext = await run(createEncryptionStream(key, nonce, CHUNK), randomBytes(CHUNK));
+
+    await expect(run(createDecryptionStream(key, generateNonce(), CHUNK), ciphertext)).rejects.toThrow('failed authentication');
+    await expect(run(createDecryptionStream(await generateAESKey(), nonce, CHUNK), ciphertext)).rejects.toThrow('failed authentication');
+  });
+
+  it('rejects a stream shorter than an auth tag', async () => {
+    const key = await generateAESKey();
+    const nonce = generateNonce();
+
+    await expect(run(createDecryptionStream(key, nonce, CHUNK), randomBytes(AUTH_TAG_LENGTH - 1))).rejects.toThrow('truncated');
+  });
+});
@@ -0,0 +1,164 @@
+// Chunked AES-256-GCM Streaming Encryption
+// Files are processed in fixed-size chunks so memory use stays bounded
+
+import { hashData, concatenateBuffers } from '@/lib/crypto';
+
+// Plaintext bytes per chunk
+export const CHUNK_SIZE = 1024 * 1024;
+
+// AES-GCM appends a 16-byte auth tag to every encrypted chunk
+export const AUTH_TAG_LENGTH = 16;
+
+// Largest chunk counter that fits in the nonce
+const MAX_CHUNK_COUNT = 0xffffffff;
+
+export interface ChunkedCipherStream {
+  stream: ReadableWritablePair<Uint8Array, Uint8Array>;
+  // Chained SHA-256 over every ciphertext chunk, resolved when the stream ends
+  digest: Promise<ArrayBuffer>;
+}
+
+// Size of the ciphertext produced for a plaintext of the given size
+export function encryptedSize(plaintextSize: number, chunkSize: number = CHUNK_SIZE): number {
+  const chunkCount = Math.max(1, Math.ceil(plaintextSize / chunkSize));
+  return plaintextSize + chunkCount * AUTH_TAG_LENGTH;
+}
+
+// Derive the nonce for chunk N: the counter is XORed into the last 4 bytes of the base nonce
+function chunkNonce(baseNonce: Uint8Array, counter: number): Uint8Array<ArrayBuffer> {
+  if (counter > MAX_CHUNK_COUNT) {
+    throw new Error('File too large for chunked encryption');
+  }
+  const nonce = new Uint8Array(baseNonce);
+  const view = new DataView(nonce.buffer);
+  view.setUint32(8, (view.getUint32(8) ^ counter) >>> 0);
+  return nonce;
+}
+
+// Additional data marks the final chunk so the stream cannot be truncated at a chunk boundary
+function chunkAdditionalData(isFinal: boolean): Uint8Array<ArrayBuffer> {
+  return new Uint8Array([isFinal ? 1 : 0]);
+}
+
+// Fold one ciphertext chunk into the running digest: H(previous || chunk)
+async function chainDigest(previous: ArrayBuffer, chunk: Uint8Array): Promise<ArrayBuffer> {
+  return await hashData(concatenateBuffers(previous, chunk.slice().buffer));
+}
+
+// Build a transform that re-slices its input into fixed-size blocks.
+// A full block is only handed on as non-final once more input arrives,
+// so the block left over at flush time is always the final one (possibly empty).
+function createBlockTransform(
+  blockSize: number,
+  initialDigest: Promise<ArrayBuffer>,
+  processBlock: (block: Uint8Array, counter: number, isFinal: boolean) => Promise<{ output: Uint8Array; ciphertext: Uint8Array }>
+): ChunkedCipherStream {
+  let buffer = new Uint8Array(blockSize);
+  let filled = 0;
+  let counter = 0;
+  let digestState = initialDigest;
+
+  let resolveDigest: (digest: ArrayBuffer) => void;
+  let rejectDigest: (reason: unknown) => void;
+  const digest = new Promise<ArrayBuffer>((resolve, reject) => {
+    resolveDigest = resolve;
+    rejectDigest = reject;
+  });
+  // Consumers may never await the digest if the stream fails early
+  digest.catch(() => undefined);
+
+  const emitBlock = async (
+    controller: TransformStreamDefaultController<Uint8Array>,
+    isFinal: boolean
+  ) => {
+    const { output, ciphertext } = await processBlock(buffer.subarray(0, filled), counter, isFinal);
+    const previous = await digestState;
+    digestState = chainDigest(previous, ciphertext);
+    controller.enqueue(output);
+    counter++;
+    buffer = new Uint8Array(blockSize);
+    filled = 0;
+  };
+
+  const stream = new TransformStream<Uint8Array, Uint8Array>({
+    async transform(data, controller) {
+      try {
+        let offset = 0;
+        while (offset < data.byteLength) {
+          if (filled === blockSize) {
+            await emitBlock(controller, false);
+          }
+          const take = Math.min(blockSize - filled, data.byteLength - offset);
+          buffer.set(data.subarray(offset, offset + take), filled);
+          filled += take;
+          offset += take;
+        }
+      } catch (err) {
+        rejectDigest(err);
+        throw err;
+      }
+    },
+    async flush(controller) {
+      try {
+        await emitBlock(controller, true);
+        resolveDigest(await digestState);
+      } catch (err) {
+        rejectDigest(err);
+        throw err;
+      }
+    },
+  });
+
+  return { stream, digest };
+}
+
+// Encrypt a plaintext stream chunk by chunk with AES-256-GCM
+export function createEncryptionStream(
+  aesKey: CryptoKey,
+  baseNonce: Uint8Array,
+  chunkSize: number = CHUNK_SIZE
+): ChunkedCipherStream {
+  return createBlockTransform(chunkSize, hashData(baseNonce.slice().buffer), async (block, counter, isFinal) => {
+    const encrypted = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: chunkNonce(baseNonce, counter),
+        additionalData: chunkAdditionalData(isFinal),
+      },
+      aesKey,
+      block
+    );
+    const ciphertext = new Uint8Array(encrypted);
+    return { output: ciphertext, ciphertext };
+  });
+}
+
+// Decrypt and authenticate a ciphertext stream chunk by chunk.
+// Reordered, truncated or extended streams fail to decrypt.
+export function createDecryptionStream(
+  aesKey: CryptoKey,
+  baseNonce: Uint8Array,
+  chunkSize: number = CHUNK_SIZE
+): ChunkedCipherStream {
+  return createBlockTransform(chunkSize + AUTH_TAG_LENGTH, hashData(baseNonce.slice().buffer), async (block, counter, isFinal) => {
+    if (block.byteLength < AUTH_TAG_LENGTH) {
+      throw new Error('Encrypted file is truncated');
+    }
+    const ciphertext = block.slice();
+    let decrypted: ArrayBuffer;
+    try {
+      decrypted = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: chunkNonce(baseNonce, counter),
+          additionalData: chunkAdditionalData(isFinal),
+        },
+        aesKey,
+        ciphertext
+      );
+    } catch {
+      throw new Error(`Chunk ${counter} failed authentication - file may be tampered, reordered or truncated`);
+    }
+    return { output: new Uint8Array(decrypted), ciphertext };
+  });
+}
@@ -0,0 +1,131 @@
+// Streamed file saving
+// Decrypted data is written straight to disk instead of being buffered in memory.
+// Uses the File System Access API where available, otherwise a service-worker download.
+
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+  }
+}
+
+const DOWNLOAD_SW_URL = '/download-sw.js';
+const DOWNLOAD_PATH_PREFIX = '/__vortex-download/';
+
+// Thrown when the user dismisses the save dialog
+export class DownloadCancelledError extends Error {
+  constructor() {
+    super('Download cancelled');
+    this.name = 'DownloadCancelledError';
+  }
+}
+
+// Open a writable on a file the user picks
+async function openFileSystemSink(fileName: string): Promise<WritableStream<Uint8Array>> {
+  try {
+    const handle = await window.showSaveFilePicker({ suggestedName: fileName });
+    return await handle.createWritable();
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') {
+      throw new DownloadCancelledError();
+    }
+    throw err;
+  }
+}
+
+async function getDownloadWorker(): Promise<ServiceWorker> {
+  await navigator.serviceWorker.register(DOWNLOAD_SW_URL);
+  const registration = await navigator.serviceWorker.ready;
+  if (!registration.active) {
+    throw new Error('Download service worker is not active');
+  }
+  return registration.active;
+}
+
+// Stream chunks to the download service worker, which serves them as a file download
+async function openServiceWorkerSink(fileName: string): Promise<WritableStream<Uint8Array>> {
+  const worker = await getDownloadWorker();
+  const id = crypto.randomUUID();
+  const channel = new MessageChannel();
+  const port = channel.port1;
+
+  // The worker pulls one chunk at a time; writes wait until it asks for more
+  let credits = 0;
+  let waitingForCredit: (() => void) | null = null;
+  let cancelled = false;
+
+  await new Promise<void>((resolve) => {
+    port.onmessage = ({ data }) => {
+      if (data.type === 'ready') {
+        resolve();
+      } else if (data.type === 'pull') {
+        credits++;
+        waitingForCredit?.();
+        waitingForCredit = null;
+      } else if (data.type === 'cancel') {
+        cancelled = true;
+        waitingForCredit?.();
+        waitingForCredit = null;
+      }
+    };
+    worker.postMessage({ type: 'register-download', id, fileName }, [channel.port2]);
+  });
+
+  // Navigating a hidden iframe to the worker URL starts the browser download
+  const iframe = document.createElement('iframe');
+  iframe.hidden = true;
+  iframe.src = `${DOWNLOAD_PATH_PREFIX}${id}`;
+  document.body.appendChild(iframe);
+
+  const cleanup = () => {
+    port.close();
+    setTimeout(() => iframe.remove(), 1000);
+  };
+
+  return new WritableStream<Uint8Array>({
+    async write(chunk) {
+      while (credits === 0 && !cancelled) {
+        await new Promise<void>((resolve) => {
+          waitingForCredit = resolve;
+        });
+      }
+      if (cancelled) {
+        throw new DownloadCancelledError();
+      }
+      credits--;
+      const copy = chunk.slice();
+      port.postMessage({ type: 'chunk', chunk: copy.buffer }, [copy.buffer]);
+    },
+    close() {
+      port.postMessage({ type: 'end' });
+      cleanup();
+    },
+    abort(reason) {
+      port.postMessage({ type: 'abort', reason: reason instanceof Error ? reason.message : String(reason) });
+      cleanup();
+    },
+  });
+}
+
+// Pick the best available way to stream a download to disk.
+// Call this directly from the click handler: the save dialog needs a user gesture.
+export async function openDownloadSink(fileName: string): Promise<WritableStream<Uint8Array>> {
+  if (window.showSaveFilePicker) {
+    return openFileSystemSink(fileName);
+  }
+  if ('serviceWorker' in navigator) {
+    return openServiceWorkerSink(fileName);
+  }
+  throw new Error('This browser cannot stream downloads to disk');
+}
+
+// Pass-through stream that reports how many bytes have flowed through it
+export function createProgressStream(onProgress: (bytes: number) => void): TransformStream<Uint8Array, Uint8Array> {
+  let bytes = 0;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytes += chunk.byteLength;
+      onProgress(bytes);
+      controller.enqueue(chunk);
+    },
+  });
+}
@@ -0,0 +1,183 @@
+// Resumable upload progress storage
+// Pending uploads are kept in IndexedDB so they survive reloads and reconnects.
+// Names of finished uploads are kept too: the server only sees encrypted metadata, so
+// this device is the only place the sender can read them back from.
+
+import type { CompressionAlgorithm } from '@/lib/compression';
+import type { EnvelopeFields } from '@/lib/envelope';
+
+const DB_NAME = 'vortex-uploads';
+// Version 2 drops uploads that this version cannot finish; see onupgradeneeded.
+// Version 3 adds the names of sent files.
+const DB_VERSION = 3;
+const STORE_NAME = 'uploads';
+const SENT_STORE_NAME = 'sent';
+
+export interface PendingUpload {
+  uploadId: string;
+  recipients: { userId: string; email: string }[];
+  fileName: string;
+  fileSize: number;
+  fileLastModified: number;
+  // Compression applied before padding and the size it produced; absent when not compressed
+  compression?: CompressionAlgorithm;
+  compressedSize?: number;
+  // Plaintext size after padding; absent when the file is not padded
+  paddedSize?: number;
+  // Envelope header without the signature, which is added once the upload finishes
+  envelope: EnvelopeFields;
+  // Content key encrypted to our own public key, so the same ciphertext can be rebuilt on resume
+  selfEncryptedAESKey: string;
+  // Our key version when the upload started; absent for uploads started before key versioning
+  keyId?: number;
+  partSize: number;
+  // SHA-256 of the plaintext of each part as it was first encrypted, base64, indexed by
+  // part number - 1. Recorded before the part is encrypted, so a resume never encrypts
+  // different bytes under the same key and nonce.
+  partDigests: string[];
+  completedParts: number[];
+  createdAt: string;
+}
+
+// A file this device sent, by the id the server gave it
+export interface SentFileName {
+  fileId: string;
+  fileName: string;
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(SENT_STORE_NAME)) {
+        db.createObjectStore(SENT_STORE_NAME, { keyPath: 'fileId' });
+      }
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'uploadId' });
+        return;
+      }
+
+      // Uploads started before the envelope format, multi-recipient sends or part digests
+      // have no header to finish them with or cannot be resumed safely; drop them
+      if (event.oldVersion < 2) {
+        const cursorRequest = request.transaction!.objectStore(STORE_NAME).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const upload = cursor.value as Partial<PendingUpload>;
+          if (!upload.envelope || !upload.recipients || !upload.partDigests) {
+            cursor.delete();
+          }
+          cursor.continue();
+        };
+      }
+    };
+  });
+}
+
+export async function savePendingUpload(upload: PendingUpload): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(upload);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function getPendingUploads(): Promise<PendingUpload[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).getAll();
+
+    transaction.oncomplete = () => resolve(request.result as PendingUpload[]);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Record a part as uploaded
+export async function markPartCompleted(uploadId: string, partNumber: number): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(uploadId);
+
+    request.onsuccess = () => {
+      const upload = request.result as PendingUpload | undefined;
+      if (upload && !upload.completedParts.includes(partNumber)) {
+        upload.completedParts.push(partNumber);
+        store.put(upload);
+      }
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Record the plaintext digest of a part before it is first encrypted
+export async function recordPartDigest(uploadId: string, partNumber: number, digest: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(uploadId);
+
+    request.onsuccess = () => {
+      const upload = request.result as PendingUpload | undefined;
+      if (upload) {
+        upload.partDigests[partNumber - 1] = digest;
+        store.put(upload);
+      }
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deletePendingUpload(uploadId: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(uploadId);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Remember the name of a file once its upload has finished
+export async function saveSentFileName(sent: SentFileName): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SENT_STORE_NAME, 'readwrite');
+    transaction.objectStore(SENT_STORE_NAME).put(sent);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Names of the files sent from this device, by file id
+export async function getSentFileNames(): Promise<Map<string, string>> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SENT_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(SENT_STORE_NAME).getAll();
+
+    transaction.oncomplete = () => {
+      const sent = request.result as SentFileName[];
+      resolve(new Map(sent.map(({ fileId, fileName }) => [fileId, fileName])));
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
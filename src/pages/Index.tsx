@@ -1,14 +1,24 @@
 import { useAuth, AuthProvider } from '@/contexts/AuthContext';
 import { Login } from '@/components/Login';
 import { Dashboard } from '@/components/Dashboard';
+import { LockScreen } from '@/components/LockScreen';
+import { RecoveryPhraseNotice } from '@/components/RecoveryPhraseNotice';
 
 function AppContent() {
-  const { isLoggedIn } = useAuth();
+  const { isLoggedIn, hasKeyPair, keyStatus, recoveryPhrase } = useAuth();
 
   if (!isLoggedIn) {
     return <Login />;
   }
 
+  if (recoveryPhrase) {
+    return <RecoveryPhraseNotice />;
+  }
+
+  if (hasKeyPair && keyStatus !== 'unlocked') {
+    return <LockScreen />;
+  }
+
   return <Dashboard />;
 }
 
@@ -0,0 +1,201 @@
+import { useState, useEffect, useRef } from 'react';
+import { useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { getShare, ShareInfo } from '@/lib/api';
+import { openShare, readLinkSecret, saveShare, OpenedShare } from '@/lib/shareLinks';
+import { openDownloadSink, DownloadCancelledError } from '@/lib/streamDownload';
+
+type ShareState = 'loading' | 'passphrase' | 'ready' | 'downloading' | 'done' | 'error';
+
+// Public page for share links: needs no account, and the key never leaves the browser
+const Share = () => {
+  const { shareId = '' } = useParams();
+  const [state, setState] = useState<ShareState>('loading');
+  const [info, setInfo] = useState<ShareInfo | null>(null);
+  const [opened, setOpened] = useState<OpenedShare | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [transfer, setTransfer] = useState<{ bytes: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const secret = readLinkSecret(window.location.hash);
+        const share = await getShare(shareId);
+        setInfo(share);
+        if (share.passphraseIterations !== null) {
+          setState('passphrase');
+          return;
+        }
+        setOpened(await openShare(share, secret, ''));
+        setState('ready');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to open link');
+        setState('error');
+      }
+    };
+    load();
+  }, [shareId]);
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!info) return;
+    setError('');
+    setUnlocking(true);
+    try {
+      setOpened(await openShare(info, readLinkSecret(window.location.hash), passphrase));
+      setPassphrase('');
+      setState('ready');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open link');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!info || !opened) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError('');
+
+    let sink: WritableStream<Uint8Array> | null = null;
+    try {
+      // Ask for the save location first, while the click still counts as a user gesture
+      sink = await openDownloadSink(opened.metadata.fileName);
+      setState('downloading');
+      await saveShare(
+        info,
+        opened,
+        sink,
+        (bytes) => setTransfer({ bytes, total: info.encryptedSize }),
+        controller.signal
+      );
+      await sink.close();
+      setState('done');
+    } catch (err) {
+      // Discard whatever was written so a damaged or partial file is never kept
+      await sink?.abort(err).catch(() => undefined);
+
+      if (err instanceof DownloadCancelledError || controller.signal.aborted) {
+        setState('ready');
+        return;
+      }
+      console.error('Download failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to download file');
+      setState('ready');
+    } finally {
+      setTransfer(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <div className="p-8 border rounded-lg shadow-sm max-w-md w-full space-y-6">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">Vortex</h1>
+          <p className="text-muted-foreground">Someone shared an encrypted file with you</p>
+        </div>
+
+        {state === 'loading' && (
+          <div className="text-center py-4">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Opening link...</p>
+          </div>
+        )}
+
+        {state === 'error' && (
+          <p className="text-sm text-destructive text-center">{error}</p>
+        )}
+
+        {state === 'passphrase' && (
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Passphrase</label>
+              <Input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoFocus
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                The sender should have given you this separately from the link.
+              </p>
+            </div>
+            {error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={unlocking || !passphrase}>
+              {unlocking ? 'Unlocking...' : 'Unlock'}
+            </Button>
+          </form>
+        )}
+
+        {(state === 'ready' || state === 'downloading') && info && opened && (
+          <div className="space-y-4">
+            <div className="p-4 bg-muted rounded-lg">
+              <p className="text-sm font-medium break-all">{opened.metadata.fileName}</p>
+              <p className="text-xs text-muted-foreground">
+                {(opened.metadata.fileSize / 1024).toFixed(2)} KB
+              </p>
+              {(info.expiresAt || info.downloadsRemaining !== null) && (
+                <p className="text-xs text-muted-foreground">
+                  {[
+                    info.expiresAt && `Expires ${new Date(info.expiresAt).toLocaleString()}`,
+                    info.downloadsRemaining !== null &&
+                      `${info.downloadsRemaining} ${info.downloadsRemaining === 1 ? 'download' : 'downloads'} left`,
+                  ].filter(Boolean).join(' · ')}
+                </p>
+              )}
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+
+            {state === 'ready' && (
+              <Button onClick={handleDownload} className="w-full">
+                Download
+              </Button>
+            )}
+
+            {state === 'downloading' && (
+              <div className="space-y-2">
+                {transfer && (
+                  <div className="space-y-1">
+                    <Progress value={(transfer.bytes / transfer.total) * 100} />
+                    <p className="text-xs text-muted-foreground text-center">
+                      {(transfer.bytes / (1024 * 1024)).toFixed(1)} of {(transfer.total / (1024 * 1024)).toFixed(1)} MB
+                    </p>
+                  </div>
+                )}
+                <Button onClick={() => abortRef.current?.abort()} variant="outline" className="w-full">
+                  Cancel
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {state === 'done' && opened && (
+          <div className="text-center space-y-2">
+            <h3 className="text-lg font-semibold">Download Complete</h3>
+            <p className="text-sm text-muted-foreground">
+              {opened.metadata.fileName} was decrypted on this device and checked for tampering.
+            </p>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground text-center">
+          The key is in the part of the link after the #, which your browser never sends to the server.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default Share;
@@ -0,0 +1,54 @@
+// Shared test helpers
+// Workers do not run under test, so modules that use the crypto worker are tested
+// against the same operations on the main thread:
+//   vi.mock('@/lib/cryptoWorker', async () => (await import('@/test/helpers')).mainThreadCryptoWorker);
+
+import type { PublicKeyBundle } from '@/lib/api';
+import { base64ToArrayBuffer, exportPublicKey } from '@/lib/crypto';
+import { getSuite, DEFAULT_SUITE_ID, SuiteId } from '@/lib/cryptoSuites';
+import type * as CryptoWorker from '@/lib/cryptoWorker';
+import { generatePqKeyPair } from '@/lib/hybridKem';
+import type { StoredKeys } from '@/lib/keyStorage';
+import { createDecryptionStream, createEncryptionStream } from '@/lib/streamCrypto';
+
+// Progress and cancellation are left out; cryptoWorker.test.ts covers them
+export const mainThreadCryptoWorker: Pick<
+  typeof CryptoWorker,
+  'signInWorker' | 'verifyInWorker' | 'createWorkerEncryptionStream' | 'createWorkerDecryptionStream'
+> = {
+  signInWorker: (suite, privateKey, data) => getSuite(suite).sign(data, privateKey),
+  verifyInWorker: (suite, publicKey, signature, data) => getSuite(suite).verify(signature, data, publicKey),
+  createWorkerEncryptionStream: (aesKey, nonce, chunkSize) => createEncryptionStream(aesKey, nonce, chunkSize),
+  createWorkerDecryptionStream: (aesKey, nonce, chunkSize) => createDecryptionStream(aesKey, nonce, chunkSize),
+};
+
+// A complete set of unlocked account keys, as keyStorage hands them to the app
+export async function createTestKeys(keyId = 1, suiteId: SuiteId = DEFAULT_SUITE_ID): Promise<StoredKeys> {
+  const suite = getSuite(suiteId);
+  const encryption = await suite.generateEncryptionKeyPair();
+  const signing = await suite.generateSigningKeyPair();
+  const pq = generatePqKeyPair();
+  return {
+    suite: suite.id,
+    keyId,
+    encryptionPublicKey: await exportPublicKey(encryption.publicKey),
+    encryptionPrivateKey: encryption.privateKey,
+    pqEncryptionPublicKey: pq.publicKey,
+    pqEncryptionPrivateKey: new Uint8Array(base64ToArrayBuffer(pq.privateKey)),
+    signingPublicKey: await exportPublicKey(signing.publicKey),
+    signingPrivateKey: signing.privateKey,
+    previousEncryptionKeys: new Map(),
+  };
+}
+
+// The key version the directory would publish for these keys
+export function publicKeyBundleOf(keys: StoredKeys): PublicKeyBundle {
+  return {
+    suite: keys.suite,
+    encryption: keys.encryptionPublicKey,
+    signing: keys.signingPublicKey,
+    pqEncryption: keys.pqEncryptionPublicKey,
+    keyId: keys.keyId,
+    rotation: null,
+  };
+}